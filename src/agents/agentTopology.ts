@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Agent Topology
+ *
+ * Declarative worker topology for the supervisor. A YAML or JSON file lists each worker's
+ * registration id, name, purpose, prompt variant, model, tool names and memory settings.
+ * The file is validated against a schema on load, and tool names are resolved against the
+ * `allTools` registry so a typo or a removed tool stops startup instead of silently
+ * producing a worker without that capability.
+ *
+ * @module AgentTopology
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import * as fs from 'fs/promises';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { Tool } from '@voltagent/core';
+
+/** Current topology file version */
+export const AGENT_TOPOLOGY_VERSION = 1;
+
+const identifierSchema = z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'Use lowercase letters, digits, "-" and "_"');
+
+const memorySchema = z.object({
+  /** Memory database and hook namespace (default: the worker id without dashes) */
+  namespace: identifierSchema.optional(),
+  /** Messages kept per conversation */
+  storageLimit: z.number().int().positive().optional(),
+});
+
+const workerSchema = z
+  .object({
+    /** Key the worker is registered under in VoltAgent */
+    id: identifierSchema,
+    name: z.string().min(1),
+    purpose: z.string().min(1),
+    /** workerPrompts variant used to generate the instructions (default: the worker id) */
+    prompt: z.string().min(1).optional(),
+    /** Literal instructions; takes precedence over the prompt variant */
+    instructions: z.string().min(1).optional(),
+    /** Model string such as `google:gemini-2.5-flash-preview-05-20` or `ollama:llama3.1:8b` */
+    model: z.string().min(1).optional(),
+    /** Models tried in order when the model keeps failing */
+    fallbackModels: z.array(z.string().min(1)).optional(),
+    /** Options keyed by provider; options for other providers than the resolved one are ignored */
+    providerOptions: z.record(z.any()).optional(),
+    tools: z.array(z.string().min(1)).min(1),
+    memory: memorySchema.optional(),
+    enabled: z.boolean().default(true),
+  })
+  .strict();
+
+const topologySchema = z
+  .object({
+    version: z.literal(AGENT_TOPOLOGY_VERSION),
+    defaults: z
+      .object({
+        /** Model string for workers without their own; falls back to DEFAULT_MODEL */
+        model: z.string().min(1).optional(),
+        /** Fallback models for workers without their own; falls back to DEFAULT_FALLBACK_MODELS */
+        fallbackModels: z.array(z.string().min(1)).optional(),
+        providerOptions: z.record(z.any()).optional(),
+        memory: memorySchema.pick({ storageLimit: true }).default({}),
+      })
+      .strict()
+      .default({}),
+    workers: z.array(workerSchema).min(1),
+  })
+  .strict()
+  .superRefine((topology, ctx) => {
+    const seen = { id: new Set<string>(), name: new Set<string>() };
+    topology.workers.forEach((worker, index) => {
+      for (const field of ['id', 'name'] as const) {
+        if (seen[field].has(worker[field])) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['workers', index, field], message: `Duplicate worker ${field} '${worker[field]}'` });
+        }
+        seen[field].add(worker[field]);
+      }
+    });
+  });
+
+/**
+ * Validated topology file
+ */
+export type AgentTopology = z.infer<typeof topologySchema>;
+
+/**
+ * A single worker declaration
+ */
+export type WorkerDefinition = AgentTopology['workers'][number];
+
+/**
+ * Tools available to topology files, keyed by tool name
+ */
+export type ToolRegistry = Map<string, Tool<any>>;
+
+/**
+ * Parse and validate topology file contents
+ * @param source - YAML or JSON text
+ * @param origin - File name used in error messages
+ * @returns Validated topology with defaults applied
+ * @throws Error describing every schema violation
+ */
+export const parseAgentTopology = (source: string, origin = 'agent topology'): AgentTopology => {
+  let document: unknown;
+  try {
+    document = parseYaml(source);
+  } catch (error) {
+    throw new Error(`Failed to parse ${origin}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = topologySchema.safeParse(document);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid ${origin}:\n${issues.join('\n')}`);
+  }
+  return result.data;
+};
+
+/**
+ * Load and validate a topology file
+ * @param filePath - Path of a .yaml, .yml or .json file
+ * @returns Validated topology with defaults applied
+ * @throws Error if the file cannot be read or is invalid
+ */
+export const loadAgentTopology = async (filePath: string): Promise<AgentTopology> => {
+  let source: string;
+  try {
+    source = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read agent topology file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parseAgentTopology(source, `agent topology file ${filePath}`);
+};
+
+/**
+ * Index tools by name. Toolkits and other non-tool entries are skipped.
+ * When two tools share a name the later one wins, so the enhanced git tools in `allTools`
+ * replace the standard ones registered before them.
+ * @param tools - Tool list, typically `allTools`
+ * @returns Registry keyed by tool name
+ */
+export const createToolRegistry = (tools: readonly unknown[]): ToolRegistry => {
+  const registry: ToolRegistry = new Map();
+  for (const tool of tools) {
+    if (tool && typeof tool === 'object' && 'name' in tool && 'execute' in tool) {
+      registry.set((tool as Tool<any>).name, tool as Tool<any>);
+    }
+  }
+  return registry;
+};
+
+/**
+ * Resolve every enabled worker's tool names against the registry
+ * @param topology - Validated topology
+ * @param registry - Tools keyed by name
+ * @returns Tools per worker id, in declaration order
+ * @throws Error listing every unknown tool name, grouped by worker
+ */
+export const resolveWorkerTools = (topology: AgentTopology, registry: ToolRegistry): Map<string, Tool<any>[]> => {
+  const resolved = new Map<string, Tool<any>[]>();
+  const problems: string[] = [];
+
+  for (const worker of topology.workers.filter(w => w.enabled)) {
+    const unknown = worker.tools.filter(name => !registry.has(name));
+    if (unknown.length > 0) {
+      problems.push(`  - ${worker.id}: ${unknown.join(', ')}`);
+      continue;
+    }
+    resolved.set(worker.id, Array.from(new Set(worker.tools), name => registry.get(name)!));
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Agent topology references unknown tools:\n${problems.join('\n')}`);
+  }
+  return resolved;
+};
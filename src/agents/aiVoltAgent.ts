@@ -5,17 +5,22 @@
 
 import {
   Agent,
-  LibSQLStorage,
   createHooks,
   type OnStartHookArgs,
   type OnEndHookArgs,
   type OnToolEndHookArgs
 } from "@voltagent/core";
 import { VercelAIProvider } from "@voltagent/vercel-ai";
-import { google } from "@ai-sdk/google";
-import { logger } from "../config/logger.js";
+import { createModuleLogger } from "../config/logger.js";
+import { secretRedactor } from "../config/redaction.js";
+import { RedactingLibSQLStorage } from "./redactingMemory.js";
+import { resolveResilientAgentModel, summarizeModelTelemetry } from "./modelResilience.js";
+import { COST_ATTRIBUTION_KEY, type CostAttribution } from "./costLedger.js";
+import { startSessionBudget, summarizeBudget } from "./budgets.js";
 import { env } from "../config/environment.js";
 
+const logger = createModuleLogger("aiVoltAgent");
+
 // Specialized sub-agents will be wired in subAgents.ts
 // import { createGitAgent } from "./gitAgent.js";
 // import { createCodingAgent } from "./codingAgent.js";
@@ -66,6 +71,8 @@ const createAIVoltHooks = () => createHooks({
     context.userContext.set(CONTEXT_KEYS.COORDINATOR_AGENT, agent.name);
     context.userContext.set(CONTEXT_KEYS.RETRIEVAL_COUNT, 0);
     context.userContext.set(CONTEXT_KEYS.RETRIEVAL_HISTORY, []);
+    context.userContext.set(COST_ATTRIBUTION_KEY, { sessionId, workflowId } satisfies CostAttribution);
+    startSessionBudget(context.userContext, sessionId);
 
     logger.info(`[${agent.name}] AI-Volt coordination session started`, {
       sessionId,
@@ -91,6 +98,8 @@ const createAIVoltHooks = () => createHooks({
       delegations: delegationCount,
       durationMs: duration,
       success: !error,
+      modelTelemetry: summarizeModelTelemetry(context.userContext),
+      budget: summarizeBudget(context.userContext),
       error: error?.message,
       timestamp: new Date().toISOString()
     });
@@ -118,7 +127,7 @@ const createAIVoltHooks = () => createHooks({
         operationId: context.operationId,
         toolName: tool.name,
         duration: toolDuration,
-        outputPreview: typeof output === "string" ? output.substring(0, 100) : JSON.stringify(output).substring(0, 100)
+        outputPreview: (typeof output === "string" ? secretRedactor.redactText(output) : secretRedactor.stringify(output)).substring(0, 100)
       });
     }
   }
@@ -128,7 +137,7 @@ const createAIVoltHooks = () => createHooks({
  * Create memory storage for persistent conversation history
  */
 const createMemoryStorage = () => {
-  return new LibSQLStorage({
+  return new RedactingLibSQLStorage({
     url: "file:./.voltagent/ai-volt-memory.db", // Always use local SQLite for now
     // authToken: env.DATABASE_AUTH_TOKEN, // Not needed for local files
     tablePrefix: "ai_volt_memory",
@@ -142,8 +151,12 @@ const createMemoryStorage = () => {
  * @param subAgents An array of worker agents to be supervised.
  */
 export const createAIVoltAgent = (subAgents?: Agent<any>[]) => {
+  const { spec, fallbacks, model, providerOptions } = resolveResilientAgentModel("ai-volt", undefined, undefined, {
+    google: { thinkingConfig: { thinkingBudget: 2048 } },
+  });
   logger.info("Creating AI-Volt agent", {
-    model: "gemini-2.5-flash-preview-05-20",
+    model: spec,
+    fallbackModels: fallbacks,
     environment: env.NODE_ENV
   });
 
@@ -157,8 +170,8 @@ export const createAIVoltAgent = (subAgents?: Agent<any>[]) => {
     name: "AI-Volt",
     instructions: `You are AI-Volt, a sophisticated AI supervisor that coordinates between specialized sub-agents to solve complex tasks.`,
     llm: new VercelAIProvider(),
-    model: google('gemini-2.5-flash-preview-05-20'),
-    providerOptions: { google: { thinkingConfig: { thinkingBudget: 2048 } } },
+    model,
+    providerOptions,
     tools: [],
     memory: memoryStorage,
     hooks: hooks,
@@ -0,0 +1,268 @@
+/**
+ * @fileoverview Tool Invocation Audit Log
+ *
+ * Structured, append-only record of every tool call made by the supervisor and its workers:
+ * when it ran, for which session, workflow and delegation, through which agents, with which
+ * (redacted) arguments, how it ended, how long it took and a SHA-256 hash of its output. Calls
+ * stopped by the tool policy or the approval gate are recorded as `denied`. Records are written
+ * to rotating JSONL files or an SQLite table and can be queried with the `query_audit_log` tool
+ * and the `GET /audit` endpoint.
+ *
+ * @module AuditLog
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import { createHash } from 'crypto';
+import { createTool, type CustomEndpointDefinition, type Tool, type ToolExecuteOptions } from '@voltagent/core';
+import { generateId } from 'ai';
+import { z } from 'zod';
+import { env } from '../config/environment.js';
+import { createModuleLogger } from '../config/logger.js';
+import { redactSecrets } from '../config/redaction.js';
+import { COST_ATTRIBUTION_KEY, type CostAttribution } from './costLedger.js';
+import { resolvePolicyCaller } from './toolPolicy.js';
+import { createAuditLogStorage, type AuditLogStorageBackend, type AuditLogStorageConfig } from './auditLogStorage.js';
+
+const logger = createModuleLogger('auditLog');
+
+/** userContext key with the agent coordinating the session, first in each delegation chain */
+export const AUDIT_COORDINATOR_KEY = 'auditCoordinator';
+
+/** Tool execute option through which guards inside the audit wrapper report a denial */
+const AUDIT_OUTCOME_OPTION = 'auditOutcome';
+
+/** Longer string arguments are replaced with their length and hash */
+const MAX_ARGUMENT_LENGTH = 2000;
+
+/** Most records returned by one query */
+export const MAX_AUDIT_QUERY_LIMIT = 1000;
+
+/**
+ * One tool invocation
+ * @interface AuditRecord
+ */
+export interface AuditRecord {
+  id: string;
+  /** When the call started (ISO 8601) */
+  timestamp: string;
+  sessionId?: string;
+  workflowId?: string;
+  delegationId?: string;
+  /** Agents from the session's coordinator down to the one that made the call */
+  delegationChain: string[];
+  /** User the call ran for */
+  caller: string;
+  agent: string;
+  tool: string;
+  /** Arguments with secrets and long values redacted */
+  args: unknown;
+  status: 'success' | 'error' | 'denied';
+  /** Error message, or why the call was denied */
+  error?: string;
+  deniedBy?: 'policy' | 'approval';
+  durationMs: number;
+  /** SHA-256 of the output as returned to the agent (JSON for non-string outputs) */
+  outputHash?: string;
+  outputBytes?: number;
+  operationId?: string;
+}
+
+export const auditQuerySchema = z.object({
+  sessionId: z.string().optional().describe("Only calls in this supervisor session"),
+  workflowId: z.string().optional().describe("Only calls in this workflow"),
+  delegationId: z.string().optional().describe("Only calls in this delegation"),
+  agent: z.string().optional().describe("Only calls made by this agent"),
+  tool: z.string().optional().describe("Only calls of this tool"),
+  status: z.enum(['success', 'error', 'denied']).optional().describe("Only calls that ended this way"),
+  caller: z.string().optional().describe("Only calls made for this user"),
+  since: z.string().datetime().optional().describe("ISO 8601 start time"),
+  until: z.string().datetime().optional().describe("ISO 8601 end time"),
+  limit: z.coerce.number().int().positive().max(MAX_AUDIT_QUERY_LIMIT).default(100).describe("Most records to return, newest first"),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+interface AuditOutcome {
+  deniedBy?: AuditRecord['deniedBy'];
+  reason?: string;
+}
+
+/**
+ * Report that a guard stopped the call, so the audit record shows it as denied
+ * @param options - Execute options received by the guard
+ * @param deniedBy - Guard that denied the call
+ * @param reason - Reason given to the agent
+ */
+export const noteToolDenial = (options: ToolExecuteOptions | undefined, deniedBy: NonNullable<AuditRecord['deniedBy']>, reason: string): void => {
+  const outcome = options?.[AUDIT_OUTCOME_OPTION] as AuditOutcome | undefined;
+  if (outcome) {
+    outcome.deniedBy = deniedBy;
+    outcome.reason = reason;
+  }
+};
+
+const sha256 = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+/**
+ * Copy of tool arguments with secrets masked and long strings replaced by their hash
+ */
+export const redactAuditArguments = (value: unknown): unknown => {
+  if (typeof value === 'string') {
+    return value.length > MAX_ARGUMENT_LENGTH ? `[${value.length} chars, sha256:${sha256(value)}]` : value;
+  }
+  if (Array.isArray(value)) return value.map(item => redactAuditArguments(item));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, redactAuditArguments(item)]));
+  }
+  return value;
+};
+
+/**
+ * Build the audit storage configuration from the environment
+ */
+const createAuditLogStorageConfig = (): AuditLogStorageConfig =>
+  env.AUDIT_LOG_STORAGE === 'libsql'
+    ? {
+        backend: 'libsql',
+        url: env.DATABASE_URL ?? 'file:./.voltagent/audit-log.db',
+        authToken: env.DATABASE_AUTH_TOKEN,
+      }
+    : { backend: 'jsonl', directory: env.AUDIT_LOG_DIR, maxFileBytes: env.AUDIT_LOG_MAX_FILE_BYTES };
+
+/**
+ * Writes audit records one at a time in call order. A failed write is logged and does
+ * not fail the tool call.
+ *
+ * @class AuditLog
+ */
+export class AuditLog {
+  private storage: AuditLogStorageBackend | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly createStorage: () => AuditLogStorageBackend) {}
+
+  /** Queue a record for writing */
+  record(record: AuditRecord): void {
+    this.writeChain = this.writeChain
+      .then(() => this.getStorage().append(record))
+      .catch(error => {
+        logger.error("Failed to write audit record", {
+          auditId: record.id,
+          agent: record.agent,
+          tool: record.tool,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
+  /** Records matching the filter, newest first, after pending writes land */
+  async query(filter: AuditQuery): Promise<AuditRecord[]> {
+    await this.flush();
+    return this.getStorage().query(filter);
+  }
+
+  /** Wait for every queued write */
+  flush(): Promise<void> {
+    return this.writeChain;
+  }
+
+  /** Flush and release the storage backend */
+  async close(): Promise<void> {
+    await this.flush();
+    await this.storage?.close();
+    this.storage = null;
+  }
+
+  private getStorage(): AuditLogStorageBackend {
+    this.storage ??= this.createStorage();
+    return this.storage;
+  }
+}
+
+/** Audit log shared by every agent's tools, the query tool and the endpoint */
+export const auditLog = new AuditLog(() => createAuditLogStorage(createAuditLogStorageConfig()));
+
+/**
+ * Wrap a tool so every call is written to the audit log, including calls that
+ * the guards inside the wrapper deny
+ * @param tool - Tool to audit
+ * @param agentName - Agent the tool is given to
+ * @param log - Audit log
+ */
+export const withAuditLog = (tool: Tool<any>, agentName: string, log: AuditLog = auditLog): Tool<any> =>
+  createTool({
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+    execute: async (args: unknown, options?: ToolExecuteOptions) => {
+      const operationContext = options?.operationContext;
+      const attribution = operationContext?.userContext.get(COST_ATTRIBUTION_KEY) as CostAttribution | undefined;
+      const coordinator = operationContext?.userContext.get(AUDIT_COORDINATOR_KEY) as string | undefined;
+      const outcome: AuditOutcome = {};
+      const startTime = Date.now();
+      const base = {
+        id: `audit-${generateId()}`,
+        timestamp: new Date(startTime).toISOString(),
+        sessionId: attribution?.sessionId,
+        workflowId: attribution?.workflowId,
+        delegationId: coordinator && coordinator !== agentName ? attribution?.delegationId : undefined,
+        delegationChain: coordinator && coordinator !== agentName ? [coordinator, agentName] : [agentName],
+        caller: resolvePolicyCaller(operationContext),
+        agent: agentName,
+        tool: tool.name,
+        args: redactAuditArguments(redactSecrets(args)),
+        operationId: operationContext?.operationId,
+      };
+
+      try {
+        const output = await tool.execute(args, { ...options, [AUDIT_OUTCOME_OPTION]: outcome });
+        const serialized = typeof output === 'string' ? output : JSON.stringify(output) ?? '';
+        log.record({
+          ...base,
+          status: outcome.deniedBy ? 'denied' : 'success',
+          error: outcome.reason,
+          deniedBy: outcome.deniedBy,
+          durationMs: Date.now() - startTime,
+          outputHash: sha256(serialized),
+          outputBytes: Buffer.byteLength(serialized),
+        });
+        return output;
+      } catch (error) {
+        log.record({
+          ...base,
+          status: 'error',
+          error: error instanceof Error ? error.message : String(error),
+          durationMs: Date.now() - startTime,
+        });
+        throw error;
+      }
+    },
+  });
+
+/**
+ * Audit every tool of an agent
+ * @param tools - An agent's tools
+ * @param agentName - Agent the tools are given to
+ */
+export const applyAuditLog = (tools: Tool<any>[], agentName: string): Tool<any>[] =>
+  tools.map(tool => withAuditLog(tool, agentName));
+
+/**
+ * Endpoint for security reviews of tool activity
+ */
+export const auditEndpoints: CustomEndpointDefinition[] = [
+  {
+    path: '/audit',
+    method: 'get',
+    description: 'Tool invocation audit records by session, workflow, delegation, agent, tool, status, caller or time',
+    handler: async c => {
+      const query = auditQuerySchema.safeParse(c.req.query());
+      if (!query.success) {
+        return c.json({ success: false, error: query.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`) }, 400);
+      }
+      return c.json({ success: true, data: await auditLog.query(query.data) });
+    },
+  },
+];
@@ -0,0 +1,328 @@
+/**
+ * @fileoverview Audit Log Storage Backends
+ *
+ * Append-only persistence for tool invocation audit records. The JSONL backend (default) appends
+ * one record per line to `audit.jsonl` and rotates it to a timestamped file once it reaches a
+ * size limit; rotated files are kept. The LibSQL backend inserts into an SQLite/Turso table.
+ * Neither backend exposes updates or deletes.
+ *
+ * @module AuditLogStorage
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createClient, type Client, type InValue, type Row } from '@libsql/client';
+import { createModuleLogger } from '../config/logger.js';
+import type { AuditQuery, AuditRecord } from './auditLog.js';
+
+const logger = createModuleLogger('auditLogStorage');
+
+/** Name of the file records are appended to */
+const CURRENT_FILE = 'audit.jsonl';
+
+/**
+ * Contract implemented by every audit log storage backend
+ * @interface AuditLogStorageBackend
+ */
+export interface AuditLogStorageBackend {
+  /** Backend identifier used in logs */
+  readonly kind: 'jsonl' | 'libsql';
+  /** Append a record; callers append one record at a time */
+  append(record: AuditRecord): Promise<void>;
+  /** Records matching the filter, most recent first */
+  query(filter: AuditQuery): Promise<AuditRecord[]>;
+  /** Release resources held by the backend */
+  close(): Promise<void>;
+}
+
+/**
+ * Whether a record matches every field set in the filter
+ */
+export const matchesAuditQuery = (record: AuditRecord, filter: AuditQuery): boolean => {
+  const time = Date.parse(record.timestamp);
+  return (!filter.sessionId || record.sessionId === filter.sessionId)
+    && (!filter.workflowId || record.workflowId === filter.workflowId)
+    && (!filter.delegationId || record.delegationId === filter.delegationId)
+    && (!filter.agent || record.agent === filter.agent)
+    && (!filter.tool || record.tool === filter.tool)
+    && (!filter.status || record.status === filter.status)
+    && (!filter.caller || record.caller === filter.caller)
+    && (!filter.since || time >= Date.parse(filter.since))
+    && (!filter.until || time <= Date.parse(filter.until));
+};
+
+/**
+ * Configuration for the JSONL audit backend
+ * @interface JsonlAuditLogStorageOptions
+ */
+export interface JsonlAuditLogStorageOptions {
+  /** Directory holding `audit.jsonl` and its rotated files */
+  directory: string;
+  /** Size at which `audit.jsonl` is rotated */
+  maxFileBytes: number;
+}
+
+/**
+ * JSONL backend with size-based rotation. Rotated files are named
+ * `audit-<timestamp>.jsonl` and never modified again.
+ *
+ * @class JsonlAuditLogStorage
+ */
+export class JsonlAuditLogStorage implements AuditLogStorageBackend {
+  readonly kind = 'jsonl' as const;
+  private readonly currentPath: string;
+  private size = 0;
+  private lastRotation = 0;
+  private initPromise: Promise<void> | null = null;
+
+  constructor(private readonly options: JsonlAuditLogStorageOptions) {
+    this.currentPath = path.join(options.directory, CURRENT_FILE);
+  }
+
+  initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.open().catch((err) => {
+        this.initPromise = null;
+        throw err;
+      });
+    }
+    return this.initPromise;
+  }
+
+  async append(record: AuditRecord): Promise<void> {
+    await this.initialize();
+    const line = `${JSON.stringify(record)}\n`;
+    const bytes = Buffer.byteLength(line);
+
+    if (this.size > 0 && this.size + bytes > this.options.maxFileBytes) {
+      await this.rotate();
+    }
+    await fs.appendFile(this.currentPath, line, { encoding: 'utf8', mode: 0o600 });
+    this.size += bytes;
+  }
+
+  async query(filter: AuditQuery): Promise<AuditRecord[]> {
+    await this.initialize();
+    const files = (await fs.readdir(this.options.directory))
+      .filter(name => /^audit-.+\.jsonl$/.test(name))
+      .sort()
+      .reverse();
+
+    const matches: AuditRecord[] = [];
+    for (const name of [CURRENT_FILE, ...files]) {
+      const filePath = path.join(this.options.directory, name);
+      if (filter.since && name !== CURRENT_FILE && (await fs.stat(filePath)).mtimeMs < Date.parse(filter.since)) {
+        break;
+      }
+
+      const lines = (await this.readLines(filePath)).reverse();
+      for (const line of lines) {
+        const record = JSON.parse(line) as AuditRecord;
+        if (!matchesAuditQuery(record, filter)) continue;
+        matches.push(record);
+        if (matches.length >= filter.limit) return matches;
+      }
+    }
+    return matches;
+  }
+
+  async close(): Promise<void> {
+    this.initPromise = null;
+  }
+
+  /**
+   * Create the directory and pick up the size of an existing `audit.jsonl`
+   * @private
+   */
+  private async open(): Promise<void> {
+    await fs.mkdir(this.options.directory, { recursive: true });
+    this.size = await fs.stat(this.currentPath).then(stats => stats.size, () => 0);
+    logger.debug("JSONL audit log storage initialized", { directory: this.options.directory, size: this.size });
+  }
+
+  /**
+   * Move `audit.jsonl` aside under a timestamped name
+   * @private
+   */
+  private async rotate(): Promise<void> {
+    // Names must stay unique and in order even when rotations land in the same millisecond
+    this.lastRotation = Math.max(Date.now(), this.lastRotation + 1);
+    const rotatedPath = path.join(this.options.directory, `audit-${new Date(this.lastRotation).toISOString().replace(/[:.]/g, '-')}.jsonl`);
+    await fs.rename(this.currentPath, rotatedPath);
+    this.size = 0;
+    logger.info("Rotated audit log", { rotatedPath });
+  }
+
+  /**
+   * Non-empty lines of a log file; a missing file has none
+   * @private
+   */
+  private async readLines(filePath: string): Promise<string[]> {
+    const content = await fs.readFile(filePath, 'utf8').catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') return '';
+      throw error;
+    });
+    return content.split('\n').filter(line => line.length > 0);
+  }
+}
+
+/**
+ * Configuration for the LibSQL audit backend
+ * @interface LibSQLAuditLogStorageOptions
+ */
+export interface LibSQLAuditLogStorageOptions {
+  /** LibSQL/Turso URL (e.g. `file:./.voltagent/audit-log.db`) */
+  url: string;
+  /** Optional auth token for remote Turso databases */
+  authToken?: string;
+  /** Prefix for the audit table (default: `audit`) */
+  tablePrefix?: string;
+}
+
+/**
+ * LibSQL/SQLite backend. Records are only ever inserted.
+ *
+ * @class LibSQLAuditLogStorage
+ */
+export class LibSQLAuditLogStorage implements AuditLogStorageBackend {
+  readonly kind = 'libsql' as const;
+  private readonly client: Client;
+  private readonly table: string;
+  private initPromise: Promise<void> | null = null;
+
+  constructor(options: LibSQLAuditLogStorageOptions) {
+    const tablePrefix = options.tablePrefix ?? 'audit';
+    if (!/^\w+$/.test(tablePrefix)) {
+      throw new Error(`Invalid table prefix for LibSQLAuditLogStorage: ${tablePrefix}`);
+    }
+
+    this.client = createClient({ url: options.url, authToken: options.authToken });
+    this.table = `${tablePrefix}_records`;
+  }
+
+  initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.createSchema().catch((err) => {
+        this.initPromise = null;
+        throw err;
+      });
+    }
+    return this.initPromise;
+  }
+
+  async append(record: AuditRecord): Promise<void> {
+    await this.initialize();
+    await this.client.execute({
+      sql: `INSERT INTO ${this.table}
+              (id, timestamp, session_id, workflow_id, delegation_id, agent, tool, status, caller, record)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        record.id,
+        Date.parse(record.timestamp),
+        record.sessionId ?? null,
+        record.workflowId ?? null,
+        record.delegationId ?? null,
+        record.agent,
+        record.tool,
+        record.status,
+        record.caller ?? null,
+        JSON.stringify(record),
+      ],
+    });
+  }
+
+  async query(filter: AuditQuery): Promise<AuditRecord[]> {
+    await this.initialize();
+    const clauses: string[] = [];
+    const args: InValue[] = [];
+    const columns: Array<[keyof AuditQuery, string]> = [
+      ['sessionId', 'session_id'],
+      ['workflowId', 'workflow_id'],
+      ['delegationId', 'delegation_id'],
+      ['agent', 'agent'],
+      ['tool', 'tool'],
+      ['status', 'status'],
+      ['caller', 'caller'],
+    ];
+
+    for (const [key, column] of columns) {
+      const value = filter[key];
+      if (value !== undefined) { clauses.push(`${column} = ?`); args.push(value); }
+    }
+    if (filter.since) { clauses.push('timestamp >= ?'); args.push(Date.parse(filter.since)); }
+    if (filter.until) { clauses.push('timestamp <= ?'); args.push(Date.parse(filter.until)); }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    args.push(filter.limit);
+
+    const result = await this.client.execute({
+      sql: `SELECT record FROM ${this.table} ${where} ORDER BY timestamp DESC, rowid DESC LIMIT ?`,
+      args,
+    });
+    return result.rows.map(row => this.rowToRecord(row));
+  }
+
+  async close(): Promise<void> {
+    this.client.close();
+  }
+
+  /**
+   * Create the audit table and its filter indexes
+   * @private
+   */
+  private async createSchema(): Promise<void> {
+    await this.client.batch([
+      `CREATE TABLE IF NOT EXISTS ${this.table} (
+        id TEXT PRIMARY KEY,
+        timestamp INTEGER NOT NULL,
+        session_id TEXT,
+        workflow_id TEXT,
+        delegation_id TEXT,
+        agent TEXT NOT NULL,
+        tool TEXT NOT NULL,
+        status TEXT NOT NULL,
+        caller TEXT,
+        record TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS ${this.table}_timestamp_idx ON ${this.table} (timestamp)`,
+      `CREATE INDEX IF NOT EXISTS ${this.table}_session_id_idx ON ${this.table} (session_id)`,
+      `CREATE INDEX IF NOT EXISTS ${this.table}_workflow_id_idx ON ${this.table} (workflow_id)`,
+      `CREATE INDEX IF NOT EXISTS ${this.table}_agent_tool_idx ON ${this.table} (agent, tool)`,
+    ], 'write');
+
+    logger.debug("LibSQL audit log storage initialized", { table: this.table });
+  }
+
+  /**
+   * Convert a database row back into an AuditRecord
+   * @private
+   */
+  private rowToRecord(row: Row): AuditRecord {
+    return JSON.parse(String(row.record)) as AuditRecord;
+  }
+}
+
+/**
+ * Storage backend selection for the audit log
+ */
+export type AuditLogStorageConfig =
+  | ({ backend: 'jsonl' } & JsonlAuditLogStorageOptions)
+  | ({ backend: 'libsql' } & LibSQLAuditLogStorageOptions);
+
+/**
+ * Create an audit log storage backend from configuration
+ * @param config - Backend selection and options
+ * @returns Configured storage backend
+ */
+export const createAuditLogStorage = (config: AuditLogStorageConfig): AuditLogStorageBackend => {
+  switch (config.backend) {
+    case 'libsql':
+      return new LibSQLAuditLogStorage(config);
+    case 'jsonl':
+    default:
+      return new JsonlAuditLogStorage(config);
+  }
+};
@@ -0,0 +1,263 @@
+/**
+ * @fileoverview BM25 Inverted Index
+ *
+ * In-memory inverted index with Okapi BM25 scoring for keyword retrieval over
+ * supervisor contexts. Text is tokenized, stop words are dropped and tokens are
+ * reduced with a light suffix-stripping stemmer. Each field (content, source, tags)
+ * keeps its own postings and length statistics and contributes a boosted BM25 score.
+ * Documents can be added, replaced and removed incrementally.
+ *
+ * @module Bm25Index
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+/**
+ * Fields indexed for every document
+ */
+export type Bm25Field = 'content' | 'source' | 'tags';
+
+/**
+ * Text of a document, split by field
+ * @interface Bm25Document
+ */
+export interface Bm25Document {
+  content: string;
+  source?: string;
+  tags?: string[];
+}
+
+/**
+ * BM25 tuning parameters
+ * @interface Bm25Options
+ */
+export interface Bm25Options {
+  /** Term frequency saturation (default: 1.2) */
+  k1?: number;
+  /** Document length normalization, 0 to 1 (default: 0.75) */
+  b?: number;
+  /** Score multiplier per field (default: content 1, source 2, tags 1.5) */
+  fieldBoosts?: Partial<Record<Bm25Field, number>>;
+}
+
+const FIELDS: readonly Bm25Field[] = ['content', 'source', 'tags'];
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'few', 'for', 'from', 'further',
+  'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'me', 'more', 'most', 'my', 'myself',
+  'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'ours', 'ourselves',
+  'out', 'over', 'own', 'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their',
+  'theirs', 'them', 'themselves', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too',
+  'under', 'until', 'up', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who',
+  'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'yours', 'yourself', 'yourselves',
+]);
+
+/** Suffix replacements tried in order; the first match wins */
+const SUFFIX_RULES: ReadonlyArray<[string, string]> = [
+  ['ational', 'ate'], ['ization', 'ize'], ['fulness', 'ful'], ['iveness', 'ive'], ['ousness', 'ous'],
+  ['ations', 'ate'], ['ation', 'ate'], ['nesses', ''], ['ness', ''], ['ments', ''], ['ment', ''],
+  ['ingly', ''], ['edly', ''], ['ings', ''], ['ing', ''], ['ies', 'y'], ['ied', 'y'],
+  ['ers', ''], ['er', ''], ['ed', ''], ['ly', ''], ['s', ''],
+];
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Reduce a word to an approximate stem so inflected forms match
+ * (e.g. "updates", "updated" and "updating" all become "updat")
+ * @param word - Lowercased word
+ * @returns Stemmed word
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let result = word;
+  for (const [suffix, replacement] of SUFFIX_RULES) {
+    if (!result.endsWith(suffix)) continue;
+    const candidate = result.slice(0, -suffix.length) + replacement;
+    // Keep short stems and "ss" endings intact (e.g. "class", "bus")
+    if (candidate.length >= 3 && !(suffix === 's' && /[su]s$/.test(result))) {
+      result = candidate;
+    }
+    break;
+  }
+
+  if (result.length > 3 && result.endsWith('e')) {
+    result = result.slice(0, -1);
+  }
+  // Undouble trailing consonants left by -ing/-ed ("running" -> "run"), except l, s and z
+  if (/([^aeiouylsz])\1$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+  return result;
+};
+
+/**
+ * Split text into stemmed, lowercased tokens with stop words removed
+ * @param text - Text to tokenize
+ * @returns Tokens in order of appearance
+ */
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const [word] of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+    if (!STOP_WORDS.has(word)) tokens.push(stem(word));
+  }
+  return tokens;
+};
+
+/** Per-field postings and length statistics */
+type FieldIndex = {
+  postings: Map<string, Map<string, number>>;
+  lengths: Map<string, number>;
+  totalLength: number;
+};
+
+/**
+ * Inverted index with incremental updates and BM25 ranking
+ *
+ * @class Bm25Index
+ */
+export class Bm25Index {
+  private readonly k1: number;
+  private readonly b: number;
+  private readonly fieldBoosts: Record<Bm25Field, number>;
+  private readonly fields: Record<Bm25Field, FieldIndex>;
+  /** Terms per document and field, kept so removals touch only affected postings */
+  private readonly documentTerms = new Map<string, Record<Bm25Field, Map<string, number>>>();
+
+  /**
+   * @param options - BM25 tuning parameters and field boosts
+   */
+  constructor(options: Bm25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+    this.fieldBoosts = { content: 1, source: 2, tags: 1.5, ...options.fieldBoosts };
+    this.fields = {
+      content: { postings: new Map(), lengths: new Map(), totalLength: 0 },
+      source: { postings: new Map(), lengths: new Map(), totalLength: 0 },
+      tags: { postings: new Map(), lengths: new Map(), totalLength: 0 },
+    };
+  }
+
+  /**
+   * Number of indexed documents
+   */
+  get size(): number {
+    return this.documentTerms.size;
+  }
+
+  /**
+   * Check whether a document is indexed
+   * @param id - Document id
+   */
+  has(id: string): boolean {
+    return this.documentTerms.has(id);
+  }
+
+  /**
+   * Index a document, replacing any previous version with the same id
+   * @param id - Document id
+   * @param doc - Document text by field
+   */
+  add(id: string, doc: Bm25Document): void {
+    this.remove(id);
+
+    const text: Record<Bm25Field, string> = {
+      content: doc.content,
+      source: doc.source ?? '',
+      tags: (doc.tags ?? []).join(' '),
+    };
+    const terms = {} as Record<Bm25Field, Map<string, number>>;
+
+    for (const field of FIELDS) {
+      const tokens = tokenize(text[field]);
+      const frequencies = new Map<string, number>();
+      tokens.forEach(token => frequencies.set(token, (frequencies.get(token) ?? 0) + 1));
+
+      const index = this.fields[field];
+      for (const [term, tf] of frequencies) {
+        let posting = index.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          index.postings.set(term, posting);
+        }
+        posting.set(id, tf);
+      }
+      index.lengths.set(id, tokens.length);
+      index.totalLength += tokens.length;
+      terms[field] = frequencies;
+    }
+
+    this.documentTerms.set(id, terms);
+  }
+
+  /**
+   * Remove a document from the index
+   * @param id - Document id
+   * @returns True if the document was indexed
+   */
+  remove(id: string): boolean {
+    const terms = this.documentTerms.get(id);
+    if (!terms) return false;
+
+    for (const field of FIELDS) {
+      const index = this.fields[field];
+      for (const term of terms[field].keys()) {
+        const posting = index.postings.get(term);
+        posting?.delete(id);
+        if (posting?.size === 0) index.postings.delete(term);
+      }
+      index.totalLength -= index.lengths.get(id) ?? 0;
+      index.lengths.delete(id);
+    }
+
+    this.documentTerms.delete(id);
+    return true;
+  }
+
+  /**
+   * Drop every indexed document
+   */
+  clear(): void {
+    for (const id of Array.from(this.documentTerms.keys())) {
+      this.remove(id);
+    }
+  }
+
+  /**
+   * Score every document containing at least one query term
+   * @param query - Free-text query
+   * @returns BM25 score per matching document id
+   */
+  search(query: string): Map<string, number> {
+    const scores = new Map<string, number>();
+    const total = this.documentTerms.size;
+    if (total === 0) return scores;
+
+    const queryTerms = new Set(tokenize(query));
+    for (const field of FIELDS) {
+      const index = this.fields[field];
+      const boost = this.fieldBoosts[field];
+      const avgLength = index.totalLength / total || 1;
+
+      for (const term of queryTerms) {
+        const posting = index.postings.get(term);
+        if (!posting) continue;
+
+        const idf = Math.log(1 + (total - posting.size + 0.5) / (posting.size + 0.5));
+        for (const [id, tf] of posting) {
+          const length = index.lengths.get(id) ?? 0;
+          const norm = tf + this.k1 * (1 - this.b + this.b * (length / avgLength));
+          const score = boost * idf * ((tf * (this.k1 + 1)) / norm);
+          scores.set(id, (scores.get(id) ?? 0) + score);
+        }
+      }
+    }
+
+    return scores;
+  }
+}
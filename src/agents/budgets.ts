@@ -0,0 +1,289 @@
+/**
+ * @fileoverview Budgets
+ *
+ * Token, cost, wall-clock and delegation-count ceilings for a supervisor session and for each
+ * delegated task. Usage is charged from the cost ledger as model calls complete. Limits are
+ * checked before every model call and when a worker starts a delegated task. A breached
+ * budget does not throw out of the agent: the next model call is answered locally with a
+ * summary of the partial results gathered so far, which ends the task the same way a normal
+ * final answer would. A worker started after the session budget is spent refuses the task,
+ * and the supervisor receives that as the delegation's result.
+ *
+ * @module Budgets
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import type { LanguageModelV1Prompt } from 'ai';
+import { env } from '../config/environment.js';
+import { createModuleLogger } from '../config/logger.js';
+import type { CostEntry } from './costLedger.js';
+
+const logger = createModuleLogger('budgets');
+
+/**
+ * Ceilings for one scope; unset limits are unlimited
+ * @interface BudgetLimits
+ */
+export interface BudgetLimits {
+  /** Prompt, completion, cached and thinking tokens combined */
+  maxTokens?: number;
+  /** USD, as priced by the cost ledger */
+  maxCostUsd?: number;
+  /** Wall-clock time since the scope started */
+  maxDurationMs?: number;
+  /** Delegated tasks started within the scope */
+  maxDelegations?: number;
+}
+
+/**
+ * Usage counted against a scope
+ * @interface BudgetUsage
+ */
+export interface BudgetUsage {
+  tokens: number;
+  costUsd: number;
+  delegations: number;
+  startedAt: number;
+}
+
+/**
+ * A session or a delegated task with its own limits
+ * @interface BudgetScope
+ */
+export interface BudgetScope {
+  kind: 'session' | 'delegation';
+  id: string;
+  limits: BudgetLimits;
+  usage: BudgetUsage;
+}
+
+/**
+ * A limit that was reached
+ * @interface BudgetBreach
+ */
+export interface BudgetBreach {
+  scope: BudgetScope['kind'];
+  scopeId: string;
+  limit: keyof BudgetLimits;
+  value: number;
+  max: number;
+  message: string;
+  timestamp: number;
+}
+
+/**
+ * Budget state of an operation, stored in `userContext` and shared with delegated workers
+ * @interface BudgetState
+ */
+export interface BudgetState {
+  session: BudgetScope;
+  breaches: BudgetBreach[];
+}
+
+/** `userContext` key holding the operation's {@link BudgetState} */
+export const BUDGET_KEY = 'budget';
+
+/**
+ * `userContext` key holding the scope of the delegated task running in that context. Tasks
+ * fanned out in parallel each run with their own copy of the supervisor's context.
+ */
+export const DELEGATION_BUDGET_KEY = 'delegationBudget';
+
+/** Tool results quoted in the partial result */
+const PARTIAL_RESULT_ITEMS = 5;
+const PARTIAL_RESULT_ITEM_LENGTH = 600;
+
+const LIMIT_LABELS: Record<keyof BudgetLimits, string> = {
+  maxTokens: 'tokens',
+  maxCostUsd: 'cost (USD)',
+  maxDurationMs: 'time (ms)',
+  maxDelegations: 'delegations',
+};
+
+/**
+ * Limits from the SESSION_MAX_* and DELEGATION_MAX_* environment variables
+ * @param kind - Scope kind
+ */
+export const getBudgetLimits = (kind: BudgetScope['kind']): BudgetLimits =>
+  kind === 'session'
+    ? { maxTokens: env.SESSION_MAX_TOKENS, maxCostUsd: env.SESSION_MAX_COST_USD, maxDurationMs: env.SESSION_MAX_DURATION_MS, maxDelegations: env.SESSION_MAX_DELEGATIONS }
+    : { maxTokens: env.DELEGATION_MAX_TOKENS, maxCostUsd: env.DELEGATION_MAX_COST_USD, maxDurationMs: env.DELEGATION_MAX_DURATION_MS };
+
+const createScope = (kind: BudgetScope['kind'], id: string, limits: BudgetLimits): BudgetScope => ({
+  kind,
+  id,
+  limits,
+  usage: { tokens: 0, costUsd: 0, delegations: 0, startedAt: Date.now() },
+});
+
+/**
+ * Get the budget state of an operation
+ * @returns State, or undefined before a session budget was started
+ */
+export const getBudgetState = (userContext: Map<string | symbol, unknown>): BudgetState | undefined =>
+  userContext.get(BUDGET_KEY) as BudgetState | undefined;
+
+/**
+ * Start the session budget of a top-level operation, replacing any previous state
+ * @param userContext - Operation user context
+ * @param sessionId - Session id used in breach messages
+ * @param limits - Session limits (default: environment)
+ */
+export const startSessionBudget = (userContext: Map<string | symbol, unknown>, sessionId: string, limits: BudgetLimits = getBudgetLimits('session')): BudgetState => {
+  const state: BudgetState = { session: createScope('session', sessionId, limits), breaches: [] };
+  userContext.set(BUDGET_KEY, state);
+  userContext.delete(DELEGATION_BUDGET_KEY);
+  return state;
+};
+
+/**
+ * First limit of a scope that has been reached
+ */
+const findBreach = (scope: BudgetScope): BudgetBreach | undefined => {
+  const values: Record<keyof BudgetLimits, number> = {
+    maxTokens: scope.usage.tokens,
+    maxCostUsd: scope.usage.costUsd,
+    maxDurationMs: Date.now() - scope.usage.startedAt,
+    maxDelegations: scope.usage.delegations,
+  };
+  for (const limit of Object.keys(LIMIT_LABELS) as Array<keyof BudgetLimits>) {
+    const max = scope.limits[limit];
+    // The delegation count is checked before a new delegation is counted, so reaching it is allowed
+    const reached = limit === 'maxDelegations' ? values[limit] > (max ?? Infinity) : values[limit] >= (max ?? Infinity);
+    if (max !== undefined && reached) {
+      const value = Number(values[limit].toFixed(6));
+      return {
+        scope: scope.kind,
+        scopeId: scope.id,
+        limit,
+        value,
+        max,
+        message: `${scope.kind === 'session' ? 'Session' : 'Delegated task'} budget exceeded: ${LIMIT_LABELS[limit]} ${value} of ${max}`,
+        timestamp: Date.now(),
+      };
+    }
+  }
+  return undefined;
+};
+
+const recordBreach = (state: BudgetState, breach: BudgetBreach): BudgetBreach => {
+  const known = state.breaches.find(b => b.scopeId === breach.scopeId && b.limit === breach.limit);
+  if (known) return known;
+  state.breaches.push(breach);
+  logger.warn("[Budget] Limit reached", { ...breach });
+  return breach;
+};
+
+const getDelegationScope = (userContext: Map<string | symbol, unknown>): BudgetScope | undefined =>
+  userContext.get(DELEGATION_BUDGET_KEY) as BudgetScope | undefined;
+
+/**
+ * Check the limits that apply to the next model call in a context: the session's, and the
+ * delegation's when the context runs a delegated task
+ * @param userContext - Operation user context
+ * @returns The breach, or undefined when the call may proceed
+ */
+export const checkBudget = (userContext: Map<string | symbol, unknown>): BudgetBreach | undefined => {
+  const state = getBudgetState(userContext);
+  if (!state) return undefined;
+  const delegation = getDelegationScope(userContext);
+  const breach = findBreach(state.session) ?? (delegation && findBreach(delegation));
+  return breach && recordBreach(state, breach);
+};
+
+/**
+ * Open a delegation scope for a worker starting a delegated task
+ * @param userContext - Worker's user context, shared with or copied from the supervisor's
+ * @param delegationId - Delegation id used in breach messages
+ * @param limits - Delegation limits (default: environment)
+ * @throws Error if the session budget is spent or the delegation count limit is reached
+ */
+export const startDelegationBudget = (
+  userContext: Map<string | symbol, unknown>,
+  delegationId: string,
+  limits: BudgetLimits = getBudgetLimits('delegation')
+): BudgetScope | undefined => {
+  const state = getBudgetState(userContext);
+  if (!state) return undefined;
+
+  state.session.usage.delegations++;
+  const breach = findBreach(state.session);
+  if (breach) {
+    recordBreach(state, breach);
+    throw new Error(`${breach.message}. Task not started; finish with the results gathered so far.`);
+  }
+
+  const scope = createScope('delegation', delegationId, limits);
+  userContext.set(DELEGATION_BUDGET_KEY, scope);
+  return scope;
+};
+
+/**
+ * Close the delegation scope of a context
+ * @returns The closed scope with its final usage
+ */
+export const endDelegationBudget = (userContext: Map<string | symbol, unknown>): BudgetScope | undefined => {
+  const scope = getDelegationScope(userContext);
+  userContext.delete(DELEGATION_BUDGET_KEY);
+  return scope;
+};
+
+/**
+ * Charge a priced model call to the session and to the context's delegation scope
+ * @param userContext - User context of the agent that made the call
+ * @param entry - Ledger entry of the call
+ */
+export const chargeBudget = (userContext: Map<string | symbol, unknown>, entry: CostEntry): void => {
+  const state = getBudgetState(userContext);
+  if (!state) return;
+  const tokens = Object.values(entry.usage).reduce((sum, value) => sum + value, 0);
+  for (const scope of [state.session, getDelegationScope(userContext)]) {
+    if (!scope) continue;
+    scope.usage.tokens += tokens;
+    scope.usage.costUsd += entry.cost;
+  }
+};
+
+/**
+ * Text returned in place of a model answer once a budget is spent. Quotes the most recent
+ * tool results and assistant text from the conversation so the caller keeps the work done.
+ * @param breach - The limit that was reached
+ * @param prompt - Prompt of the model call that was not made
+ */
+export const buildBudgetStopMessage = (breach: BudgetBreach, prompt: LanguageModelV1Prompt = []): string => {
+  const items: string[] = [];
+  for (const message of [...prompt].reverse()) {
+    if (items.length >= PARTIAL_RESULT_ITEMS) break;
+    if (message.role === 'tool') {
+      for (const part of message.content) {
+        const result = typeof part.result === 'string' ? part.result : JSON.stringify(part.result);
+        items.push(`- ${part.toolName}: ${result.slice(0, PARTIAL_RESULT_ITEM_LENGTH)}`);
+      }
+    } else if (message.role === 'assistant') {
+      const text = message.content.filter(part => part.type === 'text').map(part => part.text).join('').trim();
+      if (text) items.push(`- ${text.slice(0, PARTIAL_RESULT_ITEM_LENGTH)}`);
+    }
+  }
+
+  const partial = items.length > 0 ? `Partial results gathered so far:\n${items.reverse().join('\n')}` : 'No partial results were gathered.';
+  return `${breach.message}. Stopping this task early.\n\n${partial}`;
+};
+
+/**
+ * Compact budget summary for hook logs
+ */
+export const summarizeBudget = (userContext: Map<string | symbol, unknown>) => {
+  const state = getBudgetState(userContext);
+  if (!state) return undefined;
+  const { usage, limits } = state.session;
+  return {
+    tokens: usage.tokens,
+    costUsd: Number(usage.costUsd.toFixed(6)),
+    delegations: usage.delegations,
+    durationMs: Date.now() - usage.startedAt,
+    limits,
+    breaches: state.breaches.map(breach => breach.message),
+  };
+};
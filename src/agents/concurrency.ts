@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Concurrency Helpers
+ *
+ * Bounded-concurrency mapping shared by the modules that fan work out to models or
+ * workers, such as the delegation fan-out and the map-reduce document summarizer.
+ *
+ * @module Concurrency
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+/**
+ * Map items through an async function with at most `limit` calls in flight, keeping input order
+ * @param items - Items to process
+ * @param limit - Maximum concurrent calls
+ * @param fn - Called once per item
+ * @returns Results in input order
+ * @throws The first error thrown by `fn`
+ */
+export const mapWithConcurrency = async <T, R>(items: readonly T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  });
+  await Promise.all(lanes);
+  return results;
+};
@@ -0,0 +1,418 @@
+/**
+ * @fileoverview Cost Ledger
+ *
+ * Prices every model call by provider and model, including cached-input, cache-write and
+ * thinking-token rates, and keeps the results in an in-memory ledger. Each entry is attributed
+ * to the agent that made the call and to the supervisor session, workflow and delegation it
+ * ran under, so spend can be split between the supervisor and each worker. The ledger is
+ * exposed through the `get_cost_report` tool and the `GET /costs` endpoint.
+ *
+ * @module CostLedger
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import type { CustomEndpointDefinition } from '@voltagent/core';
+import { z } from 'zod';
+import { createModuleLogger } from '../config/logger.js';
+import type { ModelProviderName, ModelSpec } from './modelRegistry.js';
+
+const logger = createModuleLogger('costLedger');
+
+/**
+ * Prices in USD per million tokens
+ * @interface ModelPricing
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Cache hits (default: input) */
+  cachedInput?: number;
+  /** Tokens written to a prompt cache (default: input) */
+  cacheWrite?: number;
+  /** Thinking tokens (default: output) */
+  reasoning?: number;
+}
+
+/**
+ * Prices per provider, keyed by model id prefix; the longest matching prefix wins.
+ * Ollama models run locally and are free.
+ */
+export const MODEL_PRICING: Record<ModelProviderName, Record<string, ModelPricing>> = {
+  google: {
+    'gemini-2.5-pro': { input: 1.25, output: 10, cachedInput: 0.31 },
+    'gemini-2.5-flash': { input: 0.15, output: 0.6, cachedInput: 0.0375, reasoning: 3.5 },
+    'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+    'gemini-1.5-pro': { input: 1.25, output: 5, cachedInput: 0.3125 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3, cachedInput: 0.01875 },
+  },
+  openai: {
+    'gpt-4.1-nano': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6, cachedInput: 0.1 },
+    'gpt-4.1': { input: 2, output: 8, cachedInput: 0.5 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+    'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25 },
+    'o4-mini': { input: 1.1, output: 4.4, cachedInput: 0.275 },
+    'o3-mini': { input: 1.1, output: 4.4, cachedInput: 0.55 },
+    'o3': { input: 2, output: 8, cachedInput: 0.5 },
+    'o1': { input: 15, output: 60, cachedInput: 7.5 },
+  },
+  anthropic: {
+    'claude-opus-4': { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75 },
+    'claude-sonnet-4': { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+    'claude-3-7-sonnet': { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+    'claude-3-5-sonnet': { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+    'claude-3-5-haiku': { input: 0.8, output: 4, cachedInput: 0.08, cacheWrite: 1 },
+    'claude-3-haiku': { input: 0.25, output: 1.25, cachedInput: 0.03, cacheWrite: 0.3 },
+  },
+  ollama: {
+    '': { input: 0, output: 0 },
+  },
+};
+
+/**
+ * Token counts split by billing rate. Each count is exclusive: `inputTokens` excludes cached
+ * tokens and `outputTokens` excludes thinking tokens.
+ * @interface TokenUsage
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  cachedInputTokens: number;
+  cacheWriteTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+}
+
+/**
+ * Usage reported by a single model call, as returned by `LanguageModelV1`
+ * @interface ModelCallUsage
+ */
+export interface ModelCallUsage {
+  promptTokens: number;
+  completionTokens: number;
+  providerMetadata?: Record<string, Record<string, unknown>>;
+  /** Raw response body, for providers that only report cache and thinking tokens there */
+  rawBody?: unknown;
+}
+
+/**
+ * A priced model call
+ * @interface CostEntry
+ */
+export interface CostEntry {
+  timestamp: number;
+  /** Agent that made the call, e.g. `supervisor` or a worker id */
+  agentId: string;
+  /** Model that answered, `provider:modelId` */
+  model: string;
+  sessionId?: string;
+  workflowId?: string;
+  delegationId?: string;
+  usage: TokenUsage;
+  /** USD */
+  cost: number;
+  /** False when the model has no pricing entry; `cost` is then 0 */
+  priced: boolean;
+}
+
+/**
+ * Session, workflow and delegation that model calls are attributed to
+ * @interface CostAttribution
+ */
+export interface CostAttribution {
+  sessionId?: string;
+  workflowId?: string;
+  delegationId?: string;
+}
+
+/** `userContext` key holding the current {@link CostAttribution} */
+export const COST_ATTRIBUTION_KEY = 'costAttribution';
+
+/** `userContext` key holding the attributions of delegated tasks in progress, by agent id */
+export const DELEGATION_ATTRIBUTIONS_KEY = 'delegationAttributions';
+
+/** Dimensions a cost report can be grouped by */
+export const COST_GROUP_BY = ['agent', 'model', 'session', 'workflow', 'delegation'] as const;
+export type CostGroupBy = (typeof COST_GROUP_BY)[number];
+
+/**
+ * Filters and grouping for a cost report
+ */
+export const costQuerySchema = z.object({
+  sessionId: z.string().optional().describe("Only calls from this supervisor session"),
+  workflowId: z.string().optional().describe("Only calls from this workflow"),
+  delegationId: z.string().optional().describe("Only calls made while handling this delegation"),
+  agentId: z.string().optional().describe("Only calls made by this agent, e.g. 'supervisor' or a worker id"),
+  model: z.string().optional().describe("Only calls answered by this model, e.g. 'google:gemini-2.0-flash'"),
+  since: z.string().datetime().optional().describe("Only calls at or after this ISO timestamp"),
+  groupBy: z.enum(COST_GROUP_BY).default('agent').describe("Dimension to break the total down by"),
+});
+
+export type CostQuery = z.input<typeof costQuerySchema>;
+
+/**
+ * Totals for a set of ledger entries
+ * @interface CostSummary
+ */
+export interface CostSummary {
+  calls: number;
+  /** Calls to models without pricing, not included in `cost` */
+  unpricedCalls: number;
+  usage: TokenUsage;
+  /** USD */
+  cost: number;
+}
+
+/**
+ * Result of a ledger query
+ * @interface CostReport
+ */
+export interface CostReport {
+  filters: Omit<z.output<typeof costQuerySchema>, 'groupBy'>;
+  groupBy: CostGroupBy;
+  total: CostSummary;
+  groups: Array<CostSummary & { key: string }>;
+}
+
+const emptyUsage = (): TokenUsage => ({ inputTokens: 0, cachedInputTokens: 0, cacheWriteTokens: 0, outputTokens: 0, reasoningTokens: 0 });
+
+const count = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0);
+
+/**
+ * Find the pricing for a model
+ * @param spec - Provider and model id
+ * @returns Pricing of the longest matching model id prefix, or undefined for unknown models
+ */
+export const findModelPricing = (spec: ModelSpec): ModelPricing | undefined => {
+  let match: [string, ModelPricing] | undefined;
+  for (const entry of Object.entries(MODEL_PRICING[spec.provider] ?? {})) {
+    if (spec.modelId.startsWith(entry[0]) && (!match || entry[0].length > match[0].length)) match = entry;
+  }
+  return match?.[1];
+};
+
+/**
+ * Split a call's token counts by billing rate
+ * @param provider - Provider that answered
+ * @param usage - Usage reported by the model call
+ * @returns Exclusive token counts
+ */
+export const normalizeTokenUsage = (provider: ModelProviderName, usage: ModelCallUsage): TokenUsage => {
+  const prompt = count(usage.promptTokens);
+  const completion = count(usage.completionTokens);
+
+  switch (provider) {
+    case 'google': {
+      // Cache and thinking counts are only in the raw usage metadata. Cached tokens are part of
+      // promptTokenCount; thinking tokens are not part of candidatesTokenCount
+      const metadata = (usage.providerMetadata?.google?.usageMetadata ?? (usage.rawBody as any)?.usageMetadata) as Record<string, unknown> | undefined;
+      const cached = Math.min(count(metadata?.cachedContentTokenCount), prompt);
+      return { inputTokens: prompt - cached, cachedInputTokens: cached, cacheWriteTokens: 0, outputTokens: completion, reasoningTokens: count(metadata?.thoughtsTokenCount) };
+    }
+    case 'openai':
+    case 'ollama': {
+      // Cached prompt tokens and reasoning tokens are included in the prompt and completion counts
+      const metadata = usage.providerMetadata?.openai;
+      const cached = Math.min(count(metadata?.cachedPromptTokens), prompt);
+      const reasoning = Math.min(count(metadata?.reasoningTokens), completion);
+      return { inputTokens: prompt - cached, cachedInputTokens: cached, cacheWriteTokens: 0, outputTokens: completion - reasoning, reasoningTokens: reasoning };
+    }
+    case 'anthropic': {
+      // Cache reads and writes are reported separately from input_tokens
+      const metadata = usage.providerMetadata?.anthropic;
+      return { inputTokens: prompt, cachedInputTokens: count(metadata?.cacheReadInputTokens), cacheWriteTokens: count(metadata?.cacheCreationInputTokens), outputTokens: completion, reasoningTokens: 0 };
+    }
+  }
+};
+
+/**
+ * Price token usage
+ * @returns USD
+ */
+export const calculateCost = (pricing: ModelPricing, usage: TokenUsage): number =>
+  (usage.inputTokens * pricing.input +
+    usage.cachedInputTokens * (pricing.cachedInput ?? pricing.input) +
+    usage.cacheWriteTokens * (pricing.cacheWrite ?? pricing.input) +
+    usage.outputTokens * pricing.output +
+    usage.reasoningTokens * (pricing.reasoning ?? pricing.output)) / 1_000_000;
+
+const addUsage = (target: TokenUsage, usage: TokenUsage): void => {
+  for (const key of Object.keys(target) as Array<keyof TokenUsage>) target[key] += usage[key];
+};
+
+const summarize = (entries: CostEntry[]): CostSummary => {
+  const summary: CostSummary = { calls: 0, unpricedCalls: 0, usage: emptyUsage(), cost: 0 };
+  for (const entry of entries) {
+    summary.calls++;
+    if (!entry.priced) summary.unpricedCalls++;
+    addUsage(summary.usage, entry.usage);
+    summary.cost += entry.cost;
+  }
+  summary.cost = Number(summary.cost.toFixed(6));
+  return summary;
+};
+
+const GROUP_KEYS: Record<CostGroupBy, (entry: CostEntry) => string | undefined> = {
+  agent: entry => entry.agentId,
+  model: entry => entry.model,
+  session: entry => entry.sessionId,
+  workflow: entry => entry.workflowId,
+  delegation: entry => entry.delegationId,
+};
+
+/**
+ * In-memory ledger of priced model calls. The oldest entries are dropped beyond `maxEntries`.
+ */
+export class CostLedger {
+  private readonly entries: CostEntry[] = [];
+  private readonly unpricedModels = new Set<string>();
+
+  constructor(private readonly maxEntries = 50_000) {}
+
+  /**
+   * Price and record a model call
+   * @param agentId - Agent that made the call
+   * @param spec - Model that answered
+   * @param usage - Usage reported by the call
+   * @param attribution - Session, workflow and delegation the call ran under
+   * @returns The recorded entry
+   */
+  record(agentId: string, spec: ModelSpec, usage: ModelCallUsage, attribution: CostAttribution = {}): CostEntry {
+    const model = `${spec.provider}:${spec.modelId}`;
+    const tokens = normalizeTokenUsage(spec.provider, usage);
+    const pricing = findModelPricing(spec);
+    if (!pricing && !this.unpricedModels.has(model)) {
+      this.unpricedModels.add(model);
+      logger.warn("No pricing for model, its calls are recorded without cost", { model });
+    }
+
+    const entry: CostEntry = {
+      timestamp: Date.now(),
+      agentId,
+      model,
+      ...attribution,
+      usage: tokens,
+      cost: pricing ? calculateCost(pricing, tokens) : 0,
+      priced: pricing !== undefined,
+    };
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) this.entries.splice(0, this.entries.length - this.maxEntries);
+    return entry;
+  }
+
+  /**
+   * Total and break down recorded costs
+   * @param query - Filters and grouping
+   * @returns Report with groups sorted by cost, highest first
+   * @throws ZodError if the query is invalid
+   */
+  query(query: CostQuery = {}): CostReport {
+    const { groupBy, ...filters } = costQuerySchema.parse(query);
+    const since = filters.since ? Date.parse(filters.since) : undefined;
+    const matching = this.entries.filter(entry =>
+      (!filters.sessionId || entry.sessionId === filters.sessionId) &&
+      (!filters.workflowId || entry.workflowId === filters.workflowId) &&
+      (!filters.delegationId || entry.delegationId === filters.delegationId) &&
+      (!filters.agentId || entry.agentId === filters.agentId) &&
+      (!filters.model || entry.model === filters.model) &&
+      (since === undefined || entry.timestamp >= since)
+    );
+
+    const grouped = new Map<string, CostEntry[]>();
+    for (const entry of matching) {
+      const key = GROUP_KEYS[groupBy](entry) ?? '(none)';
+      const group = grouped.get(key);
+      if (group) group.push(entry);
+      else grouped.set(key, [entry]);
+    }
+
+    return {
+      filters,
+      groupBy,
+      total: summarize(matching),
+      groups: Array.from(grouped, ([key, entries]) => ({ key, ...summarize(entries) })).sort((a, b) => b.cost - a.cost),
+    };
+  }
+
+  /** Number of recorded calls */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  clear(): void {
+    this.entries.length = 0;
+  }
+}
+
+/** Process-wide ledger shared by all agents, the cost tool and the HTTP endpoint */
+export const costLedger = new CostLedger();
+
+/**
+ * Attribute an agent's model calls to a delegated task. Workers started by `delegate_task` run in
+ * the supervisor's context, so each task gets its own copy of the attribution under its agent id.
+ * @param userContext - Shared user context holding the session's {@link CostAttribution}
+ * @param agentId - Agent running the task
+ * @param delegationId - Delegation the task's calls are charged to
+ * @returns The task's attribution
+ */
+export const startDelegationAttribution = (userContext: Map<string | symbol, unknown>, agentId: string, delegationId: string): CostAttribution => {
+  let delegations = userContext.get(DELEGATION_ATTRIBUTIONS_KEY) as Map<string, CostAttribution> | undefined;
+  if (!delegations) {
+    delegations = new Map();
+    userContext.set(DELEGATION_ATTRIBUTIONS_KEY, delegations);
+  }
+  const attribution: CostAttribution = { ...(userContext.get(COST_ATTRIBUTION_KEY) as CostAttribution | undefined), delegationId };
+  delegations.set(agentId, attribution);
+  return attribution;
+};
+
+/**
+ * Drop a delegated task's attribution, unless a later task of the same agent replaced it
+ * @param userContext - Shared user context
+ * @param agentId - Agent that ran the task
+ * @param attribution - Attribution returned by {@link startDelegationAttribution}
+ */
+export const endDelegationAttribution = (userContext: Map<string | symbol, unknown>, agentId: string, attribution: CostAttribution): void => {
+  const delegations = userContext.get(DELEGATION_ATTRIBUTIONS_KEY) as Map<string, CostAttribution> | undefined;
+  if (delegations?.get(agentId) === attribution) delegations.delete(agentId);
+};
+
+/**
+ * Attribution of an agent's model calls: its delegated task's own copy, otherwise the context's
+ * @param agentId - Agent making the calls
+ * @param userContext - Operation user context
+ */
+export const resolveCostAttribution = (agentId: string, userContext?: Map<string | symbol, unknown>): CostAttribution | undefined => {
+  const delegations = userContext?.get(DELEGATION_ATTRIBUTIONS_KEY) as Map<string, CostAttribution> | undefined;
+  return delegations?.get(agentId) ?? (userContext?.get(COST_ATTRIBUTION_KEY) as CostAttribution | undefined);
+};
+
+/**
+ * Record a model call made on behalf of an operation
+ * @param agentId - Agent that made the call
+ * @param spec - Model that answered
+ * @param usage - Usage reported by the call
+ * @param userContext - Operation user context holding the {@link CostAttribution}
+ */
+export const recordModelUsage = (agentId: string, spec: ModelSpec, usage: ModelCallUsage, userContext?: Map<string | symbol, unknown>): CostEntry =>
+  costLedger.record(agentId, spec, usage, resolveCostAttribution(agentId, userContext));
+
+/**
+ * HTTP endpoints for the ledger. `GET /costs` accepts the {@link costQuerySchema} fields as query parameters.
+ */
+export const costEndpoints: CustomEndpointDefinition[] = [
+  {
+    path: '/costs',
+    method: 'get',
+    description: 'Model spend by agent, model, session, workflow or delegation',
+    handler: c => {
+      const query = costQuerySchema.safeParse(c.req.query());
+      if (!query.success) {
+        return c.json({ success: false, error: query.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`) }, 400);
+      }
+      return c.json({ success: true, data: costLedger.query(query.data) });
+    },
+  },
+];
@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Delegation Fan-Out
+ *
+ * Supervisor tool that sends independent subtasks to several workers at once instead of one
+ * `delegate_task` round-trip per worker. Subtasks run concurrently up to a cap, each in its own
+ * copy of the supervisor's `userContext`: per-task keys set by worker hooks stay separate, while
+ * the session's budget, cost attribution and model telemetry objects are shared. A failed
+ * subtask is reported with its error; the others still complete.
+ *
+ * @module DelegationFanOut
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import { createTool, type Agent, type ToolExecuteOptions } from '@voltagent/core';
+import type { VercelAIProvider } from '@voltagent/vercel-ai';
+import { generateId } from 'ai';
+import { z } from 'zod';
+import { env } from '../config/environment.js';
+import { createModuleLogger } from '../config/logger.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { COST_ATTRIBUTION_KEY, type CostAttribution } from './costLedger.js';
+
+const logger = createModuleLogger('delegationFanOut');
+
+/** Most subtasks accepted in one fan-out */
+export const MAX_FAN_OUT_TASKS = 10;
+
+/** Characters of each subtask kept in the summary line */
+const SUMMARY_TASK_LENGTH = 80;
+
+export const fanOutSchema = z.object({
+  tasks: z.array(z.object({
+    agent: z.string().min(1).describe("Name of the worker agent, as listed for delegation"),
+    task: z.string().min(1).describe("Self-contained subtask; it must not depend on another subtask's result"),
+    context: z.record(z.unknown()).optional().describe("Additional context for this subtask"),
+  })).min(1).max(MAX_FAN_OUT_TASKS).describe("Independent subtasks, each for one worker"),
+  maxConcurrency: z.number().int().positive().optional().describe("Subtasks run at the same time (capped by FAN_OUT_MAX_CONCURRENCY)"),
+});
+
+export type FanOutRequest = z.infer<typeof fanOutSchema>;
+
+/**
+ * One subtask of a fan-out
+ * @interface FanOutBranch
+ */
+export interface FanOutBranch {
+  /** `<fanOutId>/task-<n>`, also used as the cost ledger delegation id */
+  id: string;
+  fanOutId: string;
+  agent: string;
+  task: string;
+}
+
+/**
+ * Outcome of one subtask; `skipped` subtasks were not started because the operation was cancelled
+ * @interface FanOutTaskResult
+ */
+export interface FanOutTaskResult {
+  id: string;
+  agent: string;
+  task: string;
+  status: 'success' | 'error' | 'skipped';
+  response?: string;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Callbacks the supervisor uses to track each subtask
+ * @interface FanOutTracker
+ */
+export interface FanOutTracker {
+  onBranchStart?: (branch: FanOutBranch, userContext: Map<string | symbol, unknown>) => void;
+  onBranchEnd?: (branch: FanOutBranch, result: FanOutTaskResult, userContext: Map<string | symbol, unknown>) => void;
+}
+
+/**
+ * Status line per subtask, in request order
+ */
+export const summarizeFanOut = (results: FanOutTaskResult[], durationMs: number): string => {
+  const succeeded = results.filter(result => result.status === 'success').length;
+  const lines = results.map(result => {
+    const task = result.task.length > SUMMARY_TASK_LENGTH ? `${result.task.slice(0, SUMMARY_TASK_LENGTH)}...` : result.task;
+    const detail = result.error ? ` (${result.error})` : '';
+    return `- [${result.id}] ${result.agent}: ${result.status}${detail}, ${result.durationMs}ms: ${task}`;
+  });
+  return `${succeeded} of ${results.length} subtasks succeeded in ${durationMs}ms\n${lines.join('\n')}`;
+};
+
+const formatTask = (sourceName: string, worker: Agent<{ llm: VercelAIProvider }>, task: string, context?: Record<string, unknown>): string =>
+  context && Object.keys(context).length > 0
+    ? `Task handed off from ${sourceName} to ${worker.name}:\n${task}\n\nContext: ${JSON.stringify(context, null, 2)}`
+    : task;
+
+/**
+ * Run one delegated task on a worker, outside `delegate_task`, in a copy of the supervisor's
+ * `userContext`. Worker hooks write per-task keys; the copy keeps concurrent tasks from
+ * overwriting each other while the session's shared objects stay shared.
+ * @param worker - Worker agent
+ * @param delegation - Delegation id (conversation id and cost ledger delegation), task and context
+ * @param parentContext - Supervisor's user context
+ * @param sourceName - Supervisor name shown to the worker
+ * @param abortController - Supervisor operation's abort controller
+ * @returns The worker's answer
+ */
+export const runDelegatedTask = async (
+  worker: Agent<{ llm: VercelAIProvider }>,
+  delegation: { id: string; task: string; context?: Record<string, unknown> },
+  parentContext: Map<string | symbol, unknown>,
+  sourceName: string,
+  abortController?: AbortController
+): Promise<string> => {
+  const userContext = new Map(parentContext);
+  const attribution = parentContext.get(COST_ATTRIBUTION_KEY) as CostAttribution | undefined;
+  if (attribution) {
+    userContext.set(COST_ATTRIBUTION_KEY, { ...attribution, delegationId: `${attribution.sessionId}/${delegation.id}` } satisfies CostAttribution);
+  }
+
+  const response = await worker.generateText(formatTask(sourceName, worker, delegation.task, delegation.context), {
+    conversationId: delegation.id,
+    userContext,
+    abortController,
+  });
+  return response.text;
+};
+
+/**
+ * Create the `fan_out_tasks` supervisor tool
+ * @param workers - Worker agents, addressed by name or id
+ * @param sourceName - Supervisor name shown to workers
+ * @param tracker - Per-subtask callbacks
+ */
+export const createFanOutTool = (workers: Agent<{ llm: VercelAIProvider }>[], sourceName: string, tracker: FanOutTracker = {}) =>
+  createTool({
+    name: "fan_out_tasks",
+    description: `Run independent subtasks on several worker agents at the same time and return every result with its status. Use this instead of delegating one worker at a time when subtasks do not depend on each other, e.g. "check git status, lint the repo and list running containers". Available agents: ${workers.map(worker => worker.name).join(', ')}.`,
+    parameters: fanOutSchema,
+    execute: async ({ tasks, maxConcurrency }: FanOutRequest, options?: ToolExecuteOptions) => {
+      const fanOutId = `fanout-${generateId()}`;
+      const startTime = Date.now();
+      const concurrency = Math.min(maxConcurrency ?? env.FAN_OUT_MAX_CONCURRENCY, env.FAN_OUT_MAX_CONCURRENCY);
+      const parentContext = options?.operationContext?.userContext ?? new Map<string | symbol, unknown>();
+      const abortController = options?.operationContext?.abortController;
+
+      logger.info("[FanOut] Dispatching subtasks", {
+        fanOutId,
+        taskCount: tasks.length,
+        concurrency,
+        agents: tasks.map(task => task.agent),
+      });
+
+      const results = await mapWithConcurrency(tasks, concurrency, async ({ agent, task, context }, index): Promise<FanOutTaskResult> => {
+        const branch: FanOutBranch = { id: `${fanOutId}/task-${index + 1}`, fanOutId, agent, task };
+        const branchStart = Date.now();
+        const worker = workers.find(candidate => candidate.name === agent || candidate.id === agent);
+
+        if (abortController?.signal.aborted) {
+          return { id: branch.id, agent, task, status: 'skipped', error: 'Operation cancelled before start', durationMs: 0 };
+        }
+        if (!worker) {
+          return { id: branch.id, agent, task, status: 'error', error: `Unknown agent. Available agents: ${workers.map(w => w.name).join(', ')}`, durationMs: 0 };
+        }
+
+        tracker.onBranchStart?.(branch, parentContext);
+
+        let result: FanOutTaskResult;
+        try {
+          const response = await runDelegatedTask(worker, { id: branch.id, task, context }, parentContext, sourceName, abortController);
+          result = { id: branch.id, agent: worker.name, task, status: 'success', response, durationMs: Date.now() - branchStart };
+        } catch (error) {
+          result = {
+            id: branch.id,
+            agent: worker.name,
+            task,
+            status: 'error',
+            error: error instanceof Error ? error.message : String(error),
+            durationMs: Date.now() - branchStart,
+          };
+          logger.warn("[FanOut] Subtask failed", { fanOutId, branchId: branch.id, agent: worker.name, error: result.error });
+        }
+        tracker.onBranchEnd?.(branch, result, parentContext);
+        return result;
+      });
+
+      const durationMs = Date.now() - startTime;
+      const summary = summarizeFanOut(results, durationMs);
+      const failed = results.filter(result => result.status !== 'success').length;
+
+      logger.info("[FanOut] Subtasks completed", {
+        fanOutId,
+        taskCount: results.length,
+        failed,
+        durationMs,
+      });
+
+      return JSON.stringify({ success: failed === 0, fanOutId, summary, results }, null, 2);
+    },
+  });
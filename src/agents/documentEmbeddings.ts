@@ -0,0 +1,273 @@
+/**
+ * @fileoverview Document Embeddings
+ *
+ * Embedding providers used by the knowledge base for semantic search.
+ * The transformers provider runs a sentence-embedding model locally through
+ * `@xenova/transformers` and can load it from a local directory for offline use.
+ * The hashing provider is a deterministic, dependency-free fallback for tests
+ * and air-gapped machines.
+ *
+ * @module DocumentEmbeddings
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import type { FeatureExtractionPipeline } from '@xenova/transformers';
+import { createModuleLogger } from '../config/logger.js';
+
+const logger = createModuleLogger('documentEmbeddings');
+
+/**
+ * Vectors produced by a single embedding call
+ * @interface EmbeddingResult
+ */
+export interface EmbeddingResult {
+  /** Identifier of the model that produced the vectors; vectors from different models are not comparable */
+  model: string;
+  /** One L2-normalized vector per input text */
+  vectors: number[][];
+}
+
+/**
+ * Turns text into dense vectors for similarity search
+ * @interface EmbeddingProvider
+ */
+export interface EmbeddingProvider {
+  /** Identifier of the model currently used by the provider */
+  readonly model: string;
+  /**
+   * Embed a batch of texts
+   * @param texts - Texts to embed
+   * @returns Normalized vectors and the model that produced them
+   */
+  embed(texts: string[]): Promise<EmbeddingResult>;
+}
+
+/**
+ * Embedding provider configuration
+ */
+export type EmbeddingConfig =
+  | {
+      provider: 'transformers';
+      /** Hugging Face model id (default: Xenova/all-MiniLM-L6-v2) */
+      model?: string;
+      /** Directory containing pre-downloaded models; when set, remote downloads are disabled */
+      localModelPath?: string;
+      /** Dimensions of the hashing fallback used if the model cannot be loaded (default: 256) */
+      fallbackDimensions?: number;
+    }
+  | {
+      provider: 'hashing';
+      /** Vector dimensions (default: 256) */
+      dimensions?: number;
+    };
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * 32-bit FNV-1a hash
+ */
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Scale a vector to unit length in place
+ */
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((acc, v) => acc + v * v, 0));
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+};
+
+/**
+ * Cosine similarity between two vectors of equal length
+ * @param a - First vector
+ * @param b - Second vector
+ * @returns Similarity in [-1, 1], or 0 when the vectors cannot be compared
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Deterministic feature-hashing embeddings built from words and character trigrams.
+ * No model download is needed, and the same text always maps to the same vector.
+ *
+ * @class HashingEmbeddingProvider
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private readonly dimensions: number;
+
+  /**
+   * @param dimensions - Vector dimensions (default: 256)
+   */
+  constructor(dimensions = 256) {
+    this.dimensions = dimensions;
+    this.model = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    return { model: this.model, vectors: texts.map(text => this.embedText(text)) };
+  }
+
+  /**
+   * Hash each word and its trigrams into a signed bucket
+   * @private
+   */
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+    };
+
+    for (const [word] of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+      add(`w:${word}`, 1);
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Local sentence embeddings computed with `@xenova/transformers`.
+ * The model is loaded lazily on first use and shared across calls.
+ *
+ * @class TransformersEmbeddingProvider
+ */
+export class TransformersEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private readonly localModelPath?: string;
+  private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  /**
+   * @param options.model - Hugging Face model id (default: Xenova/all-MiniLM-L6-v2)
+   * @param options.localModelPath - Directory with pre-downloaded models for offline loading
+   */
+  constructor(options: { model?: string; localModelPath?: string } = {}) {
+    this.model = options.model ?? 'Xenova/all-MiniLM-L6-v2';
+    this.localModelPath = options.localModelPath;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    const extractor = await this.loadExtractor();
+    const vectors: number[][] = [];
+
+    // Keep batches small so long documents don't spike memory
+    for (let i = 0; i < texts.length; i += 16) {
+      const output = await extractor(texts.slice(i, i + 16), { pooling: 'mean', normalize: true });
+      vectors.push(...(output.tolist() as number[][]));
+    }
+
+    return { model: this.model, vectors };
+  }
+
+  /**
+   * Load the feature-extraction pipeline once
+   * @private
+   */
+  private loadExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractor) {
+      this.extractor = (async () => {
+        const transformers = await import('@xenova/transformers');
+        if (this.localModelPath) {
+          transformers.env.localModelPath = this.localModelPath;
+          transformers.env.allowRemoteModels = false;
+        }
+
+        const startTime = Date.now();
+        const extractor = await transformers.pipeline('feature-extraction', this.model, { quantized: true });
+        logger.info("Loaded local embedding model", {
+          model: this.model,
+          localModelPath: this.localModelPath,
+          duration: Date.now() - startTime,
+        });
+        return extractor;
+      })();
+
+      // Allow a later call to retry if loading failed
+      this.extractor.catch(() => {
+        this.extractor = null;
+      });
+    }
+    return this.extractor;
+  }
+}
+
+/**
+ * Uses a primary provider and permanently switches to a fallback the first time the primary fails,
+ * so a process never mixes vectors from both models within one session.
+ *
+ * @class FallbackEmbeddingProvider
+ */
+export class FallbackEmbeddingProvider implements EmbeddingProvider {
+  private active: EmbeddingProvider;
+
+  /**
+   * @param primary - Preferred provider
+   * @param fallback - Provider used once the primary has failed
+   */
+  constructor(private readonly primary: EmbeddingProvider, private readonly fallback: EmbeddingProvider) {
+    this.active = primary;
+  }
+
+  get model(): string {
+    return this.active.model;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    if (this.active === this.primary) {
+      try {
+        return await this.primary.embed(texts);
+      } catch (err) {
+        logger.warn("Embedding provider failed, switching to fallback", {
+          primary: this.primary.model,
+          fallback: this.fallback.model,
+          error: err instanceof Error ? err.message : String(err),
+        });
+        this.active = this.fallback;
+      }
+    }
+    return this.fallback.embed(texts);
+  }
+}
+
+/**
+ * Create an embedding provider from configuration.
+ * The transformers provider falls back to hashing embeddings if its model cannot be loaded.
+ * @param config - Provider configuration
+ * @returns Configured embedding provider
+ */
+export const createEmbeddingProvider = (config: EmbeddingConfig): EmbeddingProvider => {
+  if (config.provider === 'hashing') {
+    return new HashingEmbeddingProvider(config.dimensions);
+  }
+  return new FallbackEmbeddingProvider(
+    new TransformersEmbeddingProvider({ model: config.model, localModelPath: config.localModelPath }),
+    new HashingEmbeddingProvider(config.fallbackDimensions)
+  );
+};
@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Document Summarizer
+ *
+ * Abstractive map-reduce summarization through an agent's LLM provider. Documents that
+ * fit in a single window are summarized in one call. Longer documents are split into
+ * windows that are summarized independently (map), and the partial summaries are then
+ * combined, recursively if needed, into one summary of the requested length (reduce).
+ *
+ * @module DocumentSummarizer
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import type { LLMProvider } from '@voltagent/core';
+import { createModuleLogger } from '../config/logger.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { chunkDocument } from './documentChunker.js';
+
+const logger = createModuleLogger('documentSummarizer');
+
+/**
+ * Model used for summarization, typically the same provider and model as the calling agent
+ * @interface SummarizerModel
+ */
+export interface SummarizerModel {
+  llm: LLMProvider<any>;
+  model: any;
+  /** Provider options passed with every call (e.g. temperature) */
+  provider?: Record<string, unknown>;
+}
+
+/**
+ * Options for an abstractive summary
+ * @interface AbstractiveSummaryOptions
+ */
+export interface AbstractiveSummaryOptions {
+  /** Approximate length of the final summary in words (default: 200) */
+  targetLength?: number;
+  /** Characters of source text sent to the model per map call (default: 12000) */
+  windowSize?: number;
+  /** Number of map calls run at the same time (default: 4) */
+  concurrency?: number;
+  /** Document title, included in prompts for context */
+  title?: string;
+  /** Aborts pending model calls */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of an abstractive summary
+ * @interface AbstractiveSummary
+ */
+export interface AbstractiveSummary {
+  summary: string;
+  /** Number of windows the source was split into */
+  windowCount: number;
+  /** Number of reduce passes over partial summaries */
+  reducePasses: number;
+  /** Total model calls made */
+  modelCalls: number;
+}
+
+/** Upper bound on reduce passes; each pass shrinks the text several-fold, so this is never reached in practice */
+const MAX_REDUCE_PASSES = 4;
+
+/**
+ * Summarize text with an LLM using map-reduce for long inputs
+ * @param content - Text to summarize
+ * @param summarizer - Provider and model to call
+ * @param options - Target length, window size and concurrency
+ * @returns Final summary and call statistics
+ * @throws Error if a model call fails or returns no text
+ * @example
+ * ```typescript
+ * const { summary } = await summarizeAbstractive(text, { llm: new VercelAIProvider(), model }, { targetLength: 150 });
+ * ```
+ */
+export const summarizeAbstractive = async (
+  content: string,
+  summarizer: SummarizerModel,
+  options: AbstractiveSummaryOptions = {}
+): Promise<AbstractiveSummary> => {
+  const targetLength = Math.max(20, Math.floor(options.targetLength ?? 200));
+  const windowSize = Math.max(1000, options.windowSize ?? 12000);
+  const concurrency = Math.max(1, options.concurrency ?? 4);
+  const subject = options.title ? ` titled "${options.title}"` : '';
+  let modelCalls = 0;
+
+  const generate = async (instruction: string, text: string): Promise<string> => {
+    modelCalls++;
+    const response = await summarizer.llm.generateText({
+      messages: [
+        { role: 'system', content: 'You write faithful, concise summaries. Use only information present in the provided text and never add facts.' },
+        { role: 'user', content: `${instruction}\n\n---\n${text}\n---` },
+      ],
+      model: summarizer.model,
+      provider: summarizer.provider,
+      signal: options.signal,
+    });
+    const summary = response.text?.trim();
+    if (!summary) {
+      throw new Error('Model returned an empty summary');
+    }
+    return summary;
+  };
+
+  const finalInstruction = (source: string) =>
+    `Summarize the following ${source}${subject} in about ${targetLength} words. Cover the main points, conclusions and important specifics. Respond with the summary only.`;
+
+  const windows = chunkDocument(content, { chunkSize: windowSize, chunkOverlap: 0 });
+  if (windows.length <= 1) {
+    return { summary: await generate(finalInstruction('document'), content), windowCount: 1, reducePasses: 0, modelCalls };
+  }
+
+  // Map: partial summaries get a proportional share of the target, with a floor so detail survives the reduce
+  const partialLength = Math.max(60, Math.ceil((targetLength * 2) / windows.length));
+  let partials = await mapWithConcurrency(windows, concurrency, window =>
+    generate(
+      `This is part ${window.index + 1} of ${windows.length} of a document${subject}. Summarize it in at most ${partialLength} words, keeping names, numbers and conclusions. Respond with the summary only.`,
+      window.content
+    )
+  );
+
+  // Reduce: combine partial summaries in groups until they fit in a single window
+  let reducePasses = 0;
+  let combined = partials.join('\n\n');
+  while (combined.length > windowSize && reducePasses < MAX_REDUCE_PASSES) {
+    reducePasses++;
+    const groups = chunkDocument(combined, { chunkSize: windowSize, chunkOverlap: 0 });
+    partials = await mapWithConcurrency(groups, concurrency, group =>
+      generate(
+        `These are consecutive partial summaries of a document${subject}. Merge them into one summary of at most ${partialLength} words without losing key facts. Respond with the summary only.`,
+        group.content
+      )
+    );
+    combined = partials.join('\n\n');
+  }
+
+  reducePasses++;
+  const summary = await generate(finalInstruction('partial summaries of a document'), combined);
+
+  logger.debug('[DocumentSummarizer] Map-reduce summary complete', {
+    contentLength: content.length,
+    windowCount: windows.length,
+    reducePasses,
+    modelCalls,
+  });
+
+  return { summary, windowCount: windows.length, reducePasses, modelCalls };
+};
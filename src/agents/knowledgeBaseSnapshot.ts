@@ -0,0 +1,278 @@
+/**
+ * @fileoverview Knowledge Base Snapshots
+ *
+ * Versioned export and import files for the knowledge base retriever. A snapshot holds a
+ * manifest followed by every stored entry (document chunks with their metadata, tags and
+ * embeddings). Two layouts are supported:
+ *
+ * - JSONL: the first line is the manifest, every following line is one entry
+ * - tar (optionally gzipped): `manifest.json` plus `entries.jsonl`
+ *
+ * Snapshots are validated on load so a corrupt or foreign file never reaches the store.
+ *
+ * @module KnowledgeBaseSnapshot
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import * as fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import tar from 'tar-fs';
+import { z } from 'zod';
+import type { ContextEntry } from './supervisorRetriever.js';
+
+/** Identifier written to every snapshot manifest */
+export const SNAPSHOT_FORMAT = 'ai-volt-knowledge-base';
+
+/** Current snapshot schema version; older versions stay readable */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Snapshot file layouts
+ */
+export type SnapshotFileFormat = 'jsonl' | 'tar';
+
+const manifestSchema = z.object({
+  format: z.literal(SNAPSHOT_FORMAT),
+  version: z.number().int().min(1),
+  exportedAt: z.string().datetime(),
+  entryCount: z.number().int().min(0),
+  documentCount: z.number().int().min(0),
+  embeddingModels: z.array(z.string()),
+});
+
+const entrySchema = z
+  .object({
+    id: z.string().min(1),
+    content: z.string(),
+    source: z.string(),
+    type: z.enum(['delegation', 'task_result', 'workflow', 'agent_capability', 'error_resolution', 'document']),
+    metadata: z
+      .object({
+        timestamp: z.number(),
+        tags: z.array(z.string()).optional(),
+        embedding: z.array(z.number()).optional(),
+        embeddingModel: z.string().optional(),
+      })
+      .passthrough(),
+  })
+  .superRefine((entry, ctx) => {
+    if (entry.type !== 'document') return;
+    const { documentId, chunkIndex, charStart, charEnd } = entry.metadata as Record<string, unknown>;
+    if (typeof documentId !== 'string' || documentId.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['metadata', 'documentId'], message: 'Document chunks require a documentId' });
+    }
+    if (![chunkIndex, charStart, charEnd].every(value => Number.isInteger(value))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['metadata'], message: 'Document chunks require integer chunkIndex, charStart and charEnd' });
+    }
+  });
+
+/**
+ * Snapshot header describing its contents
+ */
+export type SnapshotManifest = z.infer<typeof manifestSchema>;
+
+/**
+ * A loaded and validated snapshot
+ * @interface KnowledgeBaseSnapshot
+ */
+export interface KnowledgeBaseSnapshot {
+  manifest: SnapshotManifest;
+  entries: ContextEntry[];
+}
+
+/**
+ * Pick the file layout from a snapshot path (.tar, .tar.gz and .tgz are tar; anything else is JSONL)
+ * @param filePath - Snapshot path
+ */
+export const snapshotFormatFromPath = (filePath: string): SnapshotFileFormat =>
+  /\.(tar|tar\.gz|tgz)$/i.test(filePath) ? 'tar' : 'jsonl';
+
+/**
+ * Build the manifest for a set of entries
+ */
+const createManifest = (entries: ContextEntry[]): SnapshotManifest => ({
+  format: SNAPSHOT_FORMAT,
+  version: SNAPSHOT_VERSION,
+  exportedAt: new Date().toISOString(),
+  entryCount: entries.length,
+  documentCount: new Set(entries.filter(e => e.type === 'document').map(e => e.metadata.documentId)).size,
+  embeddingModels: Array.from(new Set(entries.map(e => e.metadata.embeddingModel).filter((m): m is string => typeof m === 'string'))),
+});
+
+/**
+ * Format the first zod issue with its path for error messages
+ */
+const describeIssue = (error: z.ZodError): string => {
+  const issue = error.issues[0];
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+};
+
+/**
+ * Validate a manifest object
+ * @throws Error if the manifest is invalid or written by a newer version
+ */
+const parseManifest = (value: unknown): SnapshotManifest => {
+  const result = manifestSchema.safeParse(value);
+  if (!result.success) {
+    throw new Error(`Invalid snapshot manifest (${describeIssue(result.error)})`);
+  }
+  if (result.data.version > SNAPSHOT_VERSION) {
+    throw new Error(`Snapshot version ${result.data.version} is newer than the supported version ${SNAPSHOT_VERSION}`);
+  }
+  return result.data;
+};
+
+/**
+ * Parse and validate JSONL entry lines
+ * @param lines - Entry lines
+ * @param firstLineNumber - Line number of the first entry, for error messages
+ * @throws Error naming the first invalid line
+ */
+const parseEntries = (lines: string[], firstLineNumber: number): ContextEntry[] => {
+  const entries: ContextEntry[] = [];
+  const seen = new Set<string>();
+
+  lines.forEach((line, offset) => {
+    if (!line.trim()) return;
+    const lineNumber = firstLineNumber + offset;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSON on snapshot line ${lineNumber}`);
+    }
+    const result = entrySchema.safeParse(value);
+    if (!result.success) {
+      throw new Error(`Invalid entry on snapshot line ${lineNumber} (${describeIssue(result.error)})`);
+    }
+    if (seen.has(result.data.id)) {
+      throw new Error(`Duplicate entry id '${result.data.id}' on snapshot line ${lineNumber}`);
+    }
+    seen.add(result.data.id);
+    entries.push(value as ContextEntry);
+  });
+
+  return entries;
+};
+
+/**
+ * Check that the manifest matches the entries it describes
+ */
+const checkEntryCount = (manifest: SnapshotManifest, entries: ContextEntry[]): void => {
+  if (manifest.entryCount !== entries.length) {
+    throw new Error(`Snapshot manifest lists ${manifest.entryCount} entries but ${entries.length} were found; the file may be truncated`);
+  }
+};
+
+/**
+ * Write entries to a snapshot file
+ * @param filePath - Destination path; parent directories are created
+ * @param entries - Entries to export
+ * @param options.format - File layout (default: derived from the file extension)
+ * @returns Manifest written to the snapshot
+ * @example
+ * ```typescript
+ * await writeKnowledgeBaseSnapshot("./backups/kb.tar.gz", await retriever.exportEntries());
+ * ```
+ */
+export const writeKnowledgeBaseSnapshot = async (
+  filePath: string,
+  entries: ContextEntry[],
+  options: { format?: SnapshotFileFormat } = {}
+): Promise<SnapshotManifest> => {
+  const format = options.format ?? snapshotFormatFromPath(filePath);
+  const manifest = createManifest(entries);
+  const entryLines = entries.map(entry => JSON.stringify(entry)).join('\n');
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  if (format === 'jsonl') {
+    await fs.writeFile(filePath, `${JSON.stringify(manifest)}\n${entryLines}${entries.length > 0 ? '\n' : ''}`, 'utf8');
+    return manifest;
+  }
+
+  const stagingDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kb-snapshot-'));
+  try {
+    await fs.writeFile(path.join(stagingDir, 'manifest.json'), JSON.stringify(manifest, null, 2), 'utf8');
+    await fs.writeFile(path.join(stagingDir, 'entries.jsonl'), entryLines, 'utf8');
+    const pack = tar.pack(stagingDir, { entries: ['manifest.json', 'entries.jsonl'] });
+    if (/\.(tar\.gz|tgz)$/i.test(filePath)) {
+      await pipeline(pack, createGzip(), createWriteStream(filePath));
+    } else {
+      await pipeline(pack, createWriteStream(filePath));
+    }
+  } finally {
+    await fs.rm(stagingDir, { recursive: true, force: true });
+  }
+  return manifest;
+};
+
+/**
+ * Read and validate a snapshot file
+ * @param filePath - Snapshot path
+ * @param options.format - File layout (default: derived from the file extension)
+ * @returns Manifest and validated entries
+ * @throws Error if the file is missing, malformed, truncated or from a newer snapshot version
+ */
+export const readKnowledgeBaseSnapshot = async (
+  filePath: string,
+  options: { format?: SnapshotFileFormat } = {}
+): Promise<KnowledgeBaseSnapshot> => {
+  const format = options.format ?? snapshotFormatFromPath(filePath);
+
+  if (format === 'jsonl') {
+    const lines = (await fs.readFile(filePath, 'utf8')).split(/\r?\n/);
+    let header: unknown;
+    try {
+      header = JSON.parse(lines[0]);
+    } catch {
+      throw new Error('Invalid snapshot manifest on line 1');
+    }
+    const manifest = parseManifest(header);
+    const entries = parseEntries(lines.slice(1), 2);
+    checkEntryCount(manifest, entries);
+    return { manifest, entries };
+  }
+
+  const stagingDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kb-snapshot-'));
+  try {
+    const handle = await fs.open(filePath, 'r');
+    const { buffer } = await handle.read(Buffer.alloc(2), 0, 2, 0);
+    await handle.close();
+
+    // Only the two snapshot members are extracted; anything else in the archive is ignored
+    const extract = tar.extract(stagingDir, { ignore: name => !['manifest.json', 'entries.jsonl'].includes(path.basename(name)) });
+    if (buffer[0] === 0x1f && buffer[1] === 0x8b) {
+      await pipeline(createReadStream(filePath), createGunzip(), extract);
+    } else {
+      await pipeline(createReadStream(filePath), extract);
+    }
+
+    const readMember = async (name: string): Promise<string> => {
+      try {
+        return await fs.readFile(path.join(stagingDir, name), 'utf8');
+      } catch {
+        throw new Error(`Snapshot archive is missing ${name}`);
+      }
+    };
+
+    let header: unknown;
+    try {
+      header = JSON.parse(await readMember('manifest.json'));
+    } catch (error) {
+      throw error instanceof SyntaxError ? new Error('Invalid JSON in snapshot manifest.json') : error;
+    }
+    const manifest = parseManifest(header);
+    const entries = parseEntries((await readMember('entries.jsonl')).split(/\r?\n/), 1);
+    checkEntryCount(manifest, entries);
+    return { manifest, entries };
+  } finally {
+    await fs.rm(stagingDir, { recursive: true, force: true });
+  }
+};
@@ -0,0 +1,331 @@
+/**
+ * @fileoverview Agent and Tool Health Metrics
+ *
+ * In-process counters, histograms and gauges for agent runs, delegations per worker, tool calls
+ * per tool with their outcome and latency, model tokens and cost, and supervisor retrievals with
+ * the retriever cache hit ratio. Agent hooks, the model call observer and the retriever record
+ * into the registry; `GET /metrics` serves it in the Prometheus text exposition format.
+ *
+ * @module Metrics
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import type { CustomEndpointDefinition, OperationContext } from '@voltagent/core';
+import type { CostEntry, TokenUsage } from './costLedger.js';
+
+/** Content type of the Prometheus text exposition format */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Histogram buckets in seconds for tool calls and retrievals */
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+/** Histogram buckets in seconds for agent runs and delegations, which span many model calls */
+const RUN_BUCKETS = [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600, 1800];
+
+/** Label values by label name */
+export type MetricLabels = Record<string, string>;
+
+/** Current values of a gauge with their labels; none while the value is undefined */
+export type GaugeReader = () => Array<{ labels?: MetricLabels; value: number }>;
+
+/**
+ * A metric family that can render itself
+ * @interface Metric
+ */
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: 'counter' | 'gauge' | 'histogram';
+  /** Lines of the family in the text exposition format, without HELP and TYPE */
+  collect(): string[];
+}
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatValue = (value: number): string =>
+  Number.isNaN(value) ? 'NaN' : value === Infinity ? '+Inf' : value === -Infinity ? '-Inf' : String(value);
+
+const formatLabels = (labels: MetricLabels): string => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+/**
+ * Series of one metric family keyed by their label values
+ *
+ * @class MetricSeries
+ */
+abstract class MetricSeries<T> implements Metric {
+  abstract readonly type: Metric['type'];
+  protected readonly series = new Map<string, { labels: MetricLabels; value: T }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly labelNames: readonly string[]) {}
+
+  abstract collect(): string[];
+
+  /** Series for these labels, if it was recorded */
+  protected findSeries(labels: MetricLabels): { labels: MetricLabels; value: T } | undefined {
+    return this.series.get(this.seriesKey(labels));
+  }
+
+  /** Series for these labels, created with `initial` on first use */
+  protected getSeries(labels: MetricLabels, initial: () => T): { labels: MetricLabels; value: T } {
+    const key = this.seriesKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: Object.fromEntries(this.labelNames.map(name => [name, labels[name] ?? ''])), value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  private seriesKey(labels: MetricLabels): string {
+    return JSON.stringify(this.labelNames.map(name => labels[name] ?? ''));
+  }
+}
+
+/**
+ * Monotonically increasing total
+ *
+ * @class Counter
+ */
+export class Counter extends MetricSeries<number> {
+  readonly type = 'counter' as const;
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    if (value < 0) throw new Error(`Counter ${this.name} cannot decrease`);
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  /** Current total for these labels */
+  get(labels: MetricLabels = {}): number {
+    return this.findSeries(labels)?.value ?? 0;
+  }
+
+  /** Sum over every series */
+  total(): number {
+    let sum = 0;
+    for (const { value } of this.series.values()) sum += value;
+    return sum;
+  }
+
+  collect(): string[] {
+    return Array.from(this.series.values(), ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+/**
+ * Distribution of observed values over fixed buckets
+ *
+ * @class Histogram
+ */
+export class Histogram extends MetricSeries<{ buckets: number[]; sum: number; count: number }> {
+  readonly type = 'histogram' as const;
+
+  constructor(name: string, help: string, labelNames: readonly string[], private readonly bounds: number[] = LATENCY_BUCKETS) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const { value: data } = this.getSeries(labels, () => ({ buckets: this.bounds.map(() => 0), sum: 0, count: 0 }));
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) data.buckets[index]++;
+    });
+    data.sum += value;
+    data.count++;
+  }
+
+  collect(): string[] {
+    const lines: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      this.bounds.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.buckets[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Value computed when the metrics are scraped
+ *
+ * @class Gauge
+ */
+export class Gauge implements Metric {
+  readonly type = 'gauge' as const;
+
+  constructor(readonly name: string, readonly help: string, private readonly read: GaugeReader) {}
+
+  collect(): string[] {
+    return this.read().map(({ labels = {}, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+/**
+ * Named metric families rendered together
+ *
+ * @class MetricsRegistry
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: readonly string[] = [], buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  gauge(name: string, help: string, read: GaugeReader): Gauge {
+    return this.register(new Gauge(name, help, read));
+  }
+
+  /** Every family in the Prometheus text exposition format */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.collect());
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) throw new Error(`Metric ${metric.name} is already registered`);
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+/** Registry served by `GET /metrics` */
+export const metricsRegistry = new MetricsRegistry();
+
+const agentRuns = metricsRegistry.counter('ai_volt_agent_runs_total', 'Agent operations by agent and outcome', ['agent', 'status']);
+const agentRunDuration = metricsRegistry.histogram('ai_volt_agent_run_duration_seconds', 'Duration of agent operations', ['agent'], RUN_BUCKETS);
+const delegations = metricsRegistry.counter('ai_volt_delegations_total', 'Tasks delegated to each worker by outcome', ['worker', 'status']);
+const delegationDuration = metricsRegistry.histogram('ai_volt_delegation_duration_seconds', 'Duration of delegated tasks', ['worker'], RUN_BUCKETS);
+const toolCalls = metricsRegistry.counter('ai_volt_tool_calls_total', 'Tool calls by agent, tool and outcome', ['agent', 'tool', 'status']);
+const toolDuration = metricsRegistry.histogram('ai_volt_tool_duration_seconds', 'Tool call latency', ['tool']);
+const llmCalls = metricsRegistry.counter('ai_volt_llm_calls_total', 'Model calls with reported usage by agent and model', ['agent', 'model']);
+const llmTokens = metricsRegistry.counter('ai_volt_llm_tokens_total', 'Model tokens by agent, model and billing type', ['agent', 'model', 'type']);
+const llmCost = metricsRegistry.counter('ai_volt_llm_cost_usd_total', 'Model spend in USD by agent and model', ['agent', 'model']);
+const retrievals = metricsRegistry.counter('ai_volt_retrievals_total', 'Supervisor context retrievals by cache result and outcome', ['cache', 'status']);
+const retrievalDuration = metricsRegistry.histogram('ai_volt_retrieval_duration_seconds', 'Supervisor context retrieval latency', ['cache']);
+metricsRegistry.gauge('ai_volt_retriever_cache_hit_ratio', 'Share of supervisor retrievals answered from the search cache', () => {
+  const hits = retrievals.get({ cache: 'hit', status: 'success' });
+  const total = retrievals.total();
+  return total > 0 ? [{ value: hits / total }] : [];
+});
+
+const TOKEN_TYPES: Record<keyof TokenUsage, string> = {
+  inputTokens: 'input',
+  cachedInputTokens: 'cached_input',
+  cacheWriteTokens: 'cache_write',
+  outputTokens: 'output',
+  reasoningTokens: 'reasoning',
+};
+
+const outcome = (error: unknown): 'success' | 'error' => (error ? 'error' : 'success');
+
+/** Start times of running agent operations */
+const agentStarts = new WeakMap<OperationContext, number>();
+
+/** Start times of running tool calls per operation and tool, oldest first */
+const toolStarts = new WeakMap<OperationContext, Map<string, number[]>>();
+
+/**
+ * Note that an agent operation started, from its `onStart` hook
+ */
+export const recordAgentStart = (context: OperationContext): void => {
+  agentStarts.set(context, Date.now());
+};
+
+/**
+ * Count a finished agent operation and its duration, from its `onEnd` hook
+ * @param agentName - Agent that ran the operation
+ * @param context - Operation context passed to {@link recordAgentStart}
+ * @param error - Error the operation failed with, if any
+ * @param delegated - Whether the operation was a task delegated to a worker
+ */
+export const recordAgentEnd = (agentName: string, context: OperationContext, error?: unknown, delegated = false): void => {
+  const startTime = agentStarts.get(context);
+  agentStarts.delete(context);
+  const seconds = startTime === undefined ? undefined : (Date.now() - startTime) / 1000;
+
+  agentRuns.inc({ agent: agentName, status: outcome(error) });
+  if (seconds !== undefined) agentRunDuration.observe({ agent: agentName }, seconds);
+  if (delegated) {
+    delegations.inc({ worker: agentName, status: outcome(error) });
+    if (seconds !== undefined) delegationDuration.observe({ worker: agentName }, seconds);
+  }
+};
+
+/**
+ * Note that a tool call started, from the `onToolStart` hook
+ */
+export const recordToolStart = (toolName: string, context: OperationContext): void => {
+  let starts = toolStarts.get(context);
+  if (!starts) {
+    starts = new Map();
+    toolStarts.set(context, starts);
+  }
+  starts.set(toolName, [...(starts.get(toolName) ?? []), Date.now()]);
+};
+
+/**
+ * Count a finished tool call and its latency, from the `onToolEnd` hook. Concurrent calls of
+ * the same tool are matched in the order they started.
+ * @param agentName - Agent that made the call
+ * @param toolName - Tool called
+ * @param context - Operation context passed to {@link recordToolStart}
+ * @param error - Error the call failed with, if any
+ */
+export const recordToolEnd = (agentName: string, toolName: string, context: OperationContext, error?: unknown): void => {
+  const startTime = toolStarts.get(context)?.get(toolName)?.shift();
+  toolCalls.inc({ agent: agentName, tool: toolName, status: outcome(error) });
+  if (startTime !== undefined) toolDuration.observe({ tool: toolName }, (Date.now() - startTime) / 1000);
+};
+
+/**
+ * Count the tokens and cost of a priced model call
+ * @param entry - Cost ledger entry of the call
+ */
+export const recordModelCall = (entry: CostEntry): void => {
+  const labels = { agent: entry.agentId, model: entry.model };
+  llmCalls.inc(labels);
+  for (const [field, type] of Object.entries(TOKEN_TYPES) as Array<[keyof TokenUsage, string]>) {
+    if (entry.usage[field] > 0) llmTokens.inc({ ...labels, type }, entry.usage[field]);
+  }
+  llmCost.inc(labels, entry.cost);
+};
+
+/**
+ * Count a supervisor context retrieval
+ * @param cache - Whether the search cache answered it
+ * @param durationMs - Time the retrieval took
+ * @param error - Error the retrieval failed with, if any
+ */
+export const recordRetrieval = (cache: 'hit' | 'miss', durationMs: number, error?: unknown): void => {
+  retrievals.inc({ cache, status: outcome(error) });
+  retrievalDuration.observe({ cache }, durationMs / 1000);
+};
+
+/**
+ * Prometheus scrape endpoint
+ */
+export const metricsEndpoints: CustomEndpointDefinition[] = [
+  {
+    path: '/metrics',
+    method: 'get',
+    description: 'Agent, delegation, tool, model and retriever metrics in the Prometheus text format',
+    handler: c => c.text(metricsRegistry.render(), 200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE }),
+  },
+];
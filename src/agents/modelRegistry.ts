@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Model Registry
+ *
+ * Resolves model strings such as `google:gemini-2.5-flash-preview-05-20`, `openai:gpt-4o-mini`,
+ * `anthropic:claude-3-5-haiku-latest` or `ollama:llama3.1:8b` into a language model for
+ * `VercelAIProvider`. Every agent resolves its model through the registry, so a model can be
+ * changed per agent with an `AGENT_MODEL_<AGENT_ID>` environment variable, or for all agents
+ * with `DEFAULT_MODEL`. Provider options are filtered to the resolved provider and model, so
+ * Gemini `thinkingConfig` is never sent to OpenAI, and not to Gemini models without thinking.
+ *
+ * @module ModelRegistry
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import type { LanguageModelV1 } from 'ai';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { env } from '../config/environment.js';
+import { createModuleLogger } from '../config/logger.js';
+
+const logger = createModuleLogger('modelRegistry');
+
+/**
+ * Providers the registry can resolve
+ */
+export type ModelProviderName = 'google' | 'openai' | 'anthropic' | 'ollama';
+
+/**
+ * Provider options keyed by provider name, as accepted by `Agent.providerOptions`
+ */
+export type ModelProviderOptions = Record<string, Record<string, any>>;
+
+/**
+ * A model string split into provider and model id
+ * @interface ModelSpec
+ */
+export interface ModelSpec {
+  provider: ModelProviderName;
+  modelId: string;
+}
+
+/**
+ * A resolved model ready to pass to an Agent
+ * @interface ResolvedModel
+ */
+export interface ResolvedModel extends ModelSpec {
+  /** Normalized model string, `provider:modelId` */
+  spec: string;
+  model: LanguageModelV1;
+  /** Options for the resolved provider only, or undefined when none apply */
+  providerOptions?: ModelProviderOptions;
+}
+
+/** Model used when neither the agent nor DEFAULT_MODEL specify one */
+export const FALLBACK_MODEL = 'google:gemini-2.5-flash-preview-05-20';
+
+const PROVIDERS: readonly ModelProviderName[] = ['google', 'openai', 'anthropic', 'ollama'];
+
+/**
+ * Provider option keys that only some models accept, with the models that accept them
+ */
+const MODEL_SPECIFIC_OPTIONS: Partial<Record<ModelProviderName, Record<string, RegExp>>> = {
+  google: { thinkingConfig: /^gemini-2\.5-/ },
+  anthropic: { thinking: /^claude-(3-7-sonnet|sonnet-4|opus-4)/ },
+};
+
+/** Provider factories are created on first use so unused providers need no credentials */
+const providerCache = new Map<ModelProviderName, (modelId: string) => LanguageModelV1>();
+
+/**
+ * Split a model string into provider and model id.
+ * Strings without a known provider prefix are treated as Google model ids, so existing
+ * configuration such as `gemini-2.0-flash` keeps working.
+ * @param spec - Model string, e.g. `openai:gpt-4o-mini`
+ * @returns Provider and model id
+ * @throws Error if the string is empty or names an unknown provider
+ */
+export const parseModelSpec = (spec: string): ModelSpec => {
+  const trimmed = spec.trim();
+  const separator = trimmed.indexOf(':');
+  const prefix = separator > 0 ? trimmed.slice(0, separator) : '';
+
+  if (PROVIDERS.includes(prefix as ModelProviderName)) {
+    const modelId = trimmed.slice(separator + 1);
+    if (!modelId) throw new Error(`Model string '${spec}' is missing a model id`);
+    return { provider: prefix as ModelProviderName, modelId };
+  }
+  if (separator === -1 && trimmed) {
+    return { provider: 'google', modelId: trimmed };
+  }
+  throw new Error(`Unknown model provider in '${spec}'. Use one of: ${PROVIDERS.map(p => `${p}:<model>`).join(', ')}`);
+};
+
+/**
+ * Create the model factory for a provider
+ * @throws Error if the provider's credentials are missing
+ */
+const createProviderFactory = (provider: ModelProviderName): ((modelId: string) => LanguageModelV1) => {
+  switch (provider) {
+    case 'google':
+      if (!env.GOOGLE_GENERATIVE_AI_API_KEY) {
+        throw new Error('GOOGLE_GENERATIVE_AI_API_KEY is required for google: models');
+      }
+      return createGoogleGenerativeAI({ apiKey: env.GOOGLE_GENERATIVE_AI_API_KEY });
+    case 'openai': {
+      // A custom base URL points at an OpenAI-compatible server, which may not need a key
+      if (!env.OPENAI_API_KEY && !env.OPENAI_BASE_URL) {
+        throw new Error('OPENAI_API_KEY (or OPENAI_BASE_URL for a compatible server) is required for openai: models');
+      }
+      const openai = createOpenAI({
+        apiKey: env.OPENAI_API_KEY ?? 'not-needed',
+        baseURL: env.OPENAI_BASE_URL,
+        compatibility: env.OPENAI_BASE_URL ? 'compatible' : 'strict',
+      });
+      return modelId => openai(modelId);
+    }
+    case 'anthropic':
+      if (!env.ANTHROPIC_API_KEY) {
+        throw new Error('ANTHROPIC_API_KEY is required for anthropic: models');
+      }
+      return createAnthropic({ apiKey: env.ANTHROPIC_API_KEY });
+    case 'ollama': {
+      // Ollama serves an OpenAI-compatible API and ignores the key
+      const ollama = createOpenAI({ apiKey: 'ollama', baseURL: env.OLLAMA_BASE_URL, compatibility: 'compatible', name: 'ollama' });
+      return modelId => ollama(modelId);
+    }
+  }
+};
+
+/**
+ * Keep only the options that apply to the resolved provider and model
+ * @param spec - Resolved provider and model id
+ * @param providerOptions - Options keyed by provider name
+ * @returns Options for the resolved provider, or undefined when none apply
+ */
+export const filterProviderOptions = (spec: ModelSpec, providerOptions?: ModelProviderOptions): ModelProviderOptions | undefined => {
+  // Ollama runs through the OpenAI provider, which reads options from the `openai` key
+  const optionsKey = spec.provider === 'ollama' ? 'openai' : spec.provider;
+  const options = { ...providerOptions?.[optionsKey], ...(spec.provider === 'ollama' && providerOptions?.ollama) };
+
+  for (const [key, supportedModels] of Object.entries(MODEL_SPECIFIC_OPTIONS[spec.provider] ?? {})) {
+    if (key in options && !supportedModels.test(spec.modelId)) {
+      logger.debug("Dropping provider option not supported by model", { provider: spec.provider, modelId: spec.modelId, option: key });
+      delete options[key];
+    }
+  }
+
+  return Object.keys(options).length > 0 ? { [optionsKey]: options } : undefined;
+};
+
+/**
+ * Resolve a model string into a language model and the provider options that apply to it
+ * @param spec - Model string, e.g. `anthropic:claude-3-5-haiku-latest`
+ * @param providerOptions - Options keyed by provider name; options for other providers are dropped
+ * @returns Resolved model
+ * @throws Error if the string is invalid or the provider's credentials are missing
+ */
+export const resolveModel = (spec: string, providerOptions?: ModelProviderOptions): ResolvedModel => {
+  const parsed = parseModelSpec(spec);
+  let factory = providerCache.get(parsed.provider);
+  if (!factory) {
+    factory = createProviderFactory(parsed.provider);
+    providerCache.set(parsed.provider, factory);
+  }
+
+  return {
+    ...parsed,
+    spec: `${parsed.provider}:${parsed.modelId}`,
+    model: factory(parsed.modelId),
+    providerOptions: filterProviderOptions(parsed, providerOptions),
+  };
+};
+
+/**
+ * Per-agent environment variable name, e.g. `AGENT_MODEL_SYSTEM_INFO` for `system-info`
+ * or `AGENT_MODEL_NEW_GIT_WORKER` for `NewGitWorker`
+ * @param prefix - Variable prefix
+ * @param agentId - Agent id or registration key
+ */
+export const agentEnvVar = (prefix: string, agentId: string): string =>
+  `${prefix}_${agentId.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[^A-Za-z0-9]+/g, '_').toUpperCase()}`;
+
+/**
+ * Environment variable that overrides an agent's model, e.g. `AGENT_MODEL_SYSTEM_INFO` for `system-info`
+ * @param agentId - Agent id or registration key
+ */
+export const agentModelEnvVar = (agentId: string): string => agentEnvVar('AGENT_MODEL', agentId);
+
+/**
+ * Resolve an agent's model. Precedence: `AGENT_MODEL_<AGENT_ID>`, then the configured model,
+ * then `DEFAULT_MODEL`, then {@link FALLBACK_MODEL}.
+ * @param agentId - Agent id used for the environment override
+ * @param configured - Model string from code or the topology file
+ * @param providerOptions - Options keyed by provider name
+ * @returns Resolved model
+ * @throws Error if the model string is invalid or the provider's credentials are missing
+ * @example
+ * ```typescript
+ * const { model, providerOptions } = resolveAgentModel("supervisor", undefined, { google: { thinkingConfig: { thinkingBudget: 0 } } });
+ * new Agent({ name: "SupervisorAgent", llm: new VercelAIProvider(), model, providerOptions, ... });
+ * ```
+ */
+export const resolveAgentModel = (agentId: string, configured?: string, providerOptions?: ModelProviderOptions): ResolvedModel => {
+  const override = process.env[agentModelEnvVar(agentId)]?.trim();
+  const spec = override || configured || env.DEFAULT_MODEL || FALLBACK_MODEL;
+  try {
+    return resolveModel(spec, providerOptions);
+  } catch (error) {
+    throw new Error(`Cannot resolve model for agent '${agentId}': ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
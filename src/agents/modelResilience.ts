@@ -0,0 +1,566 @@
+/**
+ * @fileoverview Model Resilience
+ *
+ * Wraps an agent's resolved models in a single `LanguageModelV1` that retries transient
+ * failures (rate limits, 5xx responses, timeouts, dropped connections) with exponential
+ * backoff and jitter, honors `retry-after` headers, and then falls back through an ordered
+ * list of models. A circuit breaker per provider skips a provider that keeps failing until
+ * its cooldown has passed. Every retry, fallback and skipped provider is recorded in the
+ * operation's `userContext`, where the agent hooks pick it up.
+ *
+ * @module ModelResilience
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import { APICallError, type LanguageModelV1, type LanguageModelV1CallOptions, type LanguageModelV1StreamPart } from 'ai';
+import type { DynamicValueOptions } from '@voltagent/core';
+import { env } from '../config/environment.js';
+import { createModuleLogger } from '../config/logger.js';
+import { agentEnvVar, resolveAgentModel, resolveModel, type ModelProviderOptions, type ResolvedModel } from './modelRegistry.js';
+import { recordModelUsage, type ModelCallUsage } from './costLedger.js';
+import { buildBudgetStopMessage, chargeBudget, checkBudget } from './budgets.js';
+import { recordModelCall } from './metrics.js';
+
+const logger = createModuleLogger('modelResilience');
+
+/**
+ * Retry, timeout and circuit breaker settings
+ * @interface ResiliencePolicy
+ */
+export interface ResiliencePolicy {
+  /** Retries per model after the first attempt */
+  maxRetries: number;
+  /** Backoff before the first retry; doubles on every retry */
+  baseDelayMs: number;
+  /** Upper bound for a single wait. A longer `retry-after` moves on to the next model instead */
+  maxDelayMs: number;
+  /** Time allowed for one attempt (for streams, until the stream starts) */
+  timeoutMs: number;
+  /** Consecutive failures that open a provider's circuit */
+  failureThreshold: number;
+  /** How long an open circuit skips its provider */
+  cooldownMs: number;
+}
+
+/**
+ * A single retry, fallback or circuit decision
+ * @interface ModelCallEvent
+ */
+export interface ModelCallEvent {
+  type: 'retry' | 'fallback' | 'circuit-skip' | 'circuit-open' | 'exhausted';
+  agentId: string;
+  /** Model the event refers to, `provider:modelId` */
+  model: string;
+  /** Model tried next, for fallbacks */
+  nextModel?: string;
+  /** Attempt number on `model`, starting at 1 */
+  attempt?: number;
+  /** Wait before the next attempt */
+  delayMs?: number;
+  statusCode?: number;
+  reason: string;
+  timestamp: number;
+}
+
+/**
+ * Per-operation resilience telemetry stored in `userContext`
+ * @interface ModelTelemetry
+ */
+export interface ModelTelemetry {
+  /** Model calls made by the agent, one per generation step */
+  calls: number;
+  retries: number;
+  fallbacks: number;
+  circuitSkips: number;
+  /** Model that answered the most recent call */
+  lastModel?: string;
+  events: ModelCallEvent[];
+}
+
+/** `userContext` key holding the operation's {@link ModelTelemetry} */
+export const MODEL_TELEMETRY_KEY = 'modelTelemetry';
+
+/** Events kept per operation; counters keep counting past this */
+const MAX_TELEMETRY_EVENTS = 50;
+
+/** Status codes worth retrying on the same model */
+const RETRYABLE_STATUS_CODES = new Set([408, 409, 425, 429]);
+
+/** Network error codes worth retrying on the same model */
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT']);
+
+/**
+ * Policy from the MODEL_* environment variables
+ */
+export const getDefaultResiliencePolicy = (): ResiliencePolicy => ({
+  maxRetries: env.MODEL_MAX_RETRIES,
+  baseDelayMs: env.MODEL_RETRY_BASE_DELAY_MS,
+  maxDelayMs: env.MODEL_RETRY_MAX_DELAY_MS,
+  timeoutMs: env.MODEL_TIMEOUT_MS,
+  failureThreshold: env.MODEL_CIRCUIT_FAILURE_THRESHOLD,
+  cooldownMs: env.MODEL_CIRCUIT_COOLDOWN_MS,
+});
+
+/**
+ * Circuit breaker for one provider.
+ * Closed: calls pass. Open: calls are skipped until the cooldown ends. Half-open: one trial
+ * call passes; success closes the circuit, failure opens it again.
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    readonly provider: string,
+    private readonly failureThreshold: number,
+    private readonly cooldownMs: number
+  ) {}
+
+  /** Current state */
+  get state(): 'closed' | 'open' | 'half-open' {
+    if (this.openedAt === null) return 'closed';
+    return Date.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  /** Milliseconds until an open circuit allows a trial call */
+  get remainingCooldownMs(): number {
+    return this.openedAt === null ? 0 : Math.max(0, this.openedAt + this.cooldownMs - Date.now());
+  }
+
+  /**
+   * Whether a call may go to this provider now. In half-open state only one trial call is let through.
+   */
+  tryAcquire(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'open' || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * @returns true if this failure opened the circuit
+   */
+  recordFailure(): boolean {
+    const wasTrial = this.trialInFlight;
+    this.trialInFlight = false;
+    this.consecutiveFailures++;
+    if (wasTrial || (this.openedAt === null && this.consecutiveFailures >= this.failureThreshold)) {
+      this.openedAt = Date.now();
+      return true;
+    }
+    return false;
+  }
+
+  /** Release a half-open trial that ended without a verdict, e.g. a caller abort */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  toJSON() {
+    return { provider: this.provider, state: this.state, consecutiveFailures: this.consecutiveFailures, remainingCooldownMs: this.remainingCooldownMs };
+  }
+}
+
+/** Circuit breakers are shared by all agents so one agent's failures protect the others */
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+const getCircuitBreaker = (provider: string, policy: ResiliencePolicy): CircuitBreaker => {
+  let breaker = circuitBreakers.get(provider);
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider, policy.failureThreshold, policy.cooldownMs);
+    circuitBreakers.set(provider, breaker);
+  }
+  return breaker;
+};
+
+/**
+ * Snapshot of every provider's circuit breaker
+ */
+export const getCircuitBreakerStates = () => Array.from(circuitBreakers.values(), breaker => breaker.toJSON());
+
+/**
+ * Classify a failed model call
+ * @param error - Error thrown by the provider
+ * @returns Whether retrying the same model may help, with a short reason and status code
+ */
+export const classifyModelError = (error: unknown): { retryable: boolean; reason: string; statusCode?: number } => {
+  if (APICallError.isInstance(error)) {
+    const { statusCode } = error;
+    const retryable = error.isRetryable || (statusCode !== undefined && (RETRYABLE_STATUS_CODES.has(statusCode) || statusCode >= 500));
+    return { retryable, reason: statusCode === 429 ? 'rate-limited' : statusCode ? `http-${statusCode}` : 'api-error', statusCode };
+  }
+
+  for (let current: any = error, depth = 0; current && depth < 3; current = current.cause, depth++) {
+    if (typeof current.code === 'string' && RETRYABLE_NETWORK_CODES.has(current.code)) {
+      return { retryable: true, reason: current.code };
+    }
+  }
+  if (error instanceof TypeError && /fetch failed|network/i.test(error.message)) {
+    return { retryable: true, reason: 'network-error' };
+  }
+  return { retryable: false, reason: error instanceof Error ? error.name : 'unknown-error' };
+};
+
+/**
+ * Wait requested by the provider through `retry-after-ms` or `retry-after` (seconds or HTTP date)
+ * @returns Milliseconds to wait, or undefined when the response has no usable header
+ */
+export const getRetryAfterMs = (error: unknown): number | undefined => {
+  if (!APICallError.isInstance(error) || !error.responseHeaders) return undefined;
+  const headers = Object.fromEntries(Object.entries(error.responseHeaders).map(([key, value]) => [key.toLowerCase(), value]));
+
+  const milliseconds = Number.parseFloat(headers['retry-after-ms'] ?? '');
+  if (Number.isFinite(milliseconds) && milliseconds >= 0) return milliseconds;
+
+  const retryAfter = headers['retry-after'];
+  if (!retryAfter) return undefined;
+  const seconds = Number.parseFloat(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Exponential backoff with full jitter
+ * @param retry - Retry number, starting at 1
+ */
+export const computeBackoffMs = (retry: number, policy: Pick<ResiliencePolicy, 'baseDelayMs' | 'maxDelayMs'>): number =>
+  Math.round(Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1)));
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Run one attempt with a timeout. The timeout only covers the call itself, so a stream that
+ * has started is not cut off later. The attempt is abandoned on timeout or caller abort even
+ * if the provider ignores the abort signal.
+ */
+const callWithTimeout = <T>(call: (signal: AbortSignal) => PromiseLike<T>, timeoutMs: number, callerSignal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => {
+    controller.abort(Object.assign(new Error(`Model call timed out after ${timeoutMs}ms`), { code: 'ETIMEDOUT' }));
+  }, timeoutMs);
+  const onCallerAbort = () => controller.abort(callerSignal!.reason);
+  if (callerSignal?.aborted) onCallerAbort();
+  callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+
+  return new Promise<T>((resolve, reject) => {
+    // Providers surface the abort as their own AbortError; report the timeout or caller reason instead
+    const onAbort = () => reject(controller.signal.reason);
+    if (controller.signal.aborted) return onAbort();
+    controller.signal.addEventListener('abort', onAbort, { once: true });
+    Promise.resolve()
+      .then(() => call(controller.signal))
+      .then(resolve, error => reject(controller.signal.aborted ? controller.signal.reason : error));
+  }).finally(() => {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', onCallerAbort);
+  });
+};
+
+/**
+ * Callbacks for observing a resilient model
+ * @interface ModelCallObserver
+ */
+export interface ModelCallObserver {
+  /** Called before each model call; returning text answers the call with it instead of a model */
+  onBeforeCall?: (options: LanguageModelV1CallOptions) => string | undefined;
+  /** Called once per model call, before the first attempt */
+  onCall?: () => void;
+  /** Called with every retry, fallback and circuit decision */
+  onEvent?: (event: ModelCallEvent) => void;
+  /** Called with the model that answered */
+  onSuccess?: (model: string) => void;
+  /** Called with the token usage of each answered call; for streams, when the stream finishes */
+  onUsage?: (model: ResolvedModel, usage: ModelCallUsage) => void;
+}
+
+/**
+ * Create a model that tries `chain` in order, retrying each entry before falling back
+ * @param agentId - Agent id used in telemetry and logs
+ * @param chain - Primary model followed by its fallbacks
+ * @param policy - Retry, timeout and circuit breaker settings
+ * @param observer - Receives calls, events, the answering model and its usage
+ * @returns Model that reports the primary's provider and model id
+ * @throws Error if the chain is empty
+ */
+export const createResilientModel = (
+  agentId: string,
+  chain: ResolvedModel[],
+  policy: ResiliencePolicy = getDefaultResiliencePolicy(),
+  observer: ModelCallObserver = {}
+): LanguageModelV1 => {
+  if (chain.length === 0) throw new Error(`No models configured for agent '${agentId}'`);
+  const [primary] = chain;
+
+  const emit = (event: Omit<ModelCallEvent, 'agentId' | 'timestamp'>) => {
+    const fullEvent = { ...event, agentId, timestamp: Date.now() };
+    const level = event.type === 'retry' || event.type === 'circuit-skip' ? 'debug' : 'warn';
+    logger[level](`[ModelResilience] ${event.type}`, fullEvent);
+    observer.onEvent?.(fullEvent);
+  };
+
+  const execute = async <T>(options: LanguageModelV1CallOptions, call: (entry: ResolvedModel, options: LanguageModelV1CallOptions) => PromiseLike<T>): Promise<T> => {
+    const failures: string[] = [];
+    observer.onCall?.();
+
+    for (let index = 0; index < chain.length; index++) {
+      const entry = chain[index];
+      const nextModel = chain[index + 1]?.spec;
+      const breaker = getCircuitBreaker(entry.provider, policy);
+
+      if (!breaker.tryAcquire()) {
+        emit({ type: 'circuit-skip', model: entry.spec, nextModel, reason: `${entry.provider} circuit open for ${breaker.remainingCooldownMs}ms` });
+        failures.push(`${entry.spec}: circuit open`);
+        continue;
+      }
+
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const result = await callWithTimeout(signal => call(entry, { ...options, abortSignal: signal }), policy.timeoutMs, options.abortSignal);
+          breaker.recordSuccess();
+          observer.onSuccess?.(entry.spec);
+          return result;
+        } catch (error) {
+          if (options.abortSignal?.aborted) {
+            breaker.release();
+            throw error;
+          }
+
+          const { retryable, reason, statusCode } = classifyModelError(error);
+          if (!retryable) {
+            // The request or credentials are wrong for this model, not the provider unhealthy
+            breaker.release();
+          } else if (breaker.recordFailure()) {
+            emit({ type: 'circuit-open', model: entry.spec, statusCode, reason: `${entry.provider} skipped for ${policy.cooldownMs}ms` });
+          }
+
+          const retryAfterMs = getRetryAfterMs(error);
+          const canRetry = retryable && attempt <= policy.maxRetries && breaker.state === 'closed' && (retryAfterMs ?? 0) <= policy.maxDelayMs;
+          if (canRetry) {
+            const delayMs = Math.max(computeBackoffMs(attempt, policy), retryAfterMs ?? 0);
+            emit({ type: 'retry', model: entry.spec, attempt, delayMs, statusCode, reason });
+            await sleep(delayMs, options.abortSignal);
+            continue;
+          }
+
+          failures.push(`${entry.spec}: ${error instanceof Error ? error.message : String(error)}`);
+          if (nextModel) {
+            const why = retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs ? `${reason}, retry-after ${retryAfterMs}ms` : reason;
+            emit({ type: 'fallback', model: entry.spec, nextModel, attempt, statusCode, reason: why });
+          }
+          break;
+        }
+      }
+    }
+
+    emit({ type: 'exhausted', model: primary.spec, reason: `${chain.length} model(s) failed` });
+    // A plain Error so the AI SDK does not retry the whole chain again
+    throw new Error(`All models failed for agent '${agentId}':\n  - ${failures.join('\n  - ')}`);
+  };
+
+  // A final answer produced locally, e.g. once the operation's budget is spent
+  const answerLocally = (text: string) => ({
+    finishReason: 'stop' as const,
+    usage: { promptTokens: 0, completionTokens: 0 },
+    rawCall: { rawPrompt: null, rawSettings: {} },
+    text,
+  });
+
+  return {
+    specificationVersion: 'v1',
+    provider: primary.model.provider,
+    modelId: primary.model.modelId,
+    defaultObjectGenerationMode: primary.model.defaultObjectGenerationMode,
+    supportsImageUrls: chain.every(entry => entry.model.supportsImageUrls !== false),
+    supportsStructuredOutputs: chain.every(entry => entry.model.supportsStructuredOutputs === true),
+    supportsUrl: url => chain.every(entry => entry.model.supportsUrl?.(url) ?? false),
+    doGenerate: async options => {
+      const localAnswer = observer.onBeforeCall?.(options);
+      if (localAnswer !== undefined) return answerLocally(localAnswer);
+      return execute(options, async (entry, callOptions) => {
+        const result = await entry.model.doGenerate(callOptions);
+        observer.onUsage?.(entry, { ...result.usage, providerMetadata: result.providerMetadata, rawBody: result.rawResponse?.body });
+        return result;
+      });
+    },
+    doStream: async options => {
+      const localAnswer = observer.onBeforeCall?.(options);
+      if (localAnswer !== undefined) {
+        const { text, rawCall, ...finish } = answerLocally(localAnswer);
+        const stream = new ReadableStream<LanguageModelV1StreamPart>({
+          start(controller) {
+            controller.enqueue({ type: 'text-delta', textDelta: text });
+            controller.enqueue({ type: 'finish', ...finish });
+            controller.close();
+          },
+        });
+        return { stream, rawCall };
+      }
+      return execute(options, async (entry, callOptions) => {
+        const result = await entry.model.doStream(callOptions);
+        if (!observer.onUsage) return result;
+        const usageTap = new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+          transform(part, controller) {
+            if (part.type === 'finish') observer.onUsage?.(entry, { ...part.usage, providerMetadata: part.providerMetadata });
+            controller.enqueue(part);
+          },
+        });
+        return { ...result, stream: result.stream.pipeThrough(usageTap) };
+      });
+    },
+  };
+};
+
+/**
+ * Get the telemetry recorded for an operation
+ * @param userContext - Operation user context
+ * @returns Telemetry, or undefined when no model call was made
+ */
+export const getModelTelemetry = (userContext: Map<string | symbol, unknown>): ModelTelemetry | undefined =>
+  userContext.get(MODEL_TELEMETRY_KEY) as ModelTelemetry | undefined;
+
+/**
+ * Compact telemetry summary for hook logs
+ * @returns Counters and the most recent events, or undefined when nothing noteworthy happened
+ */
+export const summarizeModelTelemetry = (userContext: Map<string | symbol, unknown>) => {
+  const telemetry = getModelTelemetry(userContext);
+  if (!telemetry) return undefined;
+  return {
+    calls: telemetry.calls,
+    retries: telemetry.retries,
+    fallbacks: telemetry.fallbacks,
+    circuitSkips: telemetry.circuitSkips,
+    lastModel: telemetry.lastModel,
+    recentEvents: telemetry.events.slice(-5).map(({ type, model, nextModel, reason }) => ({ type, model, nextModel, reason })),
+  };
+};
+
+const getOrCreateTelemetry = (userContext: Map<string | symbol, unknown>): ModelTelemetry => {
+  let telemetry = getModelTelemetry(userContext);
+  if (!telemetry) {
+    telemetry = { calls: 0, retries: 0, fallbacks: 0, circuitSkips: 0, events: [] };
+    userContext.set(MODEL_TELEMETRY_KEY, telemetry);
+  }
+  return telemetry;
+};
+
+/**
+ * Observer that records into an operation's `userContext`, where the agent hooks read it,
+ * prices every answered call in the cost ledger and charges it to the operation's budget.
+ * Once the budget is spent, calls are answered with the partial results instead.
+ */
+const createTelemetryObserver = (agentId: string, userContext: Map<string | symbol, unknown>): ModelCallObserver => ({
+  onBeforeCall: options => {
+    const breach = checkBudget(userContext);
+    return breach && buildBudgetStopMessage(breach, options.prompt);
+  },
+  onCall: () => {
+    getOrCreateTelemetry(userContext).calls++;
+  },
+  onEvent: event => {
+    const telemetry = getOrCreateTelemetry(userContext);
+    if (event.type === 'retry') telemetry.retries++;
+    if (event.type === 'fallback') telemetry.fallbacks++;
+    if (event.type === 'circuit-skip') telemetry.circuitSkips++;
+    telemetry.events.push(event);
+    if (telemetry.events.length > MAX_TELEMETRY_EVENTS) telemetry.events.shift();
+  },
+  onSuccess: model => {
+    getOrCreateTelemetry(userContext).lastModel = model;
+  },
+  onUsage: (model, usage) => {
+    const entry = recordModelUsage(agentId, model, usage, userContext);
+    chargeBudget(userContext, entry);
+    recordModelCall(entry);
+  },
+});
+
+/**
+ * Agent model settings with the fallback chain applied
+ * @interface ResilientAgentModel
+ */
+export interface ResilientAgentModel {
+  /** Primary model, `provider:modelId` */
+  spec: string;
+  /** Fallback models in order */
+  fallbacks: string[];
+  /** Dynamic model for `new Agent({ model })` that records telemetry in the operation's userContext */
+  model: ((options: DynamicValueOptions) => LanguageModelV1) & { modelId: string };
+  /** Provider options for the primary model */
+  providerOptions?: ModelProviderOptions;
+}
+
+/**
+ * Environment variable that overrides an agent's fallback models, e.g. `AGENT_FALLBACK_MODELS_SYSTEM_INFO`
+ * @param agentId - Agent id or registration key
+ */
+export const agentFallbackEnvVar = (agentId: string): string => agentEnvVar('AGENT_FALLBACK_MODELS', agentId);
+
+const parseModelList = (value: string): string[] => value.split(',').map(spec => spec.trim()).filter(Boolean);
+
+/**
+ * Resolve an agent's model and fallback chain.
+ * Fallback precedence: `AGENT_FALLBACK_MODELS_<AGENT_ID>`, then the configured list, then
+ * `DEFAULT_FALLBACK_MODELS`. Fallbacks equal to the primary are dropped, and a fallback whose
+ * provider has no credentials is skipped with a warning instead of failing startup.
+ * Provider options apply to the primary model only.
+ * @param agentId - Agent id used for environment overrides and telemetry
+ * @param configured - Model string from code or the topology file
+ * @param configuredFallbacks - Fallback model strings from code or the topology file
+ * @param providerOptions - Options keyed by provider name
+ * @param policy - Retry, timeout and circuit breaker settings
+ * @returns Model settings for `new Agent(...)`
+ * @throws Error if the primary model cannot be resolved
+ */
+export const resolveResilientAgentModel = (
+  agentId: string,
+  configured?: string,
+  configuredFallbacks?: string[],
+  providerOptions?: ModelProviderOptions,
+  policy: ResiliencePolicy = getDefaultResiliencePolicy()
+): ResilientAgentModel => {
+  const primary = resolveAgentModel(agentId, configured, providerOptions);
+  const override = process.env[agentFallbackEnvVar(agentId)];
+  const fallbackSpecs = override !== undefined ? parseModelList(override) : configuredFallbacks ?? parseModelList(env.DEFAULT_FALLBACK_MODELS ?? '');
+
+  const chain: ResolvedModel[] = [primary];
+  for (const spec of fallbackSpecs) {
+    try {
+      const fallback = resolveModel(spec);
+      if (!chain.some(entry => entry.spec === fallback.spec)) chain.push(fallback);
+    } catch (error) {
+      logger.warn("Skipping unavailable fallback model", { agentId, model: spec, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // VoltAgent reads `modelId` from the configured model for history and timeline entries
+  const model = Object.assign(
+    ({ userContext }: DynamicValueOptions) => createResilientModel(agentId, chain, policy, createTelemetryObserver(agentId, userContext)),
+    { modelId: primary.modelId }
+  );
+
+  return { spec: primary.spec, fallbacks: chain.slice(1).map(entry => entry.spec), model, providerOptions: primary.providerOptions };
+};
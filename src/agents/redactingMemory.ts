@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Secret-Redacting Agent Memory
+ *
+ * LibSQL conversation memory that masks secrets in messages, history entries, steps and timeline
+ * events before they are written, so credentials that surface in prompts or tool results (an
+ * environment dump, a token echoed by a command) are never persisted.
+ *
+ * @module RedactingMemory
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import { LibSQLStorage, type MemoryMessage, type NewTimelineEvent } from '@voltagent/core';
+import { redactSecrets } from '../config/redaction.js';
+
+/**
+ * LibSQLStorage with {@link redactSecrets} applied to everything it writes
+ *
+ * @class RedactingLibSQLStorage
+ */
+export class RedactingLibSQLStorage extends LibSQLStorage {
+  async addMessage(message: MemoryMessage, conversationId?: string): Promise<void> {
+    return super.addMessage(redactSecrets(message), conversationId);
+  }
+
+  async addHistoryEntry(key: string, value: any, agentId: string): Promise<void> {
+    return super.addHistoryEntry(key, redactSecrets(value), agentId);
+  }
+
+  async updateHistoryEntry(key: string, value: any, agentId: string): Promise<void> {
+    return super.updateHistoryEntry(key, redactSecrets(value), agentId);
+  }
+
+  async addHistoryStep(key: string, value: any, historyId: string, agentId: string): Promise<void> {
+    return super.addHistoryStep(key, redactSecrets(value), historyId, agentId);
+  }
+
+  async updateHistoryStep(key: string, value: any, historyId: string, agentId: string): Promise<void> {
+    return super.updateHistoryStep(key, redactSecrets(value), historyId, agentId);
+  }
+
+  async addTimelineEvent(key: string, value: NewTimelineEvent, historyId: string, agentId: string): Promise<void> {
+    return super.addTimelineEvent(key, redactSecrets(value), historyId, agentId);
+  }
+}
@@ -3,7 +3,6 @@
 // Generated on 2025-06-08
 import {
   Agent,
-  LibSQLStorage,
   createHooks,
   type AgentHooks, 
   type OnStartHookArgs,
@@ -14,9 +13,12 @@ import {
   type Tool,
 } from "@voltagent/core";
 import { VercelAIProvider } from "@voltagent/vercel-ai";
-import { google } from "@ai-sdk/google";
 import { generateId } from "ai";
-import { logger } from "../config/logger.js";
+import { createModuleLogger } from "../config/logger.js";
+import { RedactingLibSQLStorage } from "./redactingMemory.js";
+import { secretRedactor } from "../config/redaction.js";
+import { resolveResilientAgentModel, summarizeModelTelemetry } from "./modelResilience.js";
+import { endDelegationBudget, startDelegationBudget } from "./budgets.js";
 import { env } from "../config/environment.js";
 import { createAIVoltAgent } from "./aiVoltAgent.js";
 
@@ -31,6 +33,7 @@ import {
   // TODO: 2025-06-08 - Add more coding tools as needed from codingTools.js (e.g., deleteFileTool, createDirectoryTool)
 } from "../tools/codingTools.js";
 
+const logger = createModuleLogger("subAgents");
 
 // TODO: 2025-06-08 - Define more specific context keys if needed for these sub-agents,
 // or reuse/centralize if appropriate. For now, creating a distinct set.
@@ -46,12 +49,12 @@ const NEW_WORKER_CONTEXT_KEYS = {
 /**
  * Creates memory storage for a new worker agent.
  * @param agentType - The type of the agent, used for naming the database file.
- * @returns A LibSQLStorage instance.
+ * @returns A RedactingLibSQLStorage instance.
  * @internal
  */
-function createNewWorkerMemory(agentType: string): LibSQLStorage {
+function createNewWorkerMemory(agentType: string): RedactingLibSQLStorage {
   // Generated on 2025-06-08
-  return new LibSQLStorage({
+  return new RedactingLibSQLStorage({
     url: `file:./.voltagent/${agentType}-memory.db`,
     tablePrefix: `${agentType}_memory`,
     storageLimit: 200, 
@@ -77,6 +80,8 @@ function createNewWorkerHooks(agentType: string): AgentHooks {
       context.userContext.set(NEW_WORKER_CONTEXT_KEYS.AGENT_TYPE, agentType);
       context.userContext.set(NEW_WORKER_CONTEXT_KEYS.START_TIME, Date.now());
       context.userContext.set(NEW_WORKER_CONTEXT_KEYS.OPERATION_ID, context.operationId);
+      // Refuses the task when the delegating session's budget is spent
+      startDelegationBudget(context.userContext, taskId);
 
       logger.info(`[${agent.name} (${agentType})] New Worker task started`, {
         taskId,
@@ -90,12 +95,13 @@ function createNewWorkerHooks(agentType: string): AgentHooks {
       const sessionId = context.userContext.get(NEW_WORKER_CONTEXT_KEYS.SESSION_ID);
       const startTime = context.userContext.get(NEW_WORKER_CONTEXT_KEYS.START_TIME) as number;
       const duration = Date.now() - startTime;
+      const budget = endDelegationBudget(context.userContext)?.usage;
       let outputPreview = "";
       if (typeof output === 'string') {
-        outputPreview = (output as string).slice(0,100);
+        outputPreview = secretRedactor.redactText(output as string).slice(0,100);
       } else if (output !== null && typeof output !== 'undefined') { // Reverted to != null
         try {
-            outputPreview = JSON.stringify(output).slice(0,100);
+            outputPreview = secretRedactor.stringify(output).slice(0,100);
         } catch (e: any) {
             logger.warn(`[${agent.name} (${agentType})] Could not stringify output for preview`, { taskId, error: e.message });
             outputPreview = "[Non-JSONable output]";
@@ -108,6 +114,8 @@ function createNewWorkerHooks(agentType: string): AgentHooks {
           sessionId,
           operationId: context.userContext.get(NEW_WORKER_CONTEXT_KEYS.OPERATION_ID),
           durationMs: duration,
+          modelTelemetry: summarizeModelTelemetry(context.userContext),
+          budget,
           error: error.message,
           timestamp: new Date().toISOString(),
         });
@@ -118,6 +126,8 @@ function createNewWorkerHooks(agentType: string): AgentHooks {
           operationId: context.userContext.get(NEW_WORKER_CONTEXT_KEYS.OPERATION_ID),
           durationMs: duration,
           outputPreview,
+          modelTelemetry: summarizeModelTelemetry(context.userContext),
+          budget,
           success: true,
           timestamp: new Date().toISOString(),
         });
@@ -139,10 +149,10 @@ function createNewWorkerHooks(agentType: string): AgentHooks {
       const toolDuration = toolStartTime ? Date.now() - toolStartTime : 0;
       let toolOutputPreview = "";
       if (typeof output === 'string') {
-        toolOutputPreview = (output as string).slice(0,100); // Changed substring to slice
+        toolOutputPreview = secretRedactor.redactText(output as string).slice(0,100); // Changed substring to slice
       } else if (output !== null && typeof output !== 'undefined') { // Reverted to != null
         try {
-            toolOutputPreview = JSON.stringify(output).slice(0,100); // Changed substring to slice
+            toolOutputPreview = secretRedactor.stringify(output).slice(0,100); // Changed substring to slice
         } catch (e: any) {
             logger.warn(`[${agent.name} (${agentType})] Could not stringify tool output for preview`, { taskId, toolName: tool.name, error: e.message });
             toolOutputPreview = "[Non-JSONable output]";
@@ -190,7 +200,7 @@ function createNewGitAgent(): Agent<any> {
     name: agentType,
     instructions: "You are a specialized Git agent. You can perform a wide range of Git operations using the provided tools, including staging, committing, pushing, pulling, branching, and inspecting repository status. Prioritize using tools from the 'Enhanced Git Toolkit' for security and reliability where possible.",
     llm: new VercelAIProvider(),
-    model: google('gemini-2.0-flash'), // Ensured model name is updated 1.5 is deprecated
+    model: resolveResilientAgentModel(agentType, "google:gemini-2.0-flash").model, // 1.5 is deprecated
     tools,
     memory: createNewWorkerMemory(agentType),
     hooks: createNewWorkerHooks(agentType),
@@ -216,7 +226,7 @@ function createNewCodingAgent(): Agent<any> {
     name: agentType,
     instructions: "You are a specialized Coding agent. You can read, write, and list files, and execute code in a sandboxed environment. Use these tools to implement features, fix bugs, or analyze code as requested.",
     llm: new VercelAIProvider(),
-    model: google('gemini-2.0-flash'), // Ensured model name is updated 1.5 is deprecated
+    model: resolveResilientAgentModel(agentType, "google:gemini-2.0-flash").model, // 1.5 is deprecated
     tools,
     memory: createNewWorkerMemory(agentType),
     hooks: createNewWorkerHooks(agentType),
@@ -12,101 +12,42 @@
  * @since 2025-06-02
  */
 
-import { Agent, LibSQLStorage, createHooks, type OnStartHookArgs, type OnEndHookArgs, type OnToolStartHookArgs, type OnToolEndHookArgs, type OnHandoffHookArgs, createReasoningTools, type Toolkit } from "@voltagent/core";
+import { Agent, createHooks, type OnStartHookArgs, type OnEndHookArgs, type OnToolStartHookArgs, type OnToolEndHookArgs, type OnHandoffHookArgs, createReasoningTools, type OperationContext, type Tool, type Toolkit } from "@voltagent/core";
 import { VercelAIProvider } from "@voltagent/vercel-ai";
-import { google } from "@ai-sdk/google";
 import { generateId } from "ai";
-import { calculatorTool, statisticsAnalysisTool } from "../tools/calculator.js";
-import { dateTimeTool } from "../tools/datetime.js";
-import { systemInfoTool } from "../tools/systemInfo.js";
-import {
-  enhancedGitStatusTool,
-  secureGitScriptTool,
-  gitRepositoryAnalysisTool,
-  gitCloneTool,
-  gitAddTool,
-  gitCommitTool,
-  gitPushTool,
-  gitFetchTool, 
-  gitPullTool,
-  gitMergeTool,
-  gitBranchTool,
-} from "../tools/enhancedGitTool.js";
-import {
-  sandboxedCodeExecutorTool,
-  readFileTool,
-  writeFileTool,
-  deleteFileTool,
-  listDirectoryTool,
-  createDirectoryTool,
-  statTool,
-  moveTool,
-  copyTool,
-  replaceLineInFileTool,
-} from "../tools/codingTools.js";
-import {
-  secureWebProcessorTool,
-  webScrapingManagerTool,
-  webContentValidatorTool,
-} from "../tools/enhancedWebBrowser.js";
-import { 
-  webSearchTool, 
-  extractTextTool, 
-  extractLinksTool, 
-  extractMetadataTool, 
-  extractTablesTool,
-  extractJsonLdTool,
-} from "../tools/webBrowser.js";
-import { logger } from "../config/logger.js";
+import { webSearchTool } from "../tools/webBrowser.js";
+import { allTools, auditLogTool, costReportTool } from "../tools/index.js";
+import { initializeKnowledgeBase } from "../tools/knowledgeBaseTools.js";
+import { createModuleLogger } from "../config/logger.js";
+import { secretRedactor } from "../config/redaction.js";
 import { env } from "../config/environment.js";
 import { GoogleGenerativeAIProviderOptions } from '@ai-sdk/google';
+import { resolveAgentModel } from "./modelRegistry.js";
+import { resolveResilientAgentModel, summarizeModelTelemetry } from "./modelResilience.js";
+import { COST_ATTRIBUTION_KEY, costLedger, endDelegationAttribution, startDelegationAttribution, type CostAttribution } from "./costLedger.js";
+import { checkBudget, endDelegationBudget, getBudgetState, startDelegationBudget, startSessionBudget, summarizeBudget } from "./budgets.js";
 import { 
   createSupervisorRetriever, 
   type SupervisorRetriever
 } from "./supervisorRetriever.js";
+import type { ContextStorageConfig } from "./supervisorContextStorage.js";
+import { createEmbeddingProvider } from "./documentEmbeddings.js";
+import { readKnowledgeBaseSnapshot } from "./knowledgeBaseSnapshot.js";
+import { createToolRegistry, loadAgentTopology, resolveWorkerTools } from "./agentTopology.js";
+import { createFanOutTool, type FanOutTracker } from "./delegationFanOut.js";
+import { createTaskPlanTools } from "./taskPlan.js";
+import { createTaskPlanStorage, type TaskPlanStorageConfig } from "./taskPlanStorage.js";
+import { workflowCheckpointer } from "./workflowCheckpoints.js";
+import { applyApprovalGate } from "./toolApproval.js";
+import { POLICY_CALLER_KEY, applyToolPolicy } from "./toolPolicy.js";
+import { AUDIT_COORDINATOR_KEY, applyAuditLog } from "./auditLog.js";
+import { RedactingLibSQLStorage } from "./redactingMemory.js";
+import { agentUsageAttributes, endAgentSpan, endToolSpan, startAgentSpan, startToolSpan } from "./tracing.js";
+import { recordAgentEnd, recordAgentStart, recordToolEnd, recordToolStart } from "./metrics.js";
 import { supervisorPrompts } from "../prompts/index.js";
 import { workerPrompts } from "../prompts/index.js";
-import {
-  navigationTool,
-  screenshotTool,
-  interactionTools,
-  responseTools,
-  outputTools,
-  visiblePageTools,
-} from "../tools/playwright/index.js";
-import {
-  getFileContentTool,
-  listRepositoryContentsTool,
-  listPullRequestsTool,
-  getPullRequestDetailsTool,
-  createPullRequestTool,
-  mergePullRequestTool,
-  commentOnPullRequestTool,
-  listPullRequestFilesTool,
-  createRepositoryTool,
-  deleteRepositoryTool,
-  listRepositoryHooksTool,
-  createRepositoryHookTool
-} from "../tools/githubTool.js";
-import {
-    runIsolatedCodeTool,
-    lintCodeTool,
-    identifySecurityAntiPatternsTool,
-    analyzeCodeComplexityTool,
-    findCodeDuplicatesTool
-} from "../tools/debugTools.js";
-import { ingestDocumentTool, queryKnowledgeBaseTool, summarizeDocumentTool, listKnowledgeBaseDocumentsTool } from "../tools/knowledgeBaseTools.js";
-import { readDataFromFileTool, analyzeCsvDataTool, writeDataToFileTool } from "../tools/dataTools.js";
-import { 
-  deployServiceTool,
-  listContainersTool,
-  stopContainerTool,
-  removeContainerTool,
-  getContainerLogsTool,
-  inspectContainerTool,
-  listImagesTool,
-  buildImageTool,
-} from "../tools/cloudTools.js";
+
+const logger = createModuleLogger("supervisorAgent");
 
 /**
  * Context symbols for type-safe userContext keys
@@ -142,6 +83,17 @@ const CONTEXT_KEYS = {
   RETRIEVAL_HISTORY: Symbol("retrievalHistory"), // Supervisor's retrieval history
 } as const;
 
+/**
+ * Logger bound to the agent, operation and supervisor session of a hook call, so the records of a
+ * delegated task can be followed together with the supervisor's
+ */
+const operationLogger = (agentName: string, context: OperationContext) =>
+  logger.child({
+    agentName,
+    operationId: context.operationId,
+    sessionId: (context.userContext.get(COST_ATTRIBUTION_KEY) as CostAttribution | undefined)?.sessionId,
+  });
+
 /**
  * Create enhanced supervisor-specific hooks implementing VoltAgent best practices
  * Follows official VoltAgent patterns for context management and delegation tracking
@@ -182,6 +134,22 @@ const createSupervisorHooks = () => createHooks({
       resultsCount: number;
       cacheHit: boolean;
     }>);
+    // Model calls by the supervisor and its workers are priced against this session and workflow
+    context.userContext.set(COST_ATTRIBUTION_KEY, { sessionId, workflowId } satisfies CostAttribution);
+    // Session budget shared with every worker this session delegates to
+    startSessionBudget(context.userContext, sessionId);
+    // Tool policies of delegated workers are evaluated for the user this session runs for. The
+    // userId comes from the client unauthenticated, so caller and role rules are advisory only
+    if (context.historyEntry.userId && !context.userContext.has(POLICY_CALLER_KEY)) {
+      context.userContext.set(POLICY_CALLER_KEY, context.historyEntry.userId);
+    }
+    // Audit records of worker tool calls start their delegation chain at this agent
+    context.userContext.set(AUDIT_COORDINATOR_KEY, agent.name);
+    // Checkpointed after every tool call so the workflow can be resumed after a restart; refused while shutting down
+    workflowCheckpointer.begin(workflowId, agent.name, context, sessionId);
+    // Root of the workflow's trace; delegated workers' spans nest under the tool calls that started them
+    startAgentSpan(agent.name, context, { "ai_volt.session_id": sessionId, "ai_volt.workflow_id": workflowId });
+    recordAgentStart(context);
     
     // Enhanced context correlation for advanced tracking
     context.userContext.set("supervisorSessionMetadata", {
@@ -191,7 +159,8 @@ const createSupervisorHooks = () => createHooks({
       sessionVersion: "2.0"
     });
     
-    logger.info(`[Hook] Enhanced supervisor session started`, {
+    const log = operationLogger(agent.name, context);
+    log.info(`[Hook] Enhanced supervisor session started`, {
       sessionId,
       delegationId,
       workflowId,
@@ -204,12 +173,13 @@ const createSupervisorHooks = () => createHooks({
 
   onEnd: async (args: OnEndHookArgs) => {
     const { agent, output, error, context } = args;
+    const log = operationLogger(agent.name, context);
     
-    // Enhanced LLM usage tracking with detailed cost analysis
-    const llmUsage = extractLLMUsage(context);
-    if (llmUsage) {
-      trackLLMUsage(agent, context, llmUsage);
-    }
+    // Per-model cost of the session, split between the supervisor and each worker
+    trackLLMUsage(agent, context);
+    workflowCheckpointer.end(context.userContext, output && ("text" in output ? output.text : output.object), error);
+    endAgentSpan(context, error, agentUsageAttributes(output, getBudgetState(context.userContext)?.session.usage));
+    recordAgentEnd(agent.name, context, error);
     
     // Enhanced session summary with context correlation
     logEnhancedSessionSummary({ agent, output, error, context });
@@ -225,9 +195,9 @@ const createSupervisorHooks = () => createHooks({
         activeDelegations: (context.userContext.get(CONTEXT_KEYS.ACTIVE_DELEGATIONS) as Map<string, any>)?.size || 0
       };
       
-      logger.error(`[Hook] Enhanced supervisor operation failed`, errorContext);
+      log.error(`[Hook] Enhanced supervisor operation failed`, errorContext);
     } else {
-      logger.info(`[Hook] Enhanced supervisor operation completed successfully`, {
+      log.info(`[Hook] Enhanced supervisor operation completed successfully`, {
         operationId: context.operationId,
         sessionId: context.userContext.get(CONTEXT_KEYS.SESSION_ID),
         successfulDelegations: (context.userContext.get(CONTEXT_KEYS.ACTIVE_DELEGATIONS) as Map<string, any>)?.size || 0
@@ -237,10 +207,14 @@ const createSupervisorHooks = () => createHooks({
 
   onToolStart: async (args: OnToolStartHookArgs) => {
     const { agent, tool, context } = args;
+    const log = operationLogger(agent.name, context);
     
     const sessionId = context.userContext.get(CONTEXT_KEYS.SESSION_ID);
     const delegationId = context.userContext.get(CONTEXT_KEYS.DELEGATION_ID);
     const workflowId = context.userContext.get(CONTEXT_KEYS.WORKFLOW_ID);
+    workflowCheckpointer.stepStarted(context.userContext, agent.name, tool.name);
+    startToolSpan(agent.name, tool.name, context);
+    recordToolStart(tool.name, context);
     
     // Enhanced delegation tracking with status management
     if (tool.name === "delegate_task") {
@@ -262,7 +236,10 @@ const createSupervisorHooks = () => createHooks({
         status: 'active'
       });
       
-      logger.info(`[Hook] Enhanced delegation started`, {
+      // A spent session budget makes the worker refuse the task and the supervisor's next call wrap up
+      const budgetBreach = checkBudget(context.userContext);
+      
+      log.info(`[Hook] Enhanced delegation started`, {
         sessionId,
         delegationId,
         workflowId,
@@ -270,6 +247,7 @@ const createSupervisorHooks = () => createHooks({
         toolName: tool.name,
         delegationSequence: newCount,
         totalActiveDelegations: activeDelegations.size,
+        budgetExceeded: budgetBreach?.message,
         timestamp: new Date().toISOString()
       });
     } else if (tool.name === "supervisor_search") {
@@ -286,7 +264,7 @@ const createSupervisorHooks = () => createHooks({
       });
       context.userContext.set(CONTEXT_KEYS.RETRIEVAL_HISTORY, history);
       
-      logger.debug(`[Hook] Enhanced retrieval started`, {
+      log.debug(`[Hook] Enhanced retrieval started`, {
         sessionId,
         retrievalSequence: count,
         operationId: context.operationId,
@@ -294,7 +272,7 @@ const createSupervisorHooks = () => createHooks({
       });
     } else {
       // Track other tool usage by supervisor with enhanced context
-      logger.debug(`[Hook] Enhanced supervisor tool started`, {
+      log.debug(`[Hook] Enhanced supervisor tool started`, {
         sessionId,
         delegationId,
         workflowId,
@@ -308,6 +286,10 @@ const createSupervisorHooks = () => createHooks({
 
   onToolEnd: async (args: OnToolEndHookArgs) => {
     const { agent, tool, output, error, context } = args;
+    const log = operationLogger(agent.name, context);
+    workflowCheckpointer.stepFinished(context.userContext, agent.name, tool.name, output, error);
+    endToolSpan(tool.name, context, error);
+    recordToolEnd(agent.name, tool.name, context, error);
     
     if (tool.name === 'delegate_task') {
       handleEnhancedDelegationEnd({ agent, tool, output, error, context });
@@ -319,7 +301,7 @@ const createSupervisorHooks = () => createHooks({
       const workflowId = context.userContext.get(CONTEXT_KEYS.WORKFLOW_ID);
       
       if (error) {
-        logger.warn(`[Hook] Enhanced supervisor tool failed`, {
+        log.warn(`[Hook] Enhanced supervisor tool failed`, {
           sessionId,
           workflowId,
           operationId: context.operationId,
@@ -327,7 +309,7 @@ const createSupervisorHooks = () => createHooks({
           error: error instanceof Error ? error.message : String(error),
         });
       } else {
-        logger.debug(`[Hook] Enhanced supervisor tool completed`, {
+        log.debug(`[Hook] Enhanced supervisor tool completed`, {
           sessionId,
           toolName: tool.name,
           outputSize: typeof output === "string" ? output.length : JSON.stringify(output || {}).length
@@ -344,7 +326,7 @@ const createSupervisorHooks = () => createHooks({
             outputType = 'object';
         }
     }
-    logger.debug(`Enhanced output analysis: ${outputType}`);
+    log.debug(`Enhanced output analysis: ${outputType}`);
   },
 
   onHandoff: async (args: OnHandoffHookArgs) => {
@@ -363,8 +345,6 @@ const createSupervisorHooks = () => createHooks({
     });
   }
 });
-   
-});
 
 /**
  * Create enhanced supervisor hooks that integrate with the retriever following VoltAgent best practices
@@ -384,7 +364,7 @@ const createSupervisorHooksWithRetriever = (baseHooks: ReturnType<typeof createH
       const sessionId = context.userContext.get(CONTEXT_KEYS.SESSION_ID) as string;
       if (sessionId) {
         // Initialize retriever session correlation
-        retriever.addCapabilityContext({
+        await retriever.addCapabilityContext({
           agentType: 'supervisor',
           capability: 'context-retrieval',
           description: 'Multi-agent coordination context retrieval and correlation',
@@ -406,7 +386,7 @@ const createSupervisorHooksWithRetriever = (baseHooks: ReturnType<typeof createH
         
         if (workflowId && activeDelegations && activeDelegations.size > 0) {
           try {
-            retriever.addWorkflowContext({
+            await retriever.addWorkflowContext({
               description: `Multi-agent coordination workflow with ${activeDelegations.size} delegations and ${retrievalCount} retrievals`,
               steps: Array.from(activeDelegations.keys()),
               workflowId,
@@ -415,7 +395,7 @@ const createSupervisorHooksWithRetriever = (baseHooks: ReturnType<typeof createH
             });
             
             // Add session performance metrics to retriever
-            retriever.addDelegationContext({
+            await retriever.addDelegationContext({
               agentType: 'supervisor',
               task: 'session-completion',
               result: `Successfully coordinated ${activeDelegations.size} delegations with ${retrievalCount} context retrievals`,
@@ -467,7 +447,7 @@ const thinkOnlyToolkit: Toolkit = createReasoningTools({
  * Create memory storage for supervisor coordination history
  */
 const createSupervisorMemory = () => {
-  return new LibSQLStorage({
+  return new RedactingLibSQLStorage({
     url: "file:./.voltagent/supervisor-memory.db", // Always use local SQLite for now
     tablePrefix: "supervisor_memory",
     storageLimit: 500, // Keep coordination history
@@ -476,12 +456,169 @@ const createSupervisorMemory = () => {
 };
 
 
+/**
+ * Create the storage backend configuration for the supervisor retriever
+ */
+const createSupervisorContextStorageConfig = (
+  tablePrefix = "supervisor_context",
+  maxSize: number = SUPERVISOR_CONFIG.RETRIEVER.STORE_MAX_SIZE
+): ContextStorageConfig => {
+  if (env.SUPERVISOR_CONTEXT_STORAGE === "libsql") {
+    return {
+      backend: "libsql",
+      url: env.DATABASE_URL ?? "file:./.voltagent/supervisor-context.db",
+      authToken: env.DATABASE_AUTH_TOKEN,
+      tablePrefix,
+      maxSize,
+    };
+  }
+  return { backend: "memory", maxSize };
+};
+
+/**
+ * Build the task plan storage configuration from the environment
+ */
+const createTaskPlanStorageConfig = (): TaskPlanStorageConfig =>
+  env.TASK_PLAN_STORAGE === "libsql"
+    ? {
+        backend: "libsql",
+        url: env.DATABASE_URL ?? "file:./.voltagent/task-plans.db",
+        authToken: env.DATABASE_AUTH_TOKEN,
+      }
+    : { backend: "memory" };
+
+/**
+ * Knowledge base retriever shared by the knowledge base tools
+ */
+let knowledgeBaseRetriever: SupervisorRetriever | null = null;
+
+/**
+ * Create the knowledge base retriever once and hand it to the knowledge base tools.
+ * Documents are kept until explicitly deleted and the retention sweep skips them, so none is scheduled.
+ * Abstractive summaries use the same provider and model as the KnowledgeBaseAgent.
+ * @param summarizerModel - Model string configured for the KnowledgeBaseAgent, if any
+ */
+const ensureKnowledgeBase = (summarizerModel?: string): SupervisorRetriever => {
+  if (!knowledgeBaseRetriever) {
+    knowledgeBaseRetriever = createSupervisorRetriever({
+      maxResults: SUPERVISOR_CONFIG.KNOWLEDGE_BASE.MAX_RESULTS,
+      searchCacheSize: SUPERVISOR_CONFIG.RETRIEVER.SEARCH_CACHE_SIZE,
+      storage: createSupervisorContextStorageConfig("knowledge_base"),
+      maxDocumentChunks: SUPERVISOR_CONFIG.KNOWLEDGE_BASE.MAX_DOCUMENT_CHUNKS,
+      retention: { cleanupIntervalMs: 0 },
+      embeddings: createEmbeddingProvider(
+        env.KNOWLEDGE_BASE_EMBEDDINGS === "hashing"
+          ? { provider: "hashing" }
+          : {
+              provider: "transformers",
+              model: env.KNOWLEDGE_BASE_EMBEDDING_MODEL,
+              localModelPath: env.KNOWLEDGE_BASE_MODEL_PATH,
+            }
+      ),
+      hybridAlpha: env.KNOWLEDGE_BASE_HYBRID_ALPHA,
+      toolName: "knowledge_base_search",
+      toolDescription: "Search documents ingested into the knowledge base",
+    });
+    initializeKnowledgeBase(knowledgeBaseRetriever, {
+      summarizer: { llm: new VercelAIProvider(), model: resolveAgentModel("knowledge-base", summarizerModel).model },
+    });
+    if (env.KNOWLEDGE_BASE_SNAPSHOT_PATH) {
+      void seedKnowledgeBase(knowledgeBaseRetriever, env.KNOWLEDGE_BASE_SNAPSHOT_PATH);
+    }
+  }
+  return knowledgeBaseRetriever;
+};
+
+/**
+ * Import a snapshot into the knowledge base if it is still empty, so a deployment can ship
+ * a pre-built knowledge base and a wiped one is restored on the next start
+ * @param retriever - Knowledge base retriever
+ * @param snapshotPath - Snapshot file path
+ */
+const seedKnowledgeBase = async (retriever: SupervisorRetriever, snapshotPath: string): Promise<void> => {
+  try {
+    if ((await retriever.listDocuments()).length > 0) {
+      logger.debug("Knowledge base already populated, skipping snapshot seed", { snapshotPath });
+      return;
+    }
+    const { manifest, entries } = await readKnowledgeBaseSnapshot(snapshotPath);
+    await retriever.importEntries(entries, "merge");
+    logger.info("Seeded knowledge base from snapshot", {
+      snapshotPath,
+      documentCount: manifest.documentCount,
+      exportedAt: manifest.exportedAt,
+    });
+  } catch (error) {
+    logger.error("Failed to seed knowledge base from snapshot", {
+      snapshotPath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+/**
+ * Track each fanned-out subtask in the supervisor's active delegations, like a `delegate_task` call
+ */
+const fanOutTracker: FanOutTracker = {
+  onBranchStart: (branch, userContext) => {
+    const delegationCount = (userContext.get(CONTEXT_KEYS.DELEGATION_COUNT) as number) || 0;
+    userContext.set(CONTEXT_KEYS.DELEGATION_COUNT, delegationCount + 1);
+
+    const activeDelegations = userContext.get(CONTEXT_KEYS.ACTIVE_DELEGATIONS) as Map<string, any> | undefined;
+    activeDelegations?.set(branch.id, {
+      agentType: branch.agent,
+      taskId: branch.id,
+      startTime: Date.now(),
+      description: branch.task.slice(0, 100),
+      status: 'active'
+    });
+
+    logger.info(`[Hook] Fan-out delegation started`, {
+      sessionId: userContext.get(CONTEXT_KEYS.SESSION_ID),
+      fanOutId: branch.fanOutId,
+      taskId: branch.id,
+      agent: branch.agent,
+      delegationSequence: delegationCount + 1,
+      totalActiveDelegations: activeDelegations?.size ?? 0
+    });
+  },
+  onBranchEnd: (branch, result, userContext) => {
+    const activeDelegations = userContext.get(CONTEXT_KEYS.ACTIVE_DELEGATIONS) as Map<string, any> | undefined;
+    const delegation = activeDelegations?.get(branch.id);
+    if (delegation) {
+      delegation.status = result.status === 'success' ? 'completed' : 'failed';
+      delegation.duration = result.durationMs;
+      delegation.endTime = Date.now();
+    }
+
+    logger.info(`[Hook] Fan-out delegation ${result.status === 'success' ? 'completed' : 'failed'}`, {
+      sessionId: userContext.get(CONTEXT_KEYS.SESSION_ID),
+      fanOutId: branch.fanOutId,
+      taskId: branch.id,
+      agent: result.agent,
+      duration: result.durationMs,
+      costUsd: costLedger.query({ delegationId: `${userContext.get(CONTEXT_KEYS.SESSION_ID)}/${branch.id}` }).total.cost,
+      error: result.error
+    });
+  }
+};
+
 /**
  * Create and configure the supervisor agent
  */
 export const createSupervisorAgent = async () => {
+  const { spec, fallbacks, model, providerOptions } = resolveResilientAgentModel("supervisor", undefined, undefined, {
+    google: {
+      thinkingConfig: {
+        thinkingBudget: SUPERVISOR_CONFIG.MODELS.THINKING_BUDGET,
+        includeThoughts: false,
+      },
+      responseModalities: ["TEXT", "IMAGE"],
+    } satisfies GoogleGenerativeAIProviderOptions,
+  });
   logger.info("Creating Supervisor agent", {
-    model: "gemini-2.5-flash-preview-05-20",
+    model: spec,
+    fallbackModels: fallbacks,
     role: "supervisor",
     environment: env.NODE_ENV
   });
@@ -496,6 +633,11 @@ export const createSupervisorAgent = async () => {
       defaultMinScore: SUPERVISOR_CONFIG.RETRIEVER.DEFAULT_MIN_SCORE,
       storeMaxSize: SUPERVISOR_CONFIG.RETRIEVER.STORE_MAX_SIZE,
       searchCacheSize: SUPERVISOR_CONFIG.RETRIEVER.SEARCH_CACHE_SIZE,
+      storage: createSupervisorContextStorageConfig(),
+      retention: {
+        maxAge: SUPERVISOR_CONFIG.RETRIEVER.RETENTION_MAX_AGE,
+        cleanupIntervalMs: SUPERVISOR_CONFIG.RETRIEVER.CLEANUP_INTERVAL,
+      },
       toolName: "supervisor_search",     // tool name exposed to LLM
       toolDescription: "Fetch recent supervisor context with in-memory LRU caching",
     });
@@ -511,33 +653,26 @@ export const createSupervisorAgent = async () => {
       name: "SupervisorAgent",
       instructions: supervisorPrompts.standard(),
       llm: new VercelAIProvider(),
-      model: google('gemini-2.5-flash-preview-05-20'),
-      providerOptions: {
-        google: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-            includeThoughts: false,
-          },
-          responseModalities: ["TEXT", "IMAGE"],
-        } satisfies GoogleGenerativeAIProviderOptions,
-      },
+      model,
+      providerOptions,
       tools: [
         thinkOnlyToolkit,
-        webSearchTool,
-        retriever.tool,                // Enable semantic context retrieval
-      ],
-      subAgents: [
-        workers.systemInfo,
-        workers.fileOps,
-        workers.git,
-        workers.browser,
-        workers.coding,
-        workers.debug,
-        workers.research,
-        workers.knowledgeBase,
-        workers.data,
-        workers.cloud,
+        // Every call is checked against the tool permission policy and audited
+        ...guardTools([
+          webSearchTool,
+          costReportTool,              // Spend per agent, session and delegation
+          auditLogTool,                // Tool invocation audit records
+          createFanOutTool(Object.values(workers), "SupervisorAgent", fanOutTracker), // Parallel delegation
+          ...createTaskPlanTools({     // Dependency-ordered multi-step plans
+            workers: Object.values(workers),
+            storage: createTaskPlanStorage(createTaskPlanStorageConfig()),
+            retriever,
+            sourceName: "SupervisorAgent",
+          }),
+          retriever.tool,              // Enable semantic context retrieval
+        ], "SupervisorAgent"),
       ],
+      subAgents: Object.values(workers),
       memory: memoryStorage,
       hooks: enhancedHooks,
     });
@@ -560,14 +695,23 @@ export const createSupervisorAgent = async () => {
   }
 };
 
+/**
+ * Guard an agent's tools: every call is audited, checked against the tool permission policy,
+ * and high-risk tools wait for human approval
+ * @param tools - The agent's tools
+ * @param agentName - Agent the tools are given to
+ */
+const guardTools = (tools: Tool<any>[], agentName: string): Tool<any>[] =>
+  applyAuditLog(applyToolPolicy(applyApprovalGate(tools, agentName), agentName), agentName);
+
 /**
  * Create memory storage for worker agent operations
  */
-const createWorkerMemory = (agentType: string) => {
-  return new LibSQLStorage({
+const createWorkerMemory = (agentType: string, storageLimit = 200) => {
+  return new RedactingLibSQLStorage({
     url: `file:./.voltagent/${agentType}-memory.db`, // Always use local SQLite for now
     tablePrefix: `${agentType}_memory`,
-    storageLimit: 200, // Moderate history for specialized tasks
+    storageLimit, // Moderate history for specialized tasks by default
     debug: env.NODE_ENV === "development"
   });
 };
@@ -575,7 +719,7 @@ const createWorkerMemory = (agentType: string) => {
 /**
  * Create worker-specific hooks for specialized agent monitoring
  */
-const createWorkerHooks = (agentType: string) => createHooks({
+const createWorkerHooks = (agentType: string, agentId: string) => createHooks({
   onStart: async (args: OnStartHookArgs) => {
     const { agent, context } = args;
     const taskId = `${agentType}-task-${generateId()}`;
@@ -585,8 +729,32 @@ const createWorkerHooks = (agentType: string) => createHooks({
     context.userContext.set("sessionId", sessionId);
     context.userContext.set("agentType", agentType);
     context.userContext.set("startTime", Date.now());
+    // Direct calls are priced against this session; `delegate_task` runs share the supervisor's
+    // context, so each gets its own attribution copy, and fanned-out tasks already carry one
+    let attribution = context.userContext.get(COST_ATTRIBUTION_KEY) as CostAttribution | undefined;
+    if (!attribution) {
+      attribution = { sessionId };
+      context.userContext.set(COST_ATTRIBUTION_KEY, attribution);
+    } else if (!attribution.delegationId) {
+      attribution = startDelegationAttribution(context.userContext, agentId, `${attribution.sessionId}/${taskId}`);
+    }
+    context.systemContext.set(COST_ATTRIBUTION_KEY, attribution);
+    // Delegated tasks get their own budget within the supervisor's session; throwing refuses the task
+    if (getBudgetState(context.userContext)) {
+      startDelegationBudget(context.userContext, taskId);
+    } else {
+      startSessionBudget(context.userContext, sessionId);
+    }
+    startAgentSpan(agent.name, context, {
+      "ai_volt.task_id": taskId,
+      "ai_volt.agent_type": agentType,
+      "ai_volt.session_id": attribution.sessionId,
+      "ai_volt.delegation_id": attribution.delegationId,
+    });
+    recordAgentStart(context);
     
-    logger.info(`[${agent.name}] Specialized task started`, {
+    const log = operationLogger(agent.name, context);
+    log.info(`[${agent.name}] Specialized task started`, {
       taskId,
       sessionId,
       agentType,
@@ -597,19 +765,30 @@ const createWorkerHooks = (agentType: string) => createHooks({
 
   onEnd: async (args: OnEndHookArgs) => {
     const { agent, output, error, context } = args;
+    const log = operationLogger(agent.name, context);
     const taskId = context.userContext.get("taskId");
     const sessionId = context.userContext.get("sessionId");
     const agentType = context.userContext.get("agentType");
     const startTime = context.userContext.get("startTime") as number;
     const duration = Date.now() - startTime;
+    const delegation = endDelegationBudget(context.userContext);
+    const budget = delegation?.usage ?? summarizeBudget(context.userContext);
+    const attribution = context.systemContext.get(COST_ATTRIBUTION_KEY) as CostAttribution | undefined;
+    if (attribution) endDelegationAttribution(context.userContext, agentId, attribution);
+    const costUsd = attribution?.delegationId ? costLedger.query({ delegationId: attribution.delegationId }).total.cost : undefined;
+    endAgentSpan(context, error, agentUsageAttributes(output, budget));
+    recordAgentEnd(agent.name, context, error, delegation !== undefined);
 
     if (error) {
-      logger.error(`[${agent.name}] Specialized task failed`, {
+      log.error(`[${agent.name}] Specialized task failed`, {
         taskId,
         sessionId,
         agentType,
         operationId: context.operationId,
         duration,
+        modelTelemetry: summarizeModelTelemetry(context.userContext),
+        budget,
+        costUsd,
         error: error instanceof Error ? error.message : String(error),
       });
     } else {
@@ -620,13 +799,16 @@ const createWorkerHooks = (agentType: string) => createHooks({
         outputType = "object";
       }
       
-      logger.info(`[${agent.name}] Specialized task completed`, {
+      log.info(`[${agent.name}] Specialized task completed`, {
         taskId,
         sessionId,
         agentType,
         operationId: context.operationId,
         duration,
         outputType,
+        modelTelemetry: summarizeModelTelemetry(context.userContext),
+        budget,
+        costUsd,
         success: true
       });
     }
@@ -634,33 +816,45 @@ const createWorkerHooks = (agentType: string) => createHooks({
 
   onToolStart: async (args: OnToolStartHookArgs) => {
     const { agent, tool, context } = args;
+    const log = operationLogger(agent.name, context);
     const taskId = context.userContext.get("taskId");
     const sessionId = context.userContext.get("sessionId");
     const agentType = context.userContext.get("agentType");
     
     context.userContext.set(`toolStart-${tool.name}`, Date.now());
+    // Worker tool calls are steps of the supervisor workflow that delegated the task, if any
+    workflowCheckpointer.stepStarted(context.userContext, agent.name, tool.name);
+    startToolSpan(agent.name, tool.name, context);
+    recordToolStart(tool.name, context);
+    // The tool still runs; a breach recorded here stops the worker at its next model call
+    const budgetBreach = checkBudget(context.userContext);
     
-    logger.info(`[${agent.name}] Specialized tool execution started`, {
+    log.info(`[${agent.name}] Specialized tool execution started`, {
       taskId,
       sessionId,
       agentType,
       operationId: context.operationId,
       toolName: tool.name,
       specialization: agentType,
+      budgetExceeded: budgetBreach?.message,
       timestamp: new Date().toISOString()
     });
   },
 
   onToolEnd: async (args: OnToolEndHookArgs) => {
     const { agent, tool, output, error, context } = args;
+    const log = operationLogger(agent.name, context);
     const taskId = context.userContext.get("taskId");
     const sessionId = context.userContext.get("sessionId");
     const agentType = context.userContext.get("agentType");
     const toolStartTime = context.userContext.get(`toolStart-${tool.name}`) as number;
     const toolDuration = toolStartTime ? Date.now() - toolStartTime : 0;
+    workflowCheckpointer.stepFinished(context.userContext, agent.name, tool.name, output, error);
+    endToolSpan(tool.name, context, error);
+    recordToolEnd(agent.name, tool.name, context, error);
 
     if (error) {
-      logger.error(`[${agent.name}] Specialized tool execution failed`, {
+      log.error(`[${agent.name}] Specialized tool execution failed`, {
         taskId,
         sessionId,
         agentType,
@@ -670,365 +864,64 @@ const createWorkerHooks = (agentType: string) => createHooks({
         error: error instanceof Error ? error.message : String(error),
       });
     } else {
-      logger.info(`[${agent.name}] Specialized tool execution completed`, {
+      log.info(`[${agent.name}] Specialized tool execution completed`, {
         taskId,
         sessionId,
         agentType,
         operationId: context.operationId,
         toolName: tool.name,
         duration: toolDuration,
-        outputPreview: typeof output === "string" ? output.substring(0, 100) : JSON.stringify(output).substring(0, 100)
+        outputPreview: (typeof output === "string" ? secretRedactor.redactText(output) : secretRedactor.stringify(output)).substring(0, 100)
       });
     }
   },
 });
 
 /**
- * Create specialized worker agents
- * @returns Collection of specialized worker agents for different task types
+ * Create specialized worker agents from the declarative topology file.
+ * Tool names are resolved against the `allTools` registry before any agent is built,
+ * so an unknown tool fails startup.
+ * @returns Worker agents keyed by their topology id
  */
-export const createWorkerAgents = async () => {
-  logger.info("Creating specialized worker agents");
+export const createWorkerAgents = async (): Promise<Record<string, Agent<{ llm: VercelAIProvider }>>> => {
+  logger.info("Creating specialized worker agents", { topologyPath: env.AGENT_TOPOLOGY_PATH });
 
   try {
-    // System Info worker agent
-    const systemInfoWorker = new Agent({
-      name: "SystemInfoAgent",
-      purpose: "Provides system monitoring, performance checks, and diagnostics.",
-      instructions: workerPrompts.generate("systemInfo")(),
-      llm: new VercelAIProvider(),
-      model: google('gemini-2.5-flash-preview-05-20'),
-      providerOptions: {
-        google: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-            includeThoughts: false,
-          },
-          responseModalities: ["TEXT", "IMAGE"],
-        } satisfies GoogleGenerativeAIProviderOptions,
-      },
-      tools: [systemInfoTool, dateTimeTool, calculatorTool, statisticsAnalysisTool],
-      memory: createWorkerMemory("systeminfo"),
-      hooks: createWorkerHooks("systeminfo"),
-    });
-
-    // File Operations worker agent - uses the coding tools for file operations
-    const fileOpsWorker = new Agent({
-      name: "FileOpsAgent",
-      purpose: "Manages complex file operations and file management tasks.",
-      instructions: workerPrompts.generate("fileOps")(),
-      llm: new VercelAIProvider(),
-      model: google('gemini-2.5-flash-preview-05-20'),
-      providerOptions: {
-        google: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-            includeThoughts: false,
-          },
-          responseModalities: ["TEXT", "IMAGE"],
-        } satisfies GoogleGenerativeAIProviderOptions,
-      },
-      tools: [
-        readFileTool,
-        writeFileTool,
-        deleteFileTool,
-        listDirectoryTool,
-        createDirectoryTool,
-        statTool,
-        moveTool,
-        copyTool,
-        replaceLineInFileTool,
-      ],
-      memory: createWorkerMemory("fileops"),
-      hooks: createWorkerHooks("fileops"),
-    });
-
-    // Git worker agent - uses git tools
-    const gitWorker = new Agent({
-      name: "GitAgent",
-      purpose: "Handles Git version control operations and repository management.",
-      instructions: workerPrompts.generate("git")(),
-      llm: new VercelAIProvider(),
-      model: google('gemini-2.5-flash-preview-05-20'),
-      providerOptions: {
-        google: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-            includeThoughts: false,
-          },
-          responseModalities: ["TEXT", "IMAGE"],
-        } satisfies GoogleGenerativeAIProviderOptions,
-      },
-      tools: [
-        enhancedGitStatusTool,
-        secureGitScriptTool,
-        gitRepositoryAnalysisTool,
-        gitCloneTool,
-        gitAddTool,
-        gitCommitTool,
-        gitPushTool,
-        gitFetchTool,
-        gitPullTool,
-        gitMergeTool,
-        gitBranchTool,
-        getFileContentTool,
-        listRepositoryContentsTool,
-        listPullRequestsTool,
-        getPullRequestDetailsTool,
-        createPullRequestTool,
-        mergePullRequestTool,
-        commentOnPullRequestTool,
-        listPullRequestFilesTool,
-        createRepositoryTool,
-        deleteRepositoryTool,
-        listRepositoryHooksTool,
-        createRepositoryHookTool
-      ],
-      memory: createWorkerMemory("git"),
-      hooks: createWorkerHooks("git"),
-    });
-
-    // Browser worker agent - uses web browser tools
-    const researchWorker = new Agent({
-      name: "ResearchAgent",
-      purpose: "Conducts web searching, browsing, content extraction, and web scraping.",
-      instructions: workerPrompts.generate("research")(),
-      llm: new VercelAIProvider(),
-      model: google('gemini-2.5-flash-preview-05-20'),
-      providerOptions: {
-        google: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-            includeThoughts: false,
-          },
-          responseModalities: ["TEXT", "IMAGE"],
-        } satisfies GoogleGenerativeAIProviderOptions,
-      },
-      tools: [
-        webSearchTool,
-        extractTextTool,
-        extractLinksTool,
-        extractMetadataTool,
-        extractTablesTool,
-        extractJsonLdTool,
-        secureWebProcessorTool,
-        webScrapingManagerTool,
-        webContentValidatorTool,
-      ],
-      memory: createWorkerMemory("research"),
-      hooks: createWorkerHooks("research"),
-    });
-
-    // Coding worker agent - uses coding tools
-    const codingWorker = new Agent({
-      name: "CodingAgent",
-      purpose: "Manages code execution, analysis, development assistance, and project structure.",
-      instructions: workerPrompts.generate("coding")(),
-      llm: new VercelAIProvider(),
-      model: google('gemini-2.5-flash-preview-05-20'),
-      providerOptions: {
-        google: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-            includeThoughts: false,
-          },
-          responseModalities: ["TEXT", "IMAGE"],
-        } satisfies GoogleGenerativeAIProviderOptions,
-      },
-      tools: [
-        sandboxedCodeExecutorTool,
-        lintCodeTool,
-        analyzeCodeComplexityTool,
-        findCodeDuplicatesTool,
-        identifySecurityAntiPatternsTool,
-        readFileTool,
-        writeFileTool,
-        deleteFileTool,
-        listDirectoryTool,
-        createDirectoryTool,
-        replaceLineInFileTool,
-      ],
-      memory: createWorkerMemory("coding"),
-      hooks: createWorkerHooks("coding"),
-    });
-
-    // Prompt Management worker agent - NEW 2025 enhancement
-//    const promptManagerWorker = new Agent({
-//      name: "PromptManagerAgent",
-//      purpose: "Manages prompt engineering, optimization, and security analysis of prompts.",
-//      instructions: workerPrompts.generate("promptManager")(),
-//      llm: new VercelAIProvider(),
-//      model: google('gemini-2.5-flash-preview-05-20'),
-//      providerOptions: {
-//        google: {
-//          thinkingConfig: {
-//            thinkingBudget: 0,
-//            includeThoughts: false,
-//          },
-//          responseModalities: ["TEXT", "IMAGE"],
-//        } satisfies GoogleGenerativeAIProviderOptions,
-//      },
-//      tools: [
-//        promptManagerToolkit,
-//        calculatorTool, // For scoring and metrics
-//        webSearchTool, // For researching latest techniques
-//      ],
-//      memory: createWorkerMemory("prompt_manager"),
-//      hooks: createWorkerHooks("prompt_manager"),
-//    });
-
-    // Debug worker agent - uses the coding tools for file oprations
-    const debugWorker = new Agent({
-      name: "DebugAgent",
-      purpose: "Handles debugging, error diagnosis, and issue resolution.",
-      instructions: workerPrompts.generate("debug")(),
-      llm: new VercelAIProvider(),
-      model: google('gemini-2.5-flash-preview-05-20'),
-      providerOptions: {
-        google: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-            includeThoughts: false,
-          },
-          responseModalities: ["TEXT", "IMAGE"],
-        } satisfies GoogleGenerativeAIProviderOptions,
-      },
-      tools: [
-        runIsolatedCodeTool,
-        lintCodeTool,
-        identifySecurityAntiPatternsTool,
-        analyzeCodeComplexityTool,
-        findCodeDuplicatesTool,
-      ],
-      memory: createWorkerMemory("debug"),
-      hooks: createWorkerHooks("debug"),
-    });
-
-    const browserWorker = new Agent({
-      name: "BrowserAgent",
-      purpose: "Automates web pages using Playwright tools for navigation, interaction and data extraction.",
-      instructions: workerPrompts.generate("browser")(),
-      llm: new VercelAIProvider(),
-      model: google('gemini-2.5-flash-preview-05-20'),
-      providerOptions: {
-        google: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-            includeThoughts: false,
-          },
-          responseModalities: ["TEXT", "IMAGE"],
-        } satisfies GoogleGenerativeAIProviderOptions,
-      },
-      tools: [
-        navigationTool,
-        screenshotTool,
-        ...Object.values(interactionTools),
-        ...Object.values(responseTools),
-        ...Object.values(outputTools),
-        ...Object.values(visiblePageTools),
-      ],
-      memory: createWorkerMemory("browser"),
-      hooks: createWorkerHooks("browser"),
-    });
-
-    // Knowledge Base worker agent - NEW
-    const knowledgeBaseWorker = new Agent({
-      name: "KnowledgeBaseAgent",
-      purpose: "Manages ingestion, querying, and summarization of documents in the knowledge base.",
-      instructions: workerPrompts.generate("knowledgeBase")(),
-      llm: new VercelAIProvider(),
-      model: google('gemini-2.5-flash-preview-05-20'),
-      providerOptions: {
-        google: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-            includeThoughts: false,
-          },
-          responseModalities: ["TEXT", "IMAGE"],
-        } satisfies GoogleGenerativeAIProviderOptions,
-      },
-      tools: [
-        ingestDocumentTool,
-        queryKnowledgeBaseTool,
-        summarizeDocumentTool,
-        listKnowledgeBaseDocumentsTool,
-      ],
-      memory: createWorkerMemory("knowledgebase"),
-      hooks: createWorkerHooks("knowledgebase"),
-    });
+    const topology = await loadAgentTopology(env.AGENT_TOPOLOGY_PATH);
+    const workerTools = resolveWorkerTools(topology, createToolRegistry(allTools));
+    const workers: Record<string, Agent<{ llm: VercelAIProvider }>> = {};
+    const workerModels: Record<string, string> = {};
 
-    // Data worker agent - NEW
-    const dataWorker = new Agent({
-      name: "DataAgent",
-      purpose: "Handles data manipulation, analysis, and transformation from local files.",
-      instructions: workerPrompts.generate("data")(),
-      llm: new VercelAIProvider(),
-      model: google('gemini-2.5-flash-preview-05-20'),
-      providerOptions: {
-        google: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-            includeThoughts: false,
-          },
-          responseModalities: ["TEXT", "IMAGE"],
-        } satisfies GoogleGenerativeAIProviderOptions,
-      },
-      tools: [
-        readDataFromFileTool,
-        analyzeCsvDataTool,
-        writeDataToFileTool,
-      ],
-      memory: createWorkerMemory("data"),
-      hooks: createWorkerHooks("data"),
-    });
+    const knowledgeBaseWorker = topology.workers.find(w => w.id === "knowledge-base");
+    ensureKnowledgeBase(knowledgeBaseWorker?.model ?? topology.defaults.model);
 
-    // Cloud worker agent - NEW
-    const cloudWorker = new Agent({
-      name: "CloudAgent",
-      purpose: "Manages cloud resources, deployment, and monitoring, interacting with Docker.",
-      instructions: workerPrompts.generate("cloud")(),
-      llm: new VercelAIProvider(),
-      model: google('gemini-2.5-flash-preview-05-20'),
-      providerOptions: {
-        google: {
-          thinkingConfig: {
-            thinkingBudget: 0,
-            includeThoughts: false,
-          },
-          responseModalities: ["TEXT", "IMAGE"],
-        } satisfies GoogleGenerativeAIProviderOptions,
-      },
-      tools: [
-        deployServiceTool,
-        listContainersTool,
-        stopContainerTool,
-        removeContainerTool,
-        getContainerLogsTool,
-        inspectContainerTool,
-        listImagesTool,
-        buildImageTool,
-      ],
-      memory: createWorkerMemory("cloud"),
-      hooks: createWorkerHooks("cloud"),
-    });
-
-    const workers = {
-      systemInfo: systemInfoWorker,
-      fileOps: fileOpsWorker,
-      git: gitWorker,
-      browser: browserWorker,
-      coding: codingWorker,
-//      promptManager: promptManagerWorker,
-      debug: debugWorker,
-      research: researchWorker,
-      knowledgeBase: knowledgeBaseWorker,
-      data: dataWorker,
-      cloud: cloudWorker,
-    };
+    for (const worker of topology.workers.filter(w => w.enabled)) {
+      const namespace = worker.memory?.namespace ?? worker.id.replace(/-/g, "");
+      const { spec, fallbacks, model, providerOptions } = resolveResilientAgentModel(
+        worker.id,
+        worker.model ?? topology.defaults.model,
+        worker.fallbackModels ?? topology.defaults.fallbackModels,
+        worker.providerOptions ?? topology.defaults.providerOptions
+      );
+      workerModels[worker.id] = [spec, ...fallbacks].join(" -> ");
+      workers[worker.id] = new Agent({
+        name: worker.name,
+        purpose: worker.purpose,
+        instructions: worker.instructions ?? workerPrompts.generate(worker.prompt ?? worker.id)(),
+        llm: new VercelAIProvider(),
+        model,
+        providerOptions,
+        tools: guardTools(workerTools.get(worker.id)!, worker.name),
+        memory: createWorkerMemory(namespace, worker.memory?.storageLimit ?? topology.defaults.memory.storageLimit),
+        hooks: createWorkerHooks(namespace, worker.id),
+      });
+    }
 
     logger.info("Specialized worker agents created successfully", {
       workerCount: Object.keys(workers).length,
       workers: Object.keys(workers),
+      disabledWorkers: topology.workers.filter(w => !w.enabled).map(w => w.id),
+      models: workerModels,
       memoryProviders: "LibSQLStorage per agent",
       hooksEnabled: true,
       features: ["specialized-tools", "memory", "hooks", "performance-monitoring"]
@@ -1047,47 +940,28 @@ export const createWorkerAgents = async () => {
 // Enhanced helper functions for improved supervisor monitoring
 
 /**
- * Extract LLM usage data with multiple fallback strategies
+ * Log the session's model spend from the cost ledger, broken down by agent
  */
-function extractLLMUsage(context: any): { promptTokens: number; completionTokens: number; totalTokens: number } | undefined {
-  let llmUsage: { promptTokens: number; completionTokens: number; totalTokens: number } | undefined = undefined;
-  
-  // Try symbol-based key (if defined in CONTEXT_KEYS)
-  if (Object.prototype.hasOwnProperty.call(CONTEXT_KEYS, 'LLM_USAGE')) {
-    llmUsage = context.userContext.get((CONTEXT_KEYS as any).LLM_USAGE);
-  } else {
-    // fallback: try string key or legacy context
-    llmUsage = context.userContext.get('llmUsage');
-  }
-  if (!llmUsage && (context as any).llmUsage) {
-    llmUsage = (context as any).llmUsage;
-  }
-  
-  return llmUsage;
-}
-
-/**
- * Track LLM usage with enhanced cost analysis
- */
-function trackLLMUsage(agent: any, context: any, llmUsage: { promptTokens: number; completionTokens: number; totalTokens: number }): void {
-  const { promptTokens, completionTokens } = llmUsage;
-  // Gemini 2.5 Flash Preview (Paid Tier, Non-Thinking) pricing
-  const inputCost = (promptTokens / 1_000_000) * 0.15;
-  const outputCost = (completionTokens / 1_000_000) * 0.60;
-  const totalCost = inputCost + outputCost;
-  const taskId = context.userContext.get(CONTEXT_KEYS.TASK_ID) || context.userContext.get(CONTEXT_KEYS.SESSION_ID) || context.operationId;
-  const agentType = context.userContext.get(CONTEXT_KEYS.AGENT_TYPE) || (agent as any).agentType || agent.name;
+function trackLLMUsage(agent: any, context: any): void {
+  const sessionId = context.userContext.get(CONTEXT_KEYS.SESSION_ID) as string | undefined;
+  if (!sessionId) return;
+  const report = costLedger.query({ sessionId, groupBy: "agent" });
+  if (report.total.calls === 0) return;
+  const { usage } = report.total;
   
   logger.info(`[Hook] Enhanced LLM usage tracking`, {
-    taskId,
-    agentType,
-    promptTokens,
-    completionTokens,
-    inputCost: Number(inputCost.toFixed(6)),
-    outputCost: Number(outputCost.toFixed(6)),
-    totalCost: Number(totalCost.toFixed(6)),
+    sessionId,
+    workflowId: context.userContext.get(CONTEXT_KEYS.WORKFLOW_ID),
+    agentType: agent.name,
+    modelCalls: report.total.calls,
+    promptTokens: usage.inputTokens + usage.cachedInputTokens + usage.cacheWriteTokens,
+    cachedTokens: usage.cachedInputTokens,
+    completionTokens: usage.outputTokens,
+    reasoningTokens: usage.reasoningTokens,
+    totalCost: report.total.cost,
+    unpricedCalls: report.total.unpricedCalls,
+    costByAgent: Object.fromEntries(report.groups.map(group => [group.key, group.cost])),
     operationId: context.operationId,
-    efficiency: promptTokens > 0 ? Number((completionTokens / promptTokens).toFixed(2)) : 0,
     timestamp: new Date().toISOString(),
   });
 }
@@ -1119,7 +993,9 @@ function logEnhancedSessionSummary({ agent, output, error, context }: OnEndHookA
     retrievalCount,
     avgRetrievalsPerDelegation: delegationCount > 0 ? Number((retrievalCount / delegationCount).toFixed(2)) : 0,
     cacheHitRate: retrievalHistory?.length > 0 ? 
-      Number((retrievalHistory.filter((r: any) => r.cacheHit).length / retrievalHistory.length).toFixed(2)) : 0
+      Number((retrievalHistory.filter((r: any) => r.cacheHit).length / retrievalHistory.length).toFixed(2)) : 0,
+    modelTelemetry: summarizeModelTelemetry(context.userContext),
+    budget: summarizeBudget(context.userContext)
   };
   
   if (error) {
@@ -1236,7 +1112,7 @@ function extractResultPreview(output: any): string {
   if (!output) return "[No output]";
   
   if (typeof output === 'string') {
-    return output.substring(0, 100);
+    return secretRedactor.redactText(output).substring(0, 100);
   }
   
   try {
@@ -1251,7 +1127,8 @@ function extractResultPreview(output: any): string {
         meaningfulOutput = (output as any).toolResult.result;
       }
     }
-    const stringifiedOutput = JSON.stringify(meaningfulOutput);
+    // Secrets are masked before truncation so a cut-off secret cannot slip past the detectors
+    const stringifiedOutput = secretRedactor.stringify(meaningfulOutput);
     return stringifiedOutput.substring(0, 100);
   } catch (stringifyError) {
     logger.warn("Failed to stringify output for preview", {
@@ -1285,6 +1162,12 @@ const SUPERVISOR_CONFIG = {
     DEFAULT_MIN_SCORE: 1,
     STORE_MAX_SIZE: 1000,
     SEARCH_CACHE_SIZE: 200,
+    RETENTION_MAX_AGE: 7 * 24 * 60 * 60 * 1000, // 7 days
+    CLEANUP_INTERVAL: 60 * 60 * 1000, // Hourly retention sweep
+  },
+  KNOWLEDGE_BASE: {
+    MAX_RESULTS: 20,
+    MAX_DOCUMENT_CHUNKS: 5000, // Ingests beyond this are refused; documents are never evicted
   },
   MODELS: {
     THINKING_BUDGET: 0, // Default thinking budget for supervisor agent
@@ -0,0 +1,396 @@
+/**
+ * @fileoverview Supervisor Context Storage Backends
+ *
+ * Pluggable persistence layer for the SupervisorContextStore. The in-memory LRU backend keeps the
+ * original behaviour (fast, bounded, lost on restart) while the LibSQL backend persists delegation,
+ * workflow and capability contexts to SQLite/Turso so they survive process restarts.
+ *
+ * @module SupervisorContextStorage
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import { createClient, type Client, type InValue, type Row } from '@libsql/client';
+import QuickLRU from 'quick-lru';
+import { createModuleLogger } from '../config/logger.js';
+import type { ContextEntry } from './supervisorRetriever.js';
+
+const logger = createModuleLogger('supervisorContextStorage');
+
+/**
+ * Structured filter for querying stored contexts
+ * @interface ContextQuery
+ */
+export interface ContextQuery {
+  /** Restrict to a single context type */
+  type?: ContextEntry['type'];
+  /** Restrict to contexts produced by a given agent type */
+  agentType?: string;
+  /** Restrict to contexts associated with a task */
+  taskId?: string;
+  /** Restrict to contexts associated with a workflow */
+  workflowId?: string;
+  /** Restrict to chunks of a knowledge base document */
+  documentId?: string;
+  /** Only include contexts created at or after this timestamp (ms) */
+  since?: number;
+  /** Maximum number of contexts to return, newest first */
+  limit?: number;
+}
+
+/**
+ * Callback invoked when a backend drops entries on its own (capacity eviction).
+ * Knowledge base document chunks are never evicted, so a stored document is always whole.
+ */
+export type ContextEvictionListener = (ids: string[]) => void;
+
+/**
+ * Contract implemented by every supervisor context storage backend
+ * @interface ContextStorageBackend
+ */
+export interface ContextStorageBackend {
+  /** Backend identifier used in logs and statistics */
+  readonly kind: 'memory' | 'libsql';
+  /** Prepare the backend (create tables, open connections). Safe to call more than once. */
+  initialize(): Promise<void>;
+  /** Insert or replace a context entry */
+  put(entry: ContextEntry): Promise<void>;
+  /** Fetch a single entry by id */
+  get(id: string): Promise<ContextEntry | undefined>;
+  /** Delete entries by id, returning the number removed */
+  delete(ids: string[]): Promise<number>;
+  /** Return every stored entry */
+  getAll(): Promise<ContextEntry[]>;
+  /** Return entries matching the structured filter, newest first */
+  query(filter: ContextQuery): Promise<ContextEntry[]>;
+  /** Delete non-document entries older than the cutoff timestamp, returning the removed ids */
+  deleteOlderThan(cutoff: number): Promise<string[]>;
+  /** Number of stored entries */
+  count(): Promise<number>;
+  /** Register a listener notified when entries are evicted for capacity reasons */
+  onEviction(listener: ContextEvictionListener): void;
+  /** Release resources held by the backend */
+  close(): Promise<void>;
+}
+
+/**
+ * Apply a ContextQuery to an in-memory list of entries
+ * @param entries - Entries to filter
+ * @param filter - Query filter
+ * @returns Matching entries sorted newest first
+ */
+const applyContextQuery = (entries: ContextEntry[], filter: ContextQuery): ContextEntry[] => {
+  const matches = entries
+    .filter(ctx => !filter.type || ctx.type === filter.type)
+    .filter(ctx => !filter.agentType || ctx.metadata.agentType === filter.agentType)
+    .filter(ctx => !filter.taskId || ctx.metadata.taskId === filter.taskId)
+    .filter(ctx => !filter.workflowId || ctx.metadata.workflowId === filter.workflowId)
+    .filter(ctx => !filter.documentId || ctx.metadata.documentId === filter.documentId)
+    .filter(ctx => filter.since === undefined || ctx.metadata.timestamp >= filter.since)
+    .sort((a, b) => b.metadata.timestamp - a.metadata.timestamp);
+
+  return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+};
+
+/**
+ * In-memory LRU backend (default). Entries are lost on restart.
+ * Document chunks are kept outside the LRU and the retention sweep, and stay until they are deleted.
+ *
+ * @class InMemoryContextStorage
+ */
+export class InMemoryContextStorage implements ContextStorageBackend {
+  readonly kind = 'memory' as const;
+  private readonly contexts: QuickLRU<string, ContextEntry>;
+  private readonly documents = new Map<string, ContextEntry>();
+  private readonly evictionListeners: ContextEvictionListener[] = [];
+
+  /**
+   * @param maxSize - Maximum number of non-document contexts to keep before evicting the least recently used
+   */
+  constructor(maxSize: number = 1000) {
+    this.contexts = new QuickLRU({
+      maxSize,
+      onEviction: (id) => this.evictionListeners.forEach(listener => listener([id])),
+    });
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to prepare for the in-memory backend
+  }
+
+  async put(entry: ContextEntry): Promise<void> {
+    if (entry.type === 'document') {
+      this.contexts.delete(entry.id);
+      this.documents.set(entry.id, entry);
+    } else {
+      this.documents.delete(entry.id);
+      this.contexts.set(entry.id, entry);
+    }
+  }
+
+  async get(id: string): Promise<ContextEntry | undefined> {
+    return this.documents.get(id) ?? this.contexts.get(id);
+  }
+
+  async delete(ids: string[]): Promise<number> {
+    return ids.filter(id => this.documents.delete(id) || this.contexts.delete(id)).length;
+  }
+
+  async getAll(): Promise<ContextEntry[]> {
+    return [...this.contexts.values(), ...this.documents.values()];
+  }
+
+  async query(filter: ContextQuery): Promise<ContextEntry[]> {
+    return applyContextQuery(await this.getAll(), filter);
+  }
+
+  async deleteOlderThan(cutoff: number): Promise<string[]> {
+    const removed: string[] = [];
+    for (const [id, ctx] of this.contexts.entries()) {
+      if (ctx.metadata.timestamp < cutoff) {
+        removed.push(id);
+      }
+    }
+    removed.forEach(id => this.contexts.delete(id));
+    return removed;
+  }
+
+  async count(): Promise<number> {
+    return this.contexts.size + this.documents.size;
+  }
+
+  onEviction(listener: ContextEvictionListener): void {
+    this.evictionListeners.push(listener);
+  }
+
+  async close(): Promise<void> {
+    this.contexts.clear();
+    this.documents.clear();
+  }
+}
+
+/**
+ * Configuration for the LibSQL context storage backend
+ * @interface LibSQLContextStorageOptions
+ */
+export interface LibSQLContextStorageOptions {
+  /** LibSQL/Turso URL (e.g. `file:./.voltagent/supervisor-context.db`) */
+  url: string;
+  /** Optional auth token for remote Turso databases */
+  authToken?: string;
+  /** Prefix for the contexts table (default: `supervisor_context`) */
+  tablePrefix?: string;
+  /** Maximum number of non-document rows to keep; oldest rows are evicted beyond this (default: 1000) */
+  maxSize?: number;
+}
+
+/**
+ * LibSQL/SQLite backend. Persists contexts across restarts, mirroring the
+ * `LibSQLStorage` setup the agents use for conversation memory.
+ *
+ * @class LibSQLContextStorage
+ */
+export class LibSQLContextStorage implements ContextStorageBackend {
+  readonly kind = 'libsql' as const;
+  private readonly client: Client;
+  private readonly table: string;
+  private readonly maxSize: number;
+  private readonly evictionListeners: ContextEvictionListener[] = [];
+  private initPromise: Promise<void> | null = null;
+
+  constructor(options: LibSQLContextStorageOptions) {
+    const tablePrefix = options.tablePrefix ?? 'supervisor_context';
+    if (!/^\w+$/.test(tablePrefix)) {
+      throw new Error(`Invalid table prefix for LibSQLContextStorage: ${tablePrefix}`);
+    }
+
+    this.client = createClient({ url: options.url, authToken: options.authToken });
+    this.table = `${tablePrefix}_entries`;
+    this.maxSize = options.maxSize ?? 1000;
+  }
+
+  initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.createSchema().catch((err) => {
+        this.initPromise = null;
+        throw err;
+      });
+    }
+    return this.initPromise;
+  }
+
+  async put(entry: ContextEntry): Promise<void> {
+    await this.initialize();
+    await this.client.execute({
+      sql: `INSERT OR REPLACE INTO ${this.table}
+              (id, content, source, type, agent_type, task_id, workflow_id, timestamp, metadata)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        entry.id,
+        entry.content,
+        entry.source,
+        entry.type,
+        entry.metadata.agentType ?? null,
+        entry.metadata.taskId ?? null,
+        entry.metadata.workflowId ?? null,
+        entry.metadata.timestamp,
+        JSON.stringify(entry.metadata),
+      ],
+    });
+    await this.enforceMaxSize();
+  }
+
+  async get(id: string): Promise<ContextEntry | undefined> {
+    await this.initialize();
+    const result = await this.client.execute({
+      sql: `SELECT * FROM ${this.table} WHERE id = ?`,
+      args: [id],
+    });
+    return result.rows[0] ? this.rowToEntry(result.rows[0]) : undefined;
+  }
+
+  async delete(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+    await this.initialize();
+    const placeholders = ids.map(() => '?').join(', ');
+    const result = await this.client.execute({
+      sql: `DELETE FROM ${this.table} WHERE id IN (${placeholders})`,
+      args: ids,
+    });
+    return result.rowsAffected;
+  }
+
+  async getAll(): Promise<ContextEntry[]> {
+    return this.query({});
+  }
+
+  async query(filter: ContextQuery): Promise<ContextEntry[]> {
+    await this.initialize();
+    const clauses: string[] = [];
+    const args: InValue[] = [];
+
+    if (filter.type) { clauses.push('type = ?'); args.push(filter.type); }
+    if (filter.agentType) { clauses.push('agent_type = ?'); args.push(filter.agentType); }
+    if (filter.taskId) { clauses.push('task_id = ?'); args.push(filter.taskId); }
+    if (filter.workflowId) { clauses.push('workflow_id = ?'); args.push(filter.workflowId); }
+    if (filter.documentId) { clauses.push("json_extract(metadata, '$.documentId') = ?"); args.push(filter.documentId); }
+    if (filter.since !== undefined) { clauses.push('timestamp >= ?'); args.push(filter.since); }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const limit = filter.limit !== undefined ? 'LIMIT ?' : '';
+    if (filter.limit !== undefined) args.push(filter.limit);
+
+    const result = await this.client.execute({
+      sql: `SELECT * FROM ${this.table} ${where} ORDER BY timestamp DESC ${limit}`,
+      args,
+    });
+    return result.rows.map(row => this.rowToEntry(row));
+  }
+
+  async deleteOlderThan(cutoff: number): Promise<string[]> {
+    await this.initialize();
+    const expired = await this.client.execute({
+      sql: `SELECT id FROM ${this.table} WHERE timestamp < ? AND type != 'document'`,
+      args: [cutoff],
+    });
+    const ids = expired.rows.map(row => String(row.id));
+    await this.delete(ids);
+    return ids;
+  }
+
+  async count(): Promise<number> {
+    await this.initialize();
+    const result = await this.client.execute(`SELECT COUNT(*) AS total FROM ${this.table}`);
+    return Number(result.rows[0]?.total ?? 0);
+  }
+
+  onEviction(listener: ContextEvictionListener): void {
+    this.evictionListeners.push(listener);
+  }
+
+  async close(): Promise<void> {
+    this.client.close();
+  }
+
+  /**
+   * Create the contexts table and its filter indexes
+   * @private
+   */
+  private async createSchema(): Promise<void> {
+    await this.client.batch([
+      `CREATE TABLE IF NOT EXISTS ${this.table} (
+        id TEXT PRIMARY KEY,
+        content TEXT NOT NULL,
+        source TEXT NOT NULL,
+        type TEXT NOT NULL,
+        agent_type TEXT,
+        task_id TEXT,
+        workflow_id TEXT,
+        timestamp INTEGER NOT NULL,
+        metadata TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS ${this.table}_type_idx ON ${this.table} (type)`,
+      `CREATE INDEX IF NOT EXISTS ${this.table}_agent_type_idx ON ${this.table} (agent_type)`,
+      `CREATE INDEX IF NOT EXISTS ${this.table}_task_id_idx ON ${this.table} (task_id)`,
+      `CREATE INDEX IF NOT EXISTS ${this.table}_workflow_id_idx ON ${this.table} (workflow_id)`,
+      `CREATE INDEX IF NOT EXISTS ${this.table}_timestamp_idx ON ${this.table} (timestamp)`,
+    ], 'write');
+
+    logger.debug("LibSQL context storage initialized", { table: this.table, maxSize: this.maxSize });
+  }
+
+  /**
+   * Evict the oldest non-document rows once they grow beyond maxSize
+   * @private
+   */
+  private async enforceMaxSize(): Promise<void> {
+    const evictable = await this.client.execute(`SELECT COUNT(*) AS total FROM ${this.table} WHERE type != 'document'`);
+    const overflow = Number(evictable.rows[0]?.total ?? 0) - this.maxSize;
+    if (overflow <= 0) return;
+
+    const oldest = await this.client.execute({
+      sql: `SELECT id FROM ${this.table} WHERE type != 'document' ORDER BY timestamp ASC LIMIT ?`,
+      args: [overflow],
+    });
+    const ids = oldest.rows.map(row => String(row.id));
+    await this.delete(ids);
+    this.evictionListeners.forEach(listener => listener(ids));
+  }
+
+  /**
+   * Convert a database row back into a ContextEntry
+   * @private
+   */
+  private rowToEntry(row: Row): ContextEntry {
+    return {
+      id: String(row.id),
+      content: String(row.content),
+      source: String(row.source),
+      type: String(row.type) as ContextEntry['type'],
+      metadata: JSON.parse(String(row.metadata)),
+    };
+  }
+}
+
+/**
+ * Storage backend selection for the supervisor context store
+ */
+export type ContextStorageConfig =
+  | { backend: 'memory'; maxSize?: number }
+  | ({ backend: 'libsql' } & LibSQLContextStorageOptions);
+
+/**
+ * Create a context storage backend from configuration
+ * @param config - Backend selection and options
+ * @returns Configured storage backend
+ */
+export const createContextStorage = (config: ContextStorageConfig): ContextStorageBackend => {
+  switch (config.backend) {
+    case 'libsql':
+      return new LibSQLContextStorage(config);
+    case 'memory':
+    default:
+      return new InMemoryContextStorage(config.maxSize);
+  }
+};
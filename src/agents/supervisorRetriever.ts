@@ -14,7 +14,22 @@
 import { BaseRetriever, type BaseMessage, type RetrieverOptions } from '@voltagent/core';
 import { generateId } from 'ai';
 import QuickLRU from 'quick-lru';
-import { logger } from '../config/logger.js';
+import { createModuleLogger } from '../config/logger.js';
+import { redactSecrets } from '../config/redaction.js';
+import {
+  createContextStorage,
+  type ContextQuery,
+  type ContextStorageBackend,
+  type ContextStorageConfig,
+} from './supervisorContextStorage.js';
+import { chunkDocument } from './documentChunker.js';
+import { Bm25Index } from './bm25Index.js';
+import { headingPathAt, type DocumentHeading } from './documentExtractors.js';
+import { cosineSimilarity, type EmbeddingProvider, type EmbeddingResult } from './documentEmbeddings.js';
+import { endSpan, startRetrievalSpan } from './tracing.js';
+import { recordRetrieval } from './metrics.js';
+
+const logger = createModuleLogger('supervisorRetriever');
 
 /**
  * Context entry structure for retrieval operations
@@ -28,7 +43,7 @@ export interface ContextEntry {
   /** Source identifier (e.g., agent name, tool name) */
   source: string;
   /** Type categorization for context filtering */
-  type: 'delegation' | 'task_result' | 'workflow' | 'agent_capability' | 'error_resolution';
+  type: 'delegation' | 'task_result' | 'workflow' | 'agent_capability' | 'error_resolution' | 'document';
   /** Additional metadata for enhanced retrieval */
   metadata: {
     /** Timestamp when the entry was created */
@@ -49,130 +64,515 @@ export interface ContextEntry {
 }
 
 /**
- * Supervisor context store for managing retrieval data using in-memory LRU cache
- * Implements efficient storage and search capabilities for multi-agent context
+ * Options accepted by the context store search
+ * @interface ContextSearchOptions
+ */
+export interface ContextSearchOptions {
+  /** Context type that receives a scoring bonus */
+  type?: string;
+  /** Agent type that receives a scoring bonus */
+  agentType?: string;
+  /** Tags that receive a scoring bonus */
+  tags?: string[];
+  /** Maximum number of results (default: 10) */
+  limit?: number;
+  /** Minimum score to include (default: 1) */
+  minScore?: number;
+  /** Hard filter applied by the storage backend before scoring */
+  filter?: ContextQuery;
+  /** Keep entries that match no query term, scored 0 without bonuses, e.g. to rank them semantically */
+  includeUnmatched?: boolean;
+}
+
+/**
+ * Context entry paired with its computed relevance score
+ * @interface ScoredContext
+ */
+export interface ScoredContext {
+  entry: ContextEntry;
+  score: number;
+  /** BM25 score of a document chunk divided by the best BM25 score among the candidates, in [0, 1] */
+  keywordScore?: number;
+  /** Cosine similarity between the query and the entry embedding, clamped to [0, 1] */
+  semanticScore?: number;
+}
+
+/**
+ * How knowledge base documents are ranked
+ * - `keyword`: text matching only
+ * - `semantic`: cosine similarity of embeddings only
+ * - `hybrid`: weighted blend of both
+ */
+export type DocumentSearchMode = 'semantic' | 'keyword' | 'hybrid';
+
+/**
+ * Options for searching knowledge base documents
+ * @interface DocumentSearchOptions
+ */
+export interface DocumentSearchOptions {
+  /** Maximum number of results (default: retriever maxResults) */
+  limit?: number;
+  /** Minimum score to include, between 0 and 1 in every mode (default: 0) */
+  minScore?: number;
+  /** Only return chunks carrying at least one of these tags */
+  tags?: string[];
+  /** Only return chunks from this kind of source */
+  sourceType?: DocumentSourceType;
+  /** Ranking mode (default: hybrid when embeddings are configured, keyword otherwise) */
+  mode?: DocumentSearchMode;
+  /** Weight of the semantic score in hybrid mode, between 0 and 1 (default: retriever hybridAlpha) */
+  alpha?: number;
+}
+
+/**
+ * Knowledge base source types supported by document ingestion
+ */
+export type DocumentSourceType = 'filepath' | 'url' | 'raw_text';
+
+/**
+ * Input for ingesting a document into the retriever
+ * @interface DocumentIngestInput
+ */
+export interface DocumentIngestInput {
+  /** Stable document identifier; re-ingesting the same id replaces the previous chunks */
+  documentId: string;
+  /** Full document text */
+  content: string;
+  /** Where the document came from (file path, URL, or a label for raw text) */
+  source: string;
+  /** Kind of source the document was read from */
+  sourceType: DocumentSourceType;
+  /** Document title */
+  title?: string;
+  /** Heading outline with offsets into `content`; each chunk records the headings enclosing it */
+  headings?: DocumentHeading[];
+  /** Tags for categorization and filtering */
+  tags?: string[];
+  /** Additional metadata copied onto every chunk */
+  metadata?: Record<string, any>;
+  /** Target chunk size in characters (default: 1000) */
+  chunkSize?: number;
+  /** Overlap between consecutive chunks in characters (default: 15% of chunkSize) */
+  chunkOverlap?: number;
+}
+
+/**
+ * Summary of an ingested document, aggregated from its chunks
+ * @interface DocumentSummary
+ */
+export interface DocumentSummary {
+  documentId: string;
+  source: string;
+  sourceType: DocumentSourceType;
+  title?: string;
+  tags: string[];
+  /** Number of stored chunks */
+  chunkCount: number;
+  /** Chunks written at ingestion that are no longer stored; the document is partial when this is not 0 */
+  missingChunks: number;
+  contentLength: number;
+  timestamp: number;
+  /** First chunk of the document, useful as a preview */
+  preview: string;
+  /** User-supplied metadata stored with the document */
+  metadata: Record<string, any>;
+}
+
+/**
+ * A full document reassembled from its chunks
+ * @interface StoredDocument
+ */
+export interface StoredDocument extends DocumentSummary {
+  content: string;
+  chunks: ContextEntry[];
+}
+
+/**
+ * A cited passage expanded with the text around it
+ * @interface CitationExpansion
+ */
+export interface CitationExpansion {
+  citationId: string;
+  documentId: string;
+  source: string;
+  title?: string;
+  /** Character range of the cited passage in the source (end exclusive) */
+  charStart: number;
+  charEnd: number;
+  /** 1-based, inclusive line range of the cited passage in the source */
+  lineStart: number;
+  lineEnd: number;
+  /** Headings enclosing the passage, outermost first */
+  headingPath: string[];
+  /** Text preceding the passage */
+  before: string;
+  /** The cited passage */
+  passage: string;
+  /** Text following the passage */
+  after: string;
+  /** True when the document changed since the citation was issued and the range no longer matches a chunk */
+  stale: boolean;
+}
+
+const CITATION_ID_PATTERN = /^kb:(.+)#(\d+)-(\d+)$/;
+
+/**
+ * Build the citation id for a passage of a knowledge base document.
+ * The id encodes the character range, so it stays valid across re-chunking as long as the text is unchanged.
+ * @param documentId - Document identifier
+ * @param charStart - Passage start offset (inclusive)
+ * @param charEnd - Passage end offset (exclusive)
+ * @returns Citation id such as `kb:doc-123#120-480`
+ */
+export const formatCitationId = (documentId: string, charStart: number, charEnd: number): string =>
+  `kb:${documentId}#${charStart}-${charEnd}`;
+
+/**
+ * Parse a citation id produced by {@link formatCitationId}
+ * @param citationId - Citation id
+ * @returns Document id and character range, or undefined if the id is malformed
+ */
+export const parseCitationId = (citationId: string): { documentId: string; charStart: number; charEnd: number } | undefined => {
+  const match = CITATION_ID_PATTERN.exec(citationId.trim().replace(/^\[|\]$/g, ''));
+  if (!match) return undefined;
+  const charStart = Number(match[2]);
+  const charEnd = Number(match[3]);
+  return charEnd > charStart ? { documentId: match[1], charStart, charEnd } : undefined;
+};
+
+/**
+ * Mask secrets in a document before it is chunked. The text between headings is redacted
+ * section by section so heading offsets can be moved to match the redacted content.
+ * @param input - Document to ingest
+ * @returns The document with secrets masked in every field except its id
+ */
+const redactDocument = (input: DocumentIngestInput): DocumentIngestInput => {
+  const headings = [...(input.headings ?? [])].sort((a, b) => a.offset - b.offset);
+  const boundaries = [0, ...headings.map(heading => heading.offset), input.content.length];
+  const sections = boundaries.slice(1).map((end, index) => redactSecrets(input.content.slice(boundaries[index], end)));
+  let offset = 0;
+  const offsets = sections.map(section => (offset += section.length));
+
+  return {
+    ...redactSecrets({ ...input, content: '', headings: undefined }),
+    // The id addresses the document and its citations, so it is kept as given
+    documentId: input.documentId,
+    content: sections.join(''),
+    ...(input.headings && {
+      headings: headings.map((heading, index) => ({ ...redactSecrets(heading), offset: offsets[index] })),
+    }),
+  };
+};
+
+/** Chunk metadata keys managed by the retriever rather than supplied by callers */
+const CHUNK_METADATA_KEYS = [
+  'timestamp', 'documentId', 'chunkIndex', 'chunkCount', 'charStart', 'charEnd', 'lineStart', 'lineEnd',
+  'sourceType', 'tags', 'contentLength', 'relevanceScore', 'embedding', 'embeddingModel', 'title', 'headingPath',
+] as const;
+
+/**
+ * Retention policy applied to the context store; knowledge base documents are exempt
+ * @interface ContextRetentionPolicy
+ */
+export interface ContextRetentionPolicy {
+  /** Maximum age in milliseconds before a context is removed (default: 7 days) */
+  maxAge: number;
+  /** How often the retention sweep runs in milliseconds; 0 disables the schedule (default: 1 hour) */
+  cleanupIntervalMs?: number;
+}
+
+/**
+ * Supervisor context store for managing retrieval data on top of a pluggable storage backend
+ * Implements efficient storage and search capabilities for multi-agent context.
+ * Keyword search is served by a BM25 index that is rebuilt from storage on startup
+ * and kept in sync as contexts are added, evicted, deleted or expired.
  * 
  * @class SupervisorContextStore
  */
 class SupervisorContextStore {
-  private readonly contexts: QuickLRU<string, ContextEntry>;
+  private readonly storage: ContextStorageBackend;
+  private readonly retention: Required<ContextRetentionPolicy>;
+  private readonly index = new Bm25Index();
+  private readonly ready: Promise<void>;
+  private cleanupTimer: NodeJS.Timeout | null = null;
+  private mutationGeneration = 0;
 
   /**
-   * Initialize the context store with LRU cache
-   * @param maxSize - Maximum number of contexts to store (default: 1000)
+   * Initialize the context store with a storage backend
+   * @param storage - Backend used to persist context entries
+   * @param retention - Age-based retention policy
    */
-  constructor(maxSize: number = 1000) {
-    this.contexts = new QuickLRU({ maxSize });
+  constructor(storage: ContextStorageBackend, retention: Partial<ContextRetentionPolicy> = {}) {
+    this.storage = storage;
+    this.retention = {
+      maxAge: retention.maxAge ?? 7 * 24 * 60 * 60 * 1000,
+      cleanupIntervalMs: retention.cleanupIntervalMs ?? 60 * 60 * 1000,
+    };
+
+    this.storage.onEviction(ids => {
+      ids.forEach(id => this.index.remove(id));
+      this.mutationGeneration++;
+    });
+    this.ready = this.storage.initialize()
+      .then(() => this.rebuildIndex())
+      .catch((err) => {
+        logger.error("Failed to initialize supervisor context storage", {
+          backend: this.storage.kind,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+    this.scheduleCleanup();
+  }
+
+  /**
+   * Storage backend identifier
+   */
+  get backend(): ContextStorageBackend['kind'] {
+    return this.storage.kind;
+  }
+
+  /**
+   * Counter bumped on every mutation; results computed under an older generation may be stale
+   */
+  get generation(): number {
+    return this.mutationGeneration;
   }
 
   /**
    * Add a new context entry to the store
    * @param entry - Context entry to add
    */
-  addContext(entry: ContextEntry): void {
-    this.contexts.set(entry.id, entry);
+  async addContext(entry: ContextEntry): Promise<void> {
+    await this.ready;
+    // Delegation, workflow and capability text can carry credentials; it is masked before storage.
+    // Documents are redacted before chunking so chunk offsets and embeddings match the stored text.
+    if (entry.type !== 'document') entry = redactSecrets(entry);
+    await this.storage.put(entry);
+    this.indexEntry(entry);
+    this.mutationGeneration++;
   }
 
   /**
    * Get all stored contexts as an array
    * @returns Array of all context entries
    */
-  getAll(): ContextEntry[] {
-    return Array.from(this.contexts.values());
+  async getAll(): Promise<ContextEntry[]> {
+    return this.storage.getAll();
+  }
+
+  /**
+   * Query contexts by type, agent type, task or workflow
+   * @param filter - Structured filter
+   * @returns Matching context entries, newest first
+   */
+  async query(filter: ContextQuery): Promise<ContextEntry[]> {
+    return this.storage.query(filter);
   }
 
   /**
    * Get statistics about the stored contexts
    * @returns Statistics object with total count and timestamp info
    */
-  getStats() {
-    const allContexts = this.getAll();
+  async getStats() {
+    const allContexts = await this.getAll();
     return {
-      total: this.contexts.size,
+      backend: this.storage.kind,
+      total: allContexts.length,
       oldest: allContexts.length > 0 
         ? Math.min(...allContexts.map(e => e.metadata.timestamp)) 
         : null,
       newest: allContexts.length > 0 
         ? Math.max(...allContexts.map(e => e.metadata.timestamp)) 
         : null,
+      retentionMaxAge: this.retention.maxAge,
+      indexedContexts: this.index.size,
     };
   }
 
   /**
-   * Clean up old contexts older than specified age
-   * @param maxAge - Maximum age in milliseconds (default: 7 days)
+   * Clean up old contexts older than specified age. Knowledge base documents are never expired.
+   * @param maxAge - Maximum age in milliseconds (default: retention policy max age)
    * @returns Number of contexts removed
    */
-  cleanup(maxAge: number = 7 * 24 * 60 * 60 * 1000): number {
-    const cutoff = Date.now() - maxAge;
-    let removed = 0;
-    
-    for (const [id, ctx] of this.contexts.entries()) {
-      if (ctx.metadata.timestamp < cutoff) {
-        this.contexts.delete(id);
-        removed++;
-      }
+  async cleanup(maxAge: number = this.retention.maxAge): Promise<number> {
+    const removed = await this.storage.deleteOlderThan(Date.now() - maxAge);
+    removed.forEach(id => this.index.remove(id));
+    if (removed.length > 0) this.mutationGeneration++;
+    return removed.length;
+  }
+
+  /**
+   * Stop the retention schedule and release the storage backend
+   */
+  async close(): Promise<void> {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
     }
-    
+    await this.storage.close();
+  }
+
+  /**
+   * Delete contexts by id
+   * @param ids - Context entry ids
+   * @returns Number of contexts removed
+   */
+  async deleteContexts(ids: string[]): Promise<number> {
+    const removed = await this.storage.delete(ids);
+    ids.forEach(id => this.index.remove(id));
+    if (removed > 0) this.mutationGeneration++;
     return removed;
   }
 
   /**
-   * Search contexts using text-based scoring algorithm
+   * Search contexts using BM25 keyword scoring
    * @param query - Search query string
    * @param opts - Search options for filtering and limiting results
    * @returns Array of matching context entries sorted by relevance
    */
-  search(query: string, opts: { 
-    type?: string; 
-    agentType?: string; 
-    tags?: string[]; 
-    limit?: number; 
-    minScore?: number; 
-  } = {}): ContextEntry[] {
-    const { type, agentType, tags, limit = 10, minScore = 1 } = opts;
-    const q = query.toLowerCase();
+  async search(query: string, opts: ContextSearchOptions = {}): Promise<ContextEntry[]> {
+    const results = await this.searchScored(query, opts);
+    return results.map(r => r.entry);
+  }
+
+  /**
+   * Search contexts and keep the computed relevance score for each hit.
+   * Entries that match no query term are dropped unless `includeUnmatched` is set; the type, agent,
+   * tag, recency and relevance bonuses only rank the entries that do match.
+   * @param query - Search query string
+   * @param opts - Search options for filtering and limiting results
+   * @returns Scored context entries sorted by relevance
+   */
+  async searchScored(query: string, opts: ContextSearchOptions = {}): Promise<ScoredContext[]> {
+    const { type, agentType, tags, limit = 10, minScore = 1, filter, includeUnmatched = false } = opts;
+    await this.ready;
+    const candidates = filter ? await this.storage.query(filter) : await this.getAll();
+    const keywordScores = this.index.search(query);
     
-    let results = this.getAll().map(ctx => {
-      let score = 0;
-      
-      // Content matching (highest weight)
-      if (ctx.content.toLowerCase().includes(q)) score += 10;
-      
-      // Source matching
-      if (ctx.source.toLowerCase().includes(q)) score += 2;
+    let results = candidates.map(entry => {
+      // BM25 over content, source and tags (highest weight)
+      let score = keywordScores.get(entry.id) ?? 0;
+      if (score === 0) return { entry, score, matched: false };
       
       // Type filter bonus
-      if (type && ctx.type === type) score += 2;
+      if (type && entry.type === type) score += 2;
       
       // Agent type filter bonus
-      if (agentType && ctx.metadata.agentType === agentType) score += 2;
+      if (agentType && entry.metadata.agentType === agentType) score += 2;
       
       // Tags matching bonus
-      if (tags && ctx.metadata.tags && tags.some(t => ctx.metadata.tags!.includes(t))) {
+      if (tags && entry.metadata.tags && tags.some(t => entry.metadata.tags!.includes(t))) {
         score += 1;
       }
       
-      // Recency bonus (fresher content gets higher score)
-      const daysSinceCreation = (Date.now() - ctx.metadata.timestamp) / (1000 * 60 * 60 * 24);
-      score += Math.max(0, 5 - daysSinceCreation);
+      // Recency bonus (fresher content gets higher score); a document's ingestion time says nothing about its relevance
+      if (entry.type !== 'document') {
+        const daysSinceCreation = (Date.now() - entry.metadata.timestamp) / (1000 * 60 * 60 * 24);
+        score += Math.max(0, 5 - daysSinceCreation);
+      }
       
       // Pre-computed relevance score bonus
-      if (ctx.metadata.relevanceScore) {
-        score += ctx.metadata.relevanceScore;
+      if (entry.metadata.relevanceScore) {
+        score += entry.metadata.relevanceScore;
       }
       
-      return { ctx, score };
+      return { entry, score, matched: true };
     });
 
-    // Filter by minimum score and sort by relevance
-    results = results.filter(r => r.score >= minScore);
+    // Filter by match and minimum score and sort by relevance
+    results = results.filter(r => (r.matched || includeUnmatched) && r.score >= minScore);
     results.sort((a, b) => b.score - a.score);
     
-    return results.slice(0, limit).map(r => r.ctx);
+    return results.slice(0, limit).map(({ entry, score }) => ({ entry, score }));
+  }
+
+  /**
+   * Add an entry to the keyword index
+   * @private
+   */
+  private indexEntry(entry: ContextEntry): void {
+    this.index.add(entry.id, {
+      content: entry.content,
+      source: entry.source,
+      tags: entry.metadata.tags,
+    });
+  }
+
+  /**
+   * Rebuild the keyword index from every entry in storage
+   * @private
+   */
+  private async rebuildIndex(): Promise<void> {
+    this.index.clear();
+    const entries = await this.storage.getAll();
+    entries.forEach(entry => this.indexEntry(entry));
+    if (entries.length > 0) {
+      logger.debug("Rebuilt supervisor context keyword index", {
+        backend: this.storage.kind,
+        indexedContexts: entries.length,
+      });
+    }
+  }
+
+  /**
+   * Run the retention sweep on a fixed interval
+   * @private
+   */
+  private scheduleCleanup(): void {
+    if (this.retention.cleanupIntervalMs <= 0) return;
+
+    this.cleanupTimer = setInterval(() => {
+      this.cleanup()
+        .then((removed) => {
+          if (removed > 0) {
+            logger.info("Supervisor context retention sweep completed", {
+              backend: this.storage.kind,
+              removed,
+              maxAge: this.retention.maxAge,
+            });
+          }
+        })
+        .catch((err) => {
+          logger.warn("Supervisor context retention sweep failed", {
+            backend: this.storage.kind,
+            error: err instanceof Error ? err.message : String(err),
+          });
+        });
+    }, this.retention.cleanupIntervalMs);
+    // Never keep the process alive just for retention
+    this.cleanupTimer.unref();
   }
 }
 
+/**
+ * Configuration options for SupervisorRetriever
+ * @interface SupervisorRetrieverOptions
+ */
+export interface SupervisorRetrieverOptions {
+  /** Max number of contexts to return (default: 10) */
+  maxResults?: number;
+  /** Minimum relevance score to include (default: 1) */
+  defaultMinScore?: number;
+  /** If set, exposes `this.tool` for LLM-driven calls */
+  toolName?: string;
+  /** Description shown to the LLM for tool usage */
+  toolDescription?: string;
+  /** Maximum number of non-document contexts to store; document chunks are never evicted (default: 1000) */
+  storeMaxSize?: number;
+  /** Maximum number of document chunks to store; ingests that would exceed it are refused (default: unlimited) */
+  maxDocumentChunks?: number;
+  /** Number of distinct queries to cache (default: 200) */
+  searchCacheSize?: number;
+  /** Storage backend or backend configuration (default: in-memory LRU) */
+  storage?: ContextStorageBackend | ContextStorageConfig;
+  /** Age-based retention policy for stored contexts */
+  retention?: Partial<ContextRetentionPolicy>;
+  /** Embedding provider used for semantic document search; documents are not embedded when omitted */
+  embeddings?: EmbeddingProvider;
+  /** Weight of the semantic score in hybrid document search, between 0 and 1 (default: 0.5) */
+  hybridAlpha?: number;
+}
+
 /**
  * SupervisorRetriever: Production-ready, text-based context retriever for supervisor/worker agents.
  * Implements advanced VoltAgent patterns with enhanced userContext integration and performance optimizations.
@@ -182,9 +582,14 @@ class SupervisorContextStore {
  */
 export class SupervisorRetriever extends BaseRetriever {
   private readonly contextStore: SupervisorContextStore;
-  private readonly searchCache: QuickLRU<string, string>;
+  private readonly searchCache: QuickLRU<string, { result: string; hits: number }>;
+  private readonly cacheStats = { hits: 0, misses: 0, evictions: 0, invalidations: 0 };
+  private cacheGeneration = 0;
   private readonly maxResults: number;
   private readonly defaultMinScore: number;
+  private readonly embeddings?: EmbeddingProvider;
+  private readonly hybridAlpha: number;
+  private readonly maxDocumentChunks: number;
   private readonly userContextRefs: WeakMap<any, string>; // Track userContext references
 
   /**
@@ -194,36 +599,50 @@ export class SupervisorRetriever extends BaseRetriever {
    * @param options.defaultMinScore - Minimum relevance score to include (default: 1)
    * @param options.toolName - If set, exposes `this.tool` for LLM-driven calls
    * @param options.toolDescription - Description shown to the LLM for tool usage
-   * @param options.storeMaxSize - Maximum number of contexts to store (default: 1000)
+   * @param options.storeMaxSize - Maximum number of non-document contexts to store (default: 1000)
+   * @param options.maxDocumentChunks - Maximum number of document chunks to store (default: unlimited)
    * @param options.searchCacheSize - Number of distinct queries to cache (default: 200)
+   * @param options.storage - Storage backend or backend configuration (default: in-memory LRU)
+   * @param options.retention - Age-based retention policy for stored contexts
+   * @param options.embeddings - Embedding provider used for semantic document search
+   * @param options.hybridAlpha - Weight of the semantic score in hybrid document search (default: 0.5)
    */
-  constructor(options: {
-    maxResults?: number;
-    defaultMinScore?: number;
-    toolName?: string;
-    toolDescription?: string;
-    storeMaxSize?: number;
-    searchCacheSize?: number;
-  } = {}) {
+  constructor(options: SupervisorRetrieverOptions = {}) {
     // Initialize BaseRetriever with tool configuration following VoltAgent patterns
     super({ 
       toolName: options.toolName, 
       toolDescription: options.toolDescription 
     });
     
-    this.contextStore = new SupervisorContextStore(options.storeMaxSize ?? 1000);
-    this.searchCache = new QuickLRU({ maxSize: options.searchCacheSize ?? 200 });
+    const storeMaxSize = options.storeMaxSize ?? 1000;
+    const storage = options.storage && 'kind' in options.storage
+      ? options.storage
+      : createContextStorage(options.storage ?? { backend: 'memory', maxSize: storeMaxSize });
+
+    this.contextStore = new SupervisorContextStore(storage, options.retention);
+    this.searchCache = new QuickLRU({
+      maxSize: options.searchCacheSize ?? 200,
+      onEviction: () => {
+        this.cacheStats.evictions++;
+      },
+    });
     this.maxResults = options.maxResults ?? 10;
     this.defaultMinScore = options.defaultMinScore ?? 1;
+    this.embeddings = options.embeddings;
+    this.hybridAlpha = Math.min(1, Math.max(0, options.hybridAlpha ?? 0.5));
+    this.maxDocumentChunks = options.maxDocumentChunks ?? Infinity;
     this.userContextRefs = new WeakMap();
     
     logger.info("SupervisorRetriever initialized with VoltAgent optimizations", {
       maxResults: this.maxResults,
       defaultMinScore: this.defaultMinScore,
-      storeMaxSize: options.storeMaxSize ?? 1000,
+      storeMaxSize,
+      maxDocumentChunks: options.maxDocumentChunks,
+      storageBackend: this.contextStore.backend,
       searchCacheSize: options.searchCacheSize ?? 200,
       toolEnabled: Boolean(options.toolName),
-      features: ["userContext-tracking", "lru-caching", "enhanced-scoring", "context-correlation"]
+      embeddingModel: this.embeddings?.model,
+      features: ["userContext-tracking", "lru-caching", "bm25-scoring", "context-correlation", "pluggable-storage"]
     });
   }
 
@@ -238,6 +657,7 @@ export class SupervisorRetriever extends BaseRetriever {
   async retrieve(input: string | BaseMessage[], options: RetrieverOptions = {}): Promise<string> {
     const retrievalId = generateId();
     const startTime = Date.now();
+    const span = startRetrievalSpan(this.tool.name, options.userContext);
     
     try {
       // Extract query string from input (following VoltAgent documentation pattern)
@@ -246,6 +666,7 @@ export class SupervisorRetriever extends BaseRetriever {
         : (input[input.length - 1]?.content as string);
         
       if (!query) {
+        endSpan(span, undefined, { 'retrieval.hits': 0 });
         return "No query provided for context retrieval.";
       }
 
@@ -254,25 +675,28 @@ export class SupervisorRetriever extends BaseRetriever {
         this.userContextRefs.set(options.userContext, retrievalId);
       }
 
-      // Enhanced cache key with context awareness
-      const cacheKey = this.createCacheKey(query, options);
-      if (this.searchCache.has(cacheKey)) {
-        const cachedResult = this.searchCache.get(cacheKey)!;
+      // Drop every cached result once the store has changed since it was cached
+      this.invalidateStaleCache();
+
+      // Cache key covers the query and every filter dimension
+      const searchOptions = this.buildSearchOptions(options);
+      const cacheKey = this.createCacheKey(query, searchOptions);
+      const cachedResult = this.searchCache.get(cacheKey);
+      if (cachedResult !== undefined) {
+        this.cacheStats.hits++;
         logger.debug("Supervisor retrieval cache hit", { 
           retrievalId, 
           query: query.substring(0, 50),
           cacheKey: cacheKey.substring(0, 30)
         });
-        return cachedResult;
+        endSpan(span, undefined, { 'retrieval.hits': cachedResult.hits, 'retrieval.cache_hit': true });
+        recordRetrieval('hit', Date.now() - startTime);
+        return cachedResult.result;
       }
+      this.cacheStats.misses++;
 
       // Advanced context search with multi-dimensional scoring
-      const searchOptions = this.buildSearchOptions(options);
-      const ctxs = this.contextStore.search(query, {
-        ...searchOptions,
-        limit: this.maxResults,
-        minScore: this.defaultMinScore,
-      });
+      const ctxs = await this.contextStore.search(query, searchOptions);
 
       let result: string;
       if (ctxs.length === 0) {
@@ -287,8 +711,10 @@ export class SupervisorRetriever extends BaseRetriever {
         this.storeEnhancedReferences(options.userContext, ctxs, retrievalId, query);
       }
 
-      // Cache with enhanced key
-      this.searchCache.set(cacheKey, result);
+      // Only cache if no mutation landed while searching, otherwise the result may already be stale
+      if (this.contextStore.generation === this.cacheGeneration) {
+        this.searchCache.set(cacheKey, { result, hits: ctxs.length });
+      }
       
       const duration = Date.now() - startTime;
       logger.info("Advanced supervisor retrieval completed", {
@@ -298,13 +724,17 @@ export class SupervisorRetriever extends BaseRetriever {
         formattedLength: result.length,
         query: query.substring(0, 100),
         cacheSize: this.searchCache.size,
-        storeStats: this.contextStore.getStats()
+        storeStats: await this.contextStore.getStats()
       });
+      endSpan(span, undefined, { 'retrieval.hits': ctxs.length, 'retrieval.cache_hit': false });
+      recordRetrieval('miss', duration);
       
       return result;
     } catch (err) {
       const duration = Date.now() - startTime;
       const errorMessage = err instanceof Error ? err.message : String(err);
+      endSpan(span, err);
+      recordRetrieval('miss', duration, err);
       logger.error("Supervisor retrieval failed with enhanced error handling", {
         retrievalId,
         duration,
@@ -317,31 +747,63 @@ export class SupervisorRetriever extends BaseRetriever {
   }
 
   /**
-   * Create intelligent cache key with context awareness
+   * Create a cache key from the normalized query and every search option that affects the result
    * @private
    */
-  private createCacheKey(query: string, options: RetrieverOptions): string {
-    const baseKey = query.toLowerCase();
-    // Add context-specific elements to cache key for better hit rates
-    return `${baseKey}`;
+  private createCacheKey(query: string, searchOptions: ContextSearchOptions): string {
+    const { type, agentType, tags, limit, minScore, filter } = searchOptions;
+    return JSON.stringify([
+      query.trim().toLowerCase().replace(/\s+/g, ' '),
+      type ?? null,
+      agentType ?? null,
+      tags ? [...tags].sort() : null,
+      limit,
+      minScore,
+      filter
+        ? Object.keys(filter).sort().map(key => [key, filter[key as keyof ContextQuery]])
+        : null,
+    ]);
   }
 
   /**
-   * Build advanced search options from retriever context
+   * Build search options from retriever options.
+   * `contextType`, `agentType` and `tags` boost matching contexts;
+   * `taskId` and `workflowId` restrict the search to that task or workflow.
    * @private
    */
-  private buildSearchOptions(options: RetrieverOptions): Partial<Parameters<SupervisorContextStore['search']>[1]> {
-    const searchOpts: any = {};
-    
-    // Extract potential filters from userContext if available
-    if (options.userContext) {
-      // Could enhance with agent type filtering, etc.
-      // This is a placeholder for future context-aware filtering
-    }
-    
+  private buildSearchOptions(options: RetrieverOptions): ContextSearchOptions {
+    const searchOpts: ContextSearchOptions = {
+      limit: typeof options.limit === 'number' ? options.limit : this.maxResults,
+      minScore: typeof options.minScore === 'number' ? options.minScore : this.defaultMinScore,
+    };
+
+    if (typeof options.contextType === 'string') searchOpts.type = options.contextType;
+    if (typeof options.agentType === 'string') searchOpts.agentType = options.agentType;
+    if (Array.isArray(options.tags)) searchOpts.tags = options.tags.map(String);
+
+    const filter: ContextQuery = {};
+    if (typeof options.taskId === 'string') filter.taskId = options.taskId;
+    if (typeof options.workflowId === 'string') filter.workflowId = options.workflowId;
+    if (Object.keys(filter).length > 0) searchOpts.filter = filter;
+
     return searchOpts;
   }
 
+  /**
+   * Clear the search cache if the context store mutated since the cache was filled
+   * @private
+   */
+  private invalidateStaleCache(): void {
+    const generation = this.contextStore.generation;
+    if (generation === this.cacheGeneration) return;
+
+    if (this.searchCache.size > 0) {
+      this.cacheStats.invalidations++;
+      this.searchCache.clear();
+    }
+    this.cacheGeneration = generation;
+  }
+
   /**
    * Format retrieved contexts for LLM with enhanced VoltAgent patterns
    * @private
@@ -351,7 +813,10 @@ export class SupervisorRetriever extends BaseRetriever {
       .map((ctx, index) => {
         const relevanceIndicator = ctx.metadata.relevanceScore ? ` (relevance: ${ctx.metadata.relevanceScore})` : '';
         const ageIndicator = this.getAgeIndicator(ctx.metadata.timestamp);
-        return `[Context ${index + 1}/${contexts.length}] ${ctx.type.toUpperCase()}${relevanceIndicator}${ageIndicator}\nSource: ${ctx.source}\n${ctx.content}`;
+        const citation = ctx.type === 'document'
+          ? `\nCitation: [${formatCitationId(ctx.metadata.documentId, ctx.metadata.charStart, ctx.metadata.charEnd)}]`
+          : '';
+        return `[Context ${index + 1}/${contexts.length}] ${ctx.type.toUpperCase()}${relevanceIndicator}${ageIndicator}\nSource: ${ctx.source}${citation}\n${ctx.content}`;
       })
       .join('\n\n---\n\n');
   }
@@ -402,16 +867,12 @@ export class SupervisorRetriever extends BaseRetriever {
     if (ageMinutes > 0) return ` (${ageMinutes}m ago)`;
     return ' (recent)';
   }
-      });
-      return "Retrieval error: proceeding without prior context.";
-    }
-  }
 
   /**
    * Add a delegation result context entry
    * @param result - Delegation result data to store as context
    */
-  addDelegationContext(result: {
+  async addDelegationContext(result: {
     agentType: string;
     task: string;
     result: string;
@@ -419,7 +880,7 @@ export class SupervisorRetriever extends BaseRetriever {
     workflowId?: string;
     success: boolean;
     duration?: number;
-  }): void {
+  }): Promise<void> {
     try {
       const truncatedResult = result.result.length > 200 
         ? `${result.result.substring(0, 200)}...` 
@@ -444,7 +905,7 @@ export class SupervisorRetriever extends BaseRetriever {
         }
       };
       
-      this.contextStore.addContext(entry);
+      await this.contextStore.addContext(entry);
       
       logger.debug("Added delegation context", {
         entryId: entry.id,
@@ -464,13 +925,13 @@ export class SupervisorRetriever extends BaseRetriever {
    * Add workflow context entry
    * @param workflow - Workflow data to store as context
    */
-  addWorkflowContext(workflow: {
+  async addWorkflowContext(workflow: {
     description: string;
     steps: string[];
     workflowId: string;
     status: 'started' | 'completed' | 'failed';
     agents: string[];
-  }): void {
+  }): Promise<void> {
     try {
       const entry: ContextEntry = {
         id: generateId(),
@@ -485,7 +946,7 @@ export class SupervisorRetriever extends BaseRetriever {
         }
       };
       
-      this.contextStore.addContext(entry);
+      await this.contextStore.addContext(entry);
       
       logger.debug("Added workflow context", {
         entryId: entry.id,
@@ -505,13 +966,13 @@ export class SupervisorRetriever extends BaseRetriever {
    * Add agent capability information
    * @param capability - Agent capability data to store as context
    */
-  addCapabilityContext(capability: {
+  async addCapabilityContext(capability: {
     agentType: string;
     capability: string;
     description: string;
     examples: string[];
     limitations?: string[];
-  }): void {
+  }): Promise<void> {
     try {
       const limitationsText = capability.limitations 
         ? `\nLimitations: ${capability.limitations.join(', ')}`
@@ -530,7 +991,7 @@ export class SupervisorRetriever extends BaseRetriever {
         }
       };
       
-      this.contextStore.addContext(entry);
+      await this.contextStore.addContext(entry);
       
       logger.debug("Added capability context", {
         entryId: entry.id,
@@ -546,23 +1007,430 @@ export class SupervisorRetriever extends BaseRetriever {
     }
   }
 
+  /**
+   * Ingest a document into the knowledge base by chunking it with overlap.
+   * Re-ingesting an existing documentId replaces its previous chunks.
+   * Secrets are masked before chunking, so chunk offsets, citations and embeddings all refer to the masked text.
+   * @param input - Document content, source information and chunking options
+   * @returns Summary of the stored document
+   * @throws Error if the document has no content or would exceed maxDocumentChunks
+   */
+  async ingestDocument(input: DocumentIngestInput): Promise<DocumentSummary> {
+    input = redactDocument(input);
+    const chunks = chunkDocument(input.content, {
+      chunkSize: input.chunkSize,
+      chunkOverlap: input.chunkOverlap,
+    });
+    if (chunks.length === 0) {
+      throw new Error(`Document '${input.documentId}' has no content to ingest`);
+    }
+
+    const storedChunks = (await this.contextStore.query({ type: 'document' }))
+      .filter(chunk => chunk.metadata.documentId !== input.documentId).length;
+    if (storedChunks + chunks.length > this.maxDocumentChunks) {
+      logger.warn("Refused knowledge base document over capacity", {
+        documentId: input.documentId,
+        chunkCount: chunks.length,
+        storedChunks,
+        maxDocumentChunks: this.maxDocumentChunks,
+      });
+      throw new Error(
+        `Knowledge base is full: document '${input.documentId}' needs ${chunks.length} chunks but only ` +
+        `${Math.max(0, this.maxDocumentChunks - storedChunks)} of ${this.maxDocumentChunks} are free`
+      );
+    }
+
+    const embedded = await this.embedTexts(chunks.map(chunk => chunk.content));
+    const removed = await this.deleteDocument(input.documentId);
+    const timestamp = Date.now();
+    const tags = input.tags ?? [];
+
+    for (const chunk of chunks) {
+      const entry: ContextEntry = {
+        id: `${input.documentId}#${chunk.index}`,
+        content: chunk.content,
+        source: input.source,
+        type: 'document',
+        metadata: {
+          ...input.metadata,
+          timestamp,
+          documentId: input.documentId,
+          chunkIndex: chunk.index,
+          chunkCount: chunks.length,
+          charStart: chunk.start,
+          charEnd: chunk.end,
+          lineStart: chunk.lineStart,
+          lineEnd: chunk.lineEnd,
+          sourceType: input.sourceType,
+          tags,
+          contentLength: input.content.length,
+          ...(input.title && { title: input.title }),
+          ...(input.headings?.length && { headingPath: headingPathAt(input.headings, chunk.start) }),
+          ...(embedded && {
+            // Six decimals keep persisted vectors compact without changing rankings
+            embedding: embedded.vectors[chunk.index].map(v => Math.round(v * 1e6) / 1e6),
+            embeddingModel: embedded.model,
+          }),
+        },
+      };
+      await this.contextStore.addContext(entry);
+    }
+
+    const summary = this.toDocumentSummary(input.documentId, await this.getDocumentChunks(input.documentId));
+    if (!summary || summary.missingChunks > 0) {
+      throw new Error(
+        `Document '${input.documentId}' was only partially stored: ${summary?.chunkCount ?? 0} of ${chunks.length} chunks`
+      );
+    }
+
+    logger.info("Ingested knowledge base document", {
+      documentId: input.documentId,
+      source: input.source,
+      sourceType: input.sourceType,
+      chunkCount: summary.chunkCount,
+      contentLength: input.content.length,
+      embeddingModel: embedded?.model,
+      replacedChunks: removed,
+    });
+
+    return summary;
+  }
+
+  /**
+   * Search knowledge base document chunks by keyword, embedding similarity, or a blend of both.
+   * Semantic and hybrid searches fall back to keyword ranking when no embeddings are available.
+   * Scores are between 0 and 1 in every mode: keyword scores are BM25 normalized by the best match.
+   * @param query - Search query string
+   * @param options - Ranking mode, result limit, minimum score and document filters
+   * @returns Scored chunks sorted by relevance
+   */
+  async searchDocuments(query: string, options: DocumentSearchOptions = {}): Promise<ScoredContext[]> {
+    const requestedMode = options.mode ?? (this.embeddings ? 'hybrid' : 'keyword');
+    const queryEmbedding = requestedMode === 'keyword' ? null : await this.embedTexts([query]);
+    const mode = queryEmbedding ? requestedMode : 'keyword';
+
+    // Chunks score by BM25 alone: type and tags are hard filters here, not bonuses.
+    // Semantic and hybrid modes rank every chunk, including those that share no term with the query.
+    const keywordResults = await this.contextStore.searchScored(query, {
+      limit: Number.MAX_SAFE_INTEGER,
+      minScore: -Infinity,
+      filter: { type: 'document' },
+      includeUnmatched: mode !== 'keyword',
+    });
+
+    const candidates = keywordResults
+      .filter(r => !options.sourceType || r.entry.metadata.sourceType === options.sourceType)
+      .filter(r => !options.tags?.length || options.tags.some(tag => r.entry.metadata.tags?.includes(tag)));
+
+    const alpha = Math.min(1, Math.max(0, options.alpha ?? this.hybridAlpha));
+    const maxKeyword = Math.max(0, ...candidates.map(r => r.score));
+
+    return candidates
+      .map(({ entry, score }) => {
+        const keywordScore = maxKeyword > 0 ? score / maxKeyword : 0;
+        if (!queryEmbedding) {
+          return { entry, score: keywordScore, keywordScore };
+        }
+
+        // Chunks embedded by a different model (or not at all) have no comparable vector
+        const semanticScore = entry.metadata.embeddingModel === queryEmbedding.model
+          ? Math.max(0, cosineSimilarity(queryEmbedding.vectors[0], entry.metadata.embedding))
+          : 0;
+        return {
+          entry,
+          score: mode === 'semantic' ? semanticScore : alpha * semanticScore + (1 - alpha) * keywordScore,
+          keywordScore,
+          semanticScore,
+        };
+      })
+      .filter(r => r.score >= (options.minScore ?? 0))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? this.maxResults);
+  }
+
+  /**
+   * List ingested documents, one summary per documentId
+   * @param filter - Optional source type and tag filters
+   * @returns Document summaries, newest first
+   */
+  async listDocuments(filter: { sourceType?: DocumentSourceType; tags?: string[] } = {}): Promise<DocumentSummary[]> {
+    const chunks = await this.contextStore.query({ type: 'document' });
+    const byDocument = new Map<string, ContextEntry[]>();
+    for (const chunk of chunks) {
+      const documentId = chunk.metadata.documentId as string;
+      byDocument.set(documentId, [...(byDocument.get(documentId) ?? []), chunk]);
+    }
+
+    return Array.from(byDocument.entries())
+      .map(([documentId, documentChunks]) => this.toDocumentSummary(documentId, documentChunks)!)
+      .filter(doc => !filter.sourceType || doc.sourceType === filter.sourceType)
+      .filter(doc => !filter.tags?.length || filter.tags.some(tag => doc.tags.includes(tag)))
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Fetch a whole document, reassembled from its chunks
+   * @param documentId - Document identifier
+   * @returns The stored document, or undefined if it does not exist. Check `missingChunks`:
+   * a document whose ingestion was interrupted is returned with gaps.
+   */
+  async getDocument(documentId: string): Promise<StoredDocument | undefined> {
+    const chunks = await this.getDocumentChunks(documentId);
+    const summary = this.toDocumentSummary(documentId, chunks);
+    if (!summary) return undefined;
+    if (summary.missingChunks > 0) {
+      logger.warn("Knowledge base document is missing chunks", {
+        documentId,
+        chunkCount: summary.chunkCount,
+        missingChunks: summary.missingChunks,
+      });
+    }
+
+    // Chunks overlap, so stitch them together by their source offsets
+    let content = '';
+    for (const chunk of chunks) {
+      const start = chunk.metadata.charStart as number;
+      if (start > content.length) {
+        content += (start - content.length === 1 ? ' ' : '\n'.repeat(start - content.length));
+      }
+      content += chunk.content.slice(content.length - start);
+    }
+
+    return { ...summary, content, chunks };
+  }
+
+  /**
+   * Expand a citation into the cited passage plus the text around it
+   * @param citationId - Citation id returned with a search hit
+   * @param contextChars - Characters of surrounding text to include on each side (default: 500)
+   * @returns The expanded citation, or undefined if the document no longer exists
+   * @throws Error if the citation id is malformed
+   */
+  async expandCitation(citationId: string, contextChars = 500): Promise<CitationExpansion | undefined> {
+    const parsed = parseCitationId(citationId);
+    if (!parsed) {
+      throw new Error(`Invalid citation id '${citationId}'`);
+    }
+
+    const document = await this.getDocument(parsed.documentId);
+    if (!document) return undefined;
+
+    const charStart = Math.min(parsed.charStart, document.content.length);
+    const charEnd = Math.min(parsed.charEnd, document.content.length);
+    const exact = document.chunks.find(c => c.metadata.charStart === parsed.charStart && c.metadata.charEnd === parsed.charEnd);
+    const enclosing = exact ?? document.chunks.find(c => c.metadata.charStart <= charStart && charStart < c.metadata.charEnd);
+    const lineAt = (offset: number) => document.content.slice(0, offset).split('\n').length;
+
+    return {
+      citationId: formatCitationId(parsed.documentId, parsed.charStart, parsed.charEnd),
+      documentId: document.documentId,
+      source: document.source,
+      title: document.title,
+      charStart,
+      charEnd,
+      lineStart: exact?.metadata.lineStart ?? lineAt(charStart),
+      lineEnd: exact?.metadata.lineEnd ?? lineAt(Math.max(charStart, charEnd - 1)),
+      headingPath: enclosing?.metadata.headingPath ?? [],
+      before: document.content.slice(Math.max(0, charStart - contextChars), charStart),
+      passage: document.content.slice(charStart, charEnd),
+      after: document.content.slice(charEnd, charEnd + contextChars),
+      stale: !exact,
+    };
+  }
+
+  /**
+   * Delete every chunk of a document
+   * @param documentId - Document identifier
+   * @returns Number of chunks removed
+   */
+  async deleteDocument(documentId: string): Promise<number> {
+    const chunks = await this.contextStore.query({ type: 'document', documentId });
+    if (chunks.length === 0) return 0;
+
+    const removed = await this.contextStore.deleteContexts(chunks.map(chunk => chunk.id));
+    logger.debug("Deleted knowledge base document", { documentId, removedChunks: removed });
+    return removed;
+  }
+
+  /**
+   * Export every stored entry, oldest first, for snapshots and backups
+   * @returns All context entries including document chunks, metadata and embeddings
+   */
+  async exportEntries(): Promise<ContextEntry[]> {
+    const entries = await this.contextStore.getAll();
+    return entries.sort((a, b) => a.metadata.timestamp - b.metadata.timestamp || a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Restore entries exported with exportEntries.
+   * In 'replace' mode the store is emptied first. In 'merge' mode every document in the import
+   * replaces all existing chunks of the same documentId, and other entries are upserted by id.
+   * The import is checked against maxDocumentChunks before anything is removed, and if adding an
+   * entry fails, the entries added so far are removed and the replaced entries are put back.
+   * @param entries - Entries to restore
+   * @param mode - Merge into or replace the current contents
+   * @returns Number of entries imported and existing entries removed
+   * @throws Error if the import would exceed maxDocumentChunks or could not be stored
+   */
+  async importEntries(entries: ContextEntry[], mode: 'merge' | 'replace'): Promise<{ imported: number; removed: number }> {
+    const existing = await this.contextStore.getAll();
+    const documentIds = new Set(entries.filter(e => e.type === 'document').map(e => e.metadata.documentId as string));
+    const entryIds = new Set(entries.map(e => e.id));
+    const replaced = mode === 'replace'
+      ? existing
+      : existing.filter(e => (e.type === 'document' && documentIds.has(e.metadata.documentId as string)) || entryIds.has(e.id));
+
+    const replacedIds = new Set(replaced.map(e => e.id));
+    const keptChunks = existing.filter(e => e.type === 'document' && !replacedIds.has(e.id)).length;
+    const importedChunks = entries.filter(e => e.type === 'document').length;
+    if (keptChunks + importedChunks > this.maxDocumentChunks) {
+      logger.warn("Refused knowledge base import over capacity", {
+        mode,
+        importedChunks,
+        keptChunks,
+        maxDocumentChunks: this.maxDocumentChunks,
+      });
+      throw new Error(
+        `Knowledge base is full: the import holds ${importedChunks} document chunks but only ` +
+        `${Math.max(0, this.maxDocumentChunks - keptChunks)} of ${this.maxDocumentChunks} are free`
+      );
+    }
+
+    const removed = await this.contextStore.deleteContexts([...replacedIds]);
+    const added: string[] = [];
+    try {
+      for (const entry of entries) {
+        // Recorded first, so an entry that failed halfway is removed as well
+        added.push(entry.id);
+        await this.contextStore.addContext(entry);
+      }
+    } catch (err) {
+      logger.error("Knowledge base import failed, restoring the previous entries", {
+        mode,
+        added: added.length,
+        restored: replaced.length,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      await this.contextStore.deleteContexts(added);
+      for (const entry of replaced) {
+        await this.contextStore.addContext(entry);
+      }
+      throw err;
+    }
+
+    const currentModel = this.embeddings?.model;
+    const mismatchedEmbeddings = currentModel
+      ? entries.filter(e => e.metadata.embeddingModel && e.metadata.embeddingModel !== currentModel).length
+      : 0;
+    if (mismatchedEmbeddings > 0) {
+      logger.warn("Imported entries were embedded with a different model and rank by keyword only", {
+        currentModel,
+        mismatchedEmbeddings,
+      });
+    }
+
+    logger.info("Imported knowledge base entries", { mode, imported: entries.length, removed });
+    return { imported: entries.length, removed };
+  }
+
   /**
    * Get retrieval statistics
-   * @returns Statistics about the context store
+   * @returns Statistics about the context store and the search cache
+   */
+  async getStats() {
+    const lookups = this.cacheStats.hits + this.cacheStats.misses;
+    return {
+      ...(await this.contextStore.getStats()),
+      cache: {
+        ...this.cacheStats,
+        size: this.searchCache.size,
+        maxSize: this.searchCache.maxSize,
+        hitRate: lookups > 0 ? this.cacheStats.hits / lookups : 0,
+        generation: this.contextStore.generation,
+      },
+    };
+  }
+
+  /**
+   * Query stored contexts by type, agent type, task or workflow
+   * @param filter - Structured filter applied by the storage backend
+   * @returns Matching context entries, newest first
    */
-  getStats() {
-    return this.contextStore.getStats();
+  async queryContexts(filter: ContextQuery): Promise<ContextEntry[]> {
+    return this.contextStore.query(filter);
   }
 
   /**
    * Clean up old contexts older than maxAge (ms).
-   * @param maxAge - Maximum age in milliseconds (default: 7 days)
+   * @param maxAge - Maximum age in milliseconds (default: retention policy max age)
    * @returns Number of contexts removed
    */
-  cleanup(maxAge: number = 7 * 24 * 60 * 60 * 1000): number {
+  async cleanup(maxAge?: number): Promise<number> {
     return this.contextStore.cleanup(maxAge);
   }
 
+  /**
+   * Stop the retention schedule and close the storage backend
+   */
+  async close(): Promise<void> {
+    await this.contextStore.close();
+  }
+
+  /**
+   * Embed texts with the configured provider
+   * @returns Vectors and model, or null when embeddings are disabled or unavailable
+   * @private
+   */
+  private async embedTexts(texts: string[]): Promise<EmbeddingResult | null> {
+    if (!this.embeddings) return null;
+
+    try {
+      return await this.embeddings.embed(texts);
+    } catch (err) {
+      logger.warn("Embedding failed, continuing with keyword search only", {
+        model: this.embeddings.model,
+        textCount: texts.length,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Get all chunks of a document ordered by chunk index
+   * @private
+   */
+  private async getDocumentChunks(documentId: string): Promise<ContextEntry[]> {
+    const chunks = await this.contextStore.query({ type: 'document', documentId });
+    return chunks.sort((a, b) => (a.metadata.chunkIndex as number) - (b.metadata.chunkIndex as number));
+  }
+
+  /**
+   * Build a document summary from its chunks
+   * @private
+   */
+  private toDocumentSummary(documentId: string, chunks: ContextEntry[]): DocumentSummary | undefined {
+    if (chunks.length === 0) return undefined;
+
+    const first = chunks.reduce((a, b) => (a.metadata.chunkIndex <= b.metadata.chunkIndex ? a : b));
+    const metadata = { ...first.metadata };
+    CHUNK_METADATA_KEYS.forEach(key => delete metadata[key]);
+
+    return {
+      documentId,
+      source: first.source,
+      sourceType: first.metadata.sourceType,
+      title: first.metadata.title,
+      tags: first.metadata.tags ?? [],
+      chunkCount: chunks.length,
+      missingChunks: Math.max(0, (first.metadata.chunkCount ?? chunks.length) - chunks.length),
+      contentLength: first.metadata.contentLength ?? first.content.length,
+      timestamp: first.metadata.timestamp,
+      preview: first.content,
+      metadata,
+    };
+  }
+
   /**
    * Get the relevance score for a workflow based on its status.
    * @param status - Workflow status
@@ -583,13 +1451,6 @@ export class SupervisorRetriever extends BaseRetriever {
  * @param options - Configuration options for the retriever
  * @returns Configured SupervisorRetriever instance
  */
-export const createSupervisorRetriever = (options?: {
-  maxResults?: number;
-  defaultMinScore?: number;
-  toolName?: string;
-  toolDescription?: string;
-  storeMaxSize?: number;
-  searchCacheSize?: number;
-}): SupervisorRetriever => {
+export const createSupervisorRetriever = (options?: SupervisorRetrieverOptions): SupervisorRetriever => {
   return new SupervisorRetriever(options);
 };
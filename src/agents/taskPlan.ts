@@ -0,0 +1,451 @@
+/**
+ * @fileoverview Task Plans
+ *
+ * Explicit task graphs for multi-step requests. The supervisor submits a plan of nodes (a worker
+ * and its instruction) with the upstream nodes each one needs; the executor runs the graph in
+ * dependency order, starting every node whose inputs are complete, up to a concurrency cap.
+ * Node state is persisted after every change, so a failed or interrupted plan can be resumed:
+ * completed nodes keep their results and only the rest run again. Plan progress is published
+ * to the supervisor retriever as workflow context.
+ *
+ * @module TaskPlan
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import { createTool, type Agent, type ToolExecuteOptions } from '@voltagent/core';
+import type { VercelAIProvider } from '@voltagent/vercel-ai';
+import { generateId } from 'ai';
+import { z } from 'zod';
+import { env } from '../config/environment.js';
+import { createModuleLogger } from '../config/logger.js';
+import { COST_ATTRIBUTION_KEY, type CostAttribution } from './costLedger.js';
+import { runDelegatedTask } from './delegationFanOut.js';
+import type { SupervisorRetriever } from './supervisorRetriever.js';
+import type { TaskPlanStorageBackend } from './taskPlanStorage.js';
+
+const logger = createModuleLogger('taskPlan');
+
+/** Most nodes accepted in one plan */
+export const MAX_PLAN_NODES = 20;
+
+/** Characters of each upstream result passed to a downstream node */
+const INPUT_RESULT_LENGTH = 2000;
+
+export const taskPlanSchema = z.object({
+  goal: z.string().min(1).describe("What the plan achieves"),
+  nodes: z.array(z.object({
+    id: z.string().regex(/^[\w-]+$/, "Use letters, digits, '_' or '-'").describe("Unique node id, e.g. 'lint'"),
+    agent: z.string().min(1).describe("Worker agent name, as listed for delegation"),
+    instruction: z.string().min(1).describe("What the worker does in this step"),
+    inputs: z.array(z.string()).optional().describe("Ids of upstream nodes whose results this node receives"),
+  })).min(1).max(MAX_PLAN_NODES).describe("Plan steps; nodes without inputs start immediately"),
+  edges: z.array(z.object({
+    from: z.string(),
+    to: z.string(),
+  })).optional().describe("Extra ordering: 'to' starts after 'from' completes, without receiving its result"),
+});
+
+export type TaskPlanDefinition = z.infer<typeof taskPlanSchema>;
+
+export type TaskNodeStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+/**
+ * A plan step and its execution state
+ * @interface TaskPlanNode
+ */
+export interface TaskPlanNode {
+  id: string;
+  agent: string;
+  instruction: string;
+  /** Upstream nodes whose results are passed to this node */
+  inputs: string[];
+  /** Every node that must complete first: inputs plus edges */
+  dependsOn: string[];
+  status: TaskNodeStatus;
+  result?: string;
+  error?: string;
+  attempts: number;
+  startedAt?: number;
+  completedAt?: number;
+}
+
+/**
+ * A task graph; nodes are kept in topological order
+ * @interface TaskPlan
+ */
+export interface TaskPlan {
+  id: string;
+  goal: string;
+  sessionId?: string;
+  workflowId?: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'interrupted';
+  nodes: TaskPlanNode[];
+  edges: Array<{ from: string; to: string }>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Result of an upstream node, as passed downstream
+ */
+export type TaskNodeInput = Pick<TaskPlanNode, 'id' | 'agent'> & { result: string };
+
+/**
+ * Order nodes so each comes after everything it depends on
+ * @param nodes - Node ids with their dependencies
+ * @returns Node ids in topological order, ties kept in input order
+ * @throws Error if the dependencies contain a cycle
+ */
+export const topologicalOrder = (nodes: Array<Pick<TaskPlanNode, 'id' | 'dependsOn'>>): string[] => {
+  const remaining = new Map(nodes.map(node => [node.id, new Set(node.dependsOn)]));
+  const order: string[] = [];
+
+  while (remaining.size > 0) {
+    const ready = Array.from(remaining.keys()).filter(id => remaining.get(id)!.size === 0);
+    if (ready.length === 0) {
+      throw new Error(`Task plan has a dependency cycle between: ${Array.from(remaining.keys()).join(', ')}`);
+    }
+    for (const id of ready) {
+      order.push(id);
+      remaining.delete(id);
+      remaining.forEach(dependencies => dependencies.delete(id));
+    }
+  }
+  return order;
+};
+
+/**
+ * Validate a plan definition and create its initial state
+ * @param definition - Plan submitted by the supervisor
+ * @param options - Plan id, owning session and workflow, and the agent names and ids nodes may use
+ * @throws Error listing every problem found: duplicate ids, unknown nodes or agents, self-dependencies, cycles
+ */
+export const buildTaskPlan = (
+  definition: TaskPlanDefinition,
+  options: { id?: string; sessionId?: string; workflowId?: string; agents?: string[] } = {}
+): TaskPlan => {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  for (const node of definition.nodes) {
+    if (ids.has(node.id)) problems.push(`Duplicate node id '${node.id}'`);
+    ids.add(node.id);
+    if (options.agents && !options.agents.includes(node.agent)) problems.push(`Node '${node.id}' uses unknown agent '${node.agent}'`);
+  }
+
+  const edges = definition.edges ?? [];
+  for (const node of definition.nodes) {
+    for (const input of node.inputs ?? []) {
+      if (!ids.has(input)) problems.push(`Node '${node.id}' takes input from unknown node '${input}'`);
+      if (input === node.id) problems.push(`Node '${node.id}' depends on itself`);
+    }
+  }
+  for (const edge of edges) {
+    if (!ids.has(edge.from) || !ids.has(edge.to)) problems.push(`Edge ${edge.from} -> ${edge.to} references an unknown node`);
+    if (edge.from === edge.to) problems.push(`Node '${edge.from}' depends on itself`);
+  }
+  if (problems.length > 0) throw new Error(`Invalid task plan:\n  - ${problems.join('\n  - ')}`);
+
+  const nodes: TaskPlanNode[] = definition.nodes.map(node => ({
+    id: node.id,
+    agent: node.agent,
+    instruction: node.instruction,
+    inputs: node.inputs ?? [],
+    dependsOn: Array.from(new Set([...(node.inputs ?? []), ...edges.filter(edge => edge.to === node.id).map(edge => edge.from)])),
+    status: 'pending',
+    attempts: 0,
+  }));
+  const order = topologicalOrder(nodes);
+  const now = Date.now();
+
+  return {
+    id: options.id ?? `plan-${generateId()}`,
+    goal: definition.goal,
+    sessionId: options.sessionId,
+    workflowId: options.workflowId,
+    status: 'pending',
+    nodes: order.map(id => nodes.find(node => node.id === id)!),
+    edges,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Worker instruction for a node, followed by the results of its inputs
+ */
+export const formatNodeTask = (node: TaskPlanNode, inputs: TaskNodeInput[]): string => {
+  if (inputs.length === 0) return node.instruction;
+  const upstream = inputs.map(input => {
+    const result = input.result.length > INPUT_RESULT_LENGTH ? `${input.result.slice(0, INPUT_RESULT_LENGTH)}...` : input.result;
+    return `[${input.id}] ${input.agent}:\n${result}`;
+  });
+  return `${node.instruction}\n\nInputs from upstream tasks:\n${upstream.join('\n\n')}`;
+};
+
+/**
+ * Options for executing a plan
+ * @interface TaskPlanExecutionOptions
+ */
+export interface TaskPlanExecutionOptions {
+  storage: TaskPlanStorageBackend;
+  /** Runs one node and returns its result */
+  runNode: (node: TaskPlanNode, inputs: TaskNodeInput[], plan: TaskPlan) => Promise<string>;
+  maxConcurrency: number;
+  /** Called when the plan starts, after each node finishes, and when the plan ends */
+  onProgress?: (plan: TaskPlan, node?: TaskPlanNode) => Promise<void> | void;
+  /** Stops starting new nodes; nodes cut short are left pending for a resume */
+  signal?: AbortSignal;
+}
+
+/**
+ * Execute a plan, or resume one: completed nodes keep their results and every other node runs
+ * again. A node whose upstream failed is skipped.
+ * @param plan - Plan to run; updated in place and persisted after every change
+ * @param options - Storage, node runner, concurrency cap and progress callback
+ * @returns The plan in its final state
+ */
+export const executeTaskPlan = async (plan: TaskPlan, options: TaskPlanExecutionOptions): Promise<TaskPlan> => {
+  const { storage, runNode, maxConcurrency, onProgress, signal } = options;
+  const byId = new Map(plan.nodes.map(node => [node.id, node]));
+  const running = new Map<string, Promise<void>>();
+
+  let saving = Promise.resolve();
+  const persist = () => {
+    plan.updatedAt = Date.now();
+    const snapshot = structuredClone(plan);
+    saving = saving
+      .then(() => storage.save(snapshot))
+      .catch(error => logger.error("[TaskPlan] Failed to persist plan", {
+        planId: plan.id,
+        error: error instanceof Error ? error.message : String(error),
+      }));
+  };
+  const report = async (node?: TaskPlanNode) => {
+    try {
+      await onProgress?.(plan, node);
+    } catch (error) {
+      logger.warn("[TaskPlan] Progress callback failed", { planId: plan.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  for (const node of plan.nodes) {
+    if (node.status !== 'completed') {
+      node.status = 'pending';
+      node.error = undefined;
+    }
+  }
+  plan.status = 'running';
+  persist();
+  await report();
+
+  const start = (node: TaskPlanNode) => {
+    node.status = 'running';
+    node.attempts++;
+    node.startedAt = Date.now();
+    node.completedAt = undefined;
+    persist();
+
+    const inputs = node.inputs.map(id => {
+      const upstream = byId.get(id)!;
+      return { id, agent: upstream.agent, result: upstream.result ?? '' };
+    });
+    running.set(node.id, (async () => {
+      try {
+        node.result = await runNode(node, inputs, plan);
+        node.status = 'completed';
+      } catch (error) {
+        // Cut short by cancellation: left for a resume rather than counted as a failure
+        node.status = signal?.aborted ? 'pending' : 'failed';
+        node.error = error instanceof Error ? error.message : String(error);
+      }
+      node.completedAt = Date.now();
+      running.delete(node.id);
+      persist();
+      await report(node);
+    })());
+  };
+
+  for (;;) {
+    for (const node of plan.nodes) {
+      const blockedBy = node.status === 'pending' && node.dependsOn.find(id => ['failed', 'skipped'].includes(byId.get(id)!.status));
+      if (blockedBy) {
+        node.status = 'skipped';
+        node.error = `Upstream task '${blockedBy}' did not complete`;
+      }
+    }
+    if (!signal?.aborted) {
+      for (const node of plan.nodes) {
+        if (running.size >= maxConcurrency) break;
+        const ready = node.status === 'pending' && node.dependsOn.every(id => byId.get(id)!.status === 'completed');
+        if (ready) start(node);
+      }
+    }
+    if (running.size === 0) break;
+    await Promise.race(running.values());
+  }
+
+  const done = plan.nodes.every(node => node.status === 'completed');
+  plan.status = done ? 'completed' : plan.nodes.some(node => node.status === 'pending') ? 'interrupted' : 'failed';
+  persist();
+  await saving;
+  await report();
+
+  logger.info("[TaskPlan] Plan finished", {
+    planId: plan.id,
+    status: plan.status,
+    nodes: plan.nodes.length,
+    failed: plan.nodes.filter(node => node.status === 'failed').map(node => node.id),
+  });
+  return plan;
+};
+
+/**
+ * Publish a plan and its progress to the supervisor retriever as workflow context
+ */
+export const publishTaskPlanProgress = async (retriever: SupervisorRetriever, plan: TaskPlan): Promise<void> => {
+  const completed = plan.nodes.filter(node => node.status === 'completed').length;
+  await retriever.addWorkflowContext({
+    description: `Task plan ${plan.id} (${plan.status}, ${completed}/${plan.nodes.length} tasks done): ${plan.goal}`,
+    steps: plan.nodes.map(node => {
+      const after = node.dependsOn.length > 0 ? ` after ${node.dependsOn.join('+')}` : '';
+      return `${node.id} [${node.status}] ${node.agent}${after}: ${node.instruction}`;
+    }),
+    workflowId: plan.id,
+    status: plan.status === 'completed' ? 'completed' : plan.status === 'failed' ? 'failed' : 'started',
+    agents: Array.from(new Set(plan.nodes.map(node => node.agent))),
+  });
+};
+
+/**
+ * Compact view of a plan returned to the supervisor
+ */
+const describePlan = (plan: TaskPlan) => ({
+  planId: plan.id,
+  goal: plan.goal,
+  status: plan.status,
+  nodes: plan.nodes.map(({ id, agent, status, dependsOn, result, error, attempts }) => ({ id, agent, status, dependsOn, result, error, attempts })),
+});
+
+/**
+ * Dependencies of the task plan tools
+ * @interface TaskPlanToolOptions
+ */
+export interface TaskPlanToolOptions {
+  workers: Agent<{ llm: VercelAIProvider }>[];
+  storage: TaskPlanStorageBackend;
+  retriever: SupervisorRetriever;
+  /** Supervisor name shown to workers */
+  sourceName: string;
+}
+
+/**
+ * Create the `run_task_plan`, `resume_task_plan` and `get_task_plan` supervisor tools
+ */
+export const createTaskPlanTools = ({ workers, storage, retriever, sourceName }: TaskPlanToolOptions) => {
+  const findWorker = (agent: string) => workers.find(worker => worker.name === agent || worker.id === agent);
+
+  const execute = (plan: TaskPlan, options?: ToolExecuteOptions) => {
+    const parentContext = options?.operationContext?.userContext ?? new Map<string | symbol, unknown>();
+    const abortController = options?.operationContext?.abortController;
+    return executeTaskPlan(plan, {
+      storage,
+      maxConcurrency: env.TASK_PLAN_MAX_CONCURRENCY,
+      signal: abortController?.signal,
+      runNode: (node, inputs) => {
+        const worker = findWorker(node.agent);
+        if (!worker) throw new Error(`Unknown agent '${node.agent}'`);
+        return runDelegatedTask(worker, { id: `${plan.id}/${node.id}`, task: formatNodeTask(node, inputs) }, parentContext, sourceName, abortController);
+      },
+      onProgress: current => publishTaskPlanProgress(retriever, current),
+    });
+  };
+
+  const runTaskPlanTool = createTool({
+    name: "run_task_plan",
+    description: `Run a multi-step request as a task graph. Each node is one worker instruction; 'inputs' lists the nodes whose results it needs. Independent nodes run in parallel, dependent nodes wait for their inputs, and a node whose input failed is skipped. Returns every node's status and result. Available agents: ${workers.map(worker => worker.name).join(', ')}.`,
+    parameters: taskPlanSchema,
+    execute: async (definition: TaskPlanDefinition, options?: ToolExecuteOptions) => {
+      try {
+        const attribution = options?.operationContext?.userContext.get(COST_ATTRIBUTION_KEY) as CostAttribution | undefined;
+        const plan = buildTaskPlan(definition, {
+          sessionId: attribution?.sessionId,
+          workflowId: attribution?.workflowId,
+          agents: workers.flatMap(worker => [worker.name, worker.id]),
+        });
+        await storage.save(plan);
+        logger.info("[TaskPlan] Running plan", { planId: plan.id, nodes: plan.nodes.map(node => node.id), edges: plan.edges.length });
+
+        const result = await execute(plan, options);
+        return JSON.stringify({ success: result.status === 'completed', ...describePlan(result) }, null, 2);
+      } catch (error) {
+        logger.error("[TaskPlan] Plan failed to run", { error: error instanceof Error ? error.message : String(error) });
+        throw new Error(`Failed to run task plan: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+  });
+
+  const resumeTaskPlanTool = createTool({
+    name: "resume_task_plan",
+    description: "Resume a task plan that failed or was interrupted. Completed nodes keep their results; failed, skipped and unfinished nodes run again.",
+    parameters: z.object({
+      planId: z.string().min(1).describe("Plan id returned by run_task_plan"),
+    }),
+    execute: async ({ planId }: { planId: string }, options?: ToolExecuteOptions) => {
+      try {
+        const plan = await storage.get(planId);
+        if (!plan) throw new Error(`Task plan '${planId}' not found`);
+        if (plan.status === 'completed') {
+          return JSON.stringify({ success: true, ...describePlan(plan) }, null, 2);
+        }
+
+        logger.info("[TaskPlan] Resuming plan", {
+          planId,
+          completed: plan.nodes.filter(node => node.status === 'completed').map(node => node.id),
+        });
+        const result = await execute(plan, options);
+        return JSON.stringify({ success: result.status === 'completed', ...describePlan(result) }, null, 2);
+      } catch (error) {
+        logger.error("[TaskPlan] Plan failed to resume", { planId, error: error instanceof Error ? error.message : String(error) });
+        throw new Error(`Failed to resume task plan: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+  });
+
+  const getTaskPlanTool = createTool({
+    name: "get_task_plan",
+    description: "Show a task plan's nodes, dependencies, status and results, or list this session's recent plans when no planId is given.",
+    parameters: z.object({
+      planId: z.string().optional().describe("Plan id; omit to list recent plans"),
+    }),
+    execute: async ({ planId }: { planId?: string }, options?: ToolExecuteOptions) => {
+      try {
+        if (planId) {
+          const plan = await storage.get(planId);
+          if (!plan) throw new Error(`Task plan '${planId}' not found`);
+          return JSON.stringify({ success: true, ...describePlan(plan) }, null, 2);
+        }
+
+        const attribution = options?.operationContext?.userContext.get(COST_ATTRIBUTION_KEY) as CostAttribution | undefined;
+        const plans = await storage.list({ sessionId: attribution?.sessionId, limit: 10 });
+        return JSON.stringify({
+          success: true,
+          plans: plans.map(plan => ({
+            planId: plan.id,
+            goal: plan.goal,
+            status: plan.status,
+            completed: plan.nodes.filter(node => node.status === 'completed').length,
+            total: plan.nodes.length,
+            updatedAt: new Date(plan.updatedAt).toISOString(),
+          })),
+        }, null, 2);
+      } catch (error) {
+        logger.error("[TaskPlan] Failed to read plan", { planId, error: error instanceof Error ? error.message : String(error) });
+        throw new Error(`Failed to read task plan: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+  });
+
+  return [runTaskPlanTool, resumeTaskPlanTool, getTaskPlanTool];
+};
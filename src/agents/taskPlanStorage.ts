@@ -0,0 +1,220 @@
+/**
+ * @fileoverview Task Plan Storage Backends
+ *
+ * Persistence for supervisor task plans and the state of each plan node. The in-memory backend
+ * keeps plans for the life of the process; the LibSQL backend writes them to SQLite/Turso so a
+ * plan interrupted by a restart can be resumed where it stopped.
+ *
+ * @module TaskPlanStorage
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import { createClient, type Client, type InValue, type Row } from '@libsql/client';
+import { createModuleLogger } from '../config/logger.js';
+import type { TaskPlan } from './taskPlan.js';
+
+const logger = createModuleLogger('taskPlanStorage');
+
+/**
+ * Structured filter for listing stored plans
+ * @interface TaskPlanQuery
+ */
+export interface TaskPlanQuery {
+  /** Restrict to plans in this status */
+  status?: TaskPlan['status'];
+  /** Restrict to plans created in this supervisor session */
+  sessionId?: string;
+  /** Maximum number of plans to return, most recently updated first */
+  limit?: number;
+}
+
+/**
+ * Contract implemented by every task plan storage backend
+ * @interface TaskPlanStorageBackend
+ */
+export interface TaskPlanStorageBackend {
+  /** Backend identifier used in logs */
+  readonly kind: 'memory' | 'libsql';
+  /** Insert or replace a plan */
+  save(plan: TaskPlan): Promise<void>;
+  /** Fetch a plan by id */
+  get(id: string): Promise<TaskPlan | undefined>;
+  /** Return plans matching the filter, most recently updated first */
+  list(filter?: TaskPlanQuery): Promise<TaskPlan[]>;
+  /** Release resources held by the backend */
+  close(): Promise<void>;
+}
+
+/**
+ * In-memory backend (default). Plans are lost on restart.
+ *
+ * @class InMemoryTaskPlanStorage
+ */
+export class InMemoryTaskPlanStorage implements TaskPlanStorageBackend {
+  readonly kind = 'memory' as const;
+  private readonly plans = new Map<string, TaskPlan>();
+
+  async save(plan: TaskPlan): Promise<void> {
+    this.plans.set(plan.id, structuredClone(plan));
+  }
+
+  async get(id: string): Promise<TaskPlan | undefined> {
+    const plan = this.plans.get(id);
+    return plan && structuredClone(plan);
+  }
+
+  async list(filter: TaskPlanQuery = {}): Promise<TaskPlan[]> {
+    const matches = Array.from(this.plans.values())
+      .filter(plan => !filter.status || plan.status === filter.status)
+      .filter(plan => !filter.sessionId || plan.sessionId === filter.sessionId)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(plan => structuredClone(plan));
+    return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+  }
+
+  async close(): Promise<void> {
+    this.plans.clear();
+  }
+}
+
+/**
+ * Configuration for the LibSQL task plan backend
+ * @interface LibSQLTaskPlanStorageOptions
+ */
+export interface LibSQLTaskPlanStorageOptions {
+  /** LibSQL/Turso URL (e.g. `file:./.voltagent/task-plans.db`) */
+  url: string;
+  /** Optional auth token for remote Turso databases */
+  authToken?: string;
+  /** Prefix for the plans table (default: `task_plan`) */
+  tablePrefix?: string;
+}
+
+/**
+ * LibSQL/SQLite backend. Persists plans and node state across restarts.
+ *
+ * @class LibSQLTaskPlanStorage
+ */
+export class LibSQLTaskPlanStorage implements TaskPlanStorageBackend {
+  readonly kind = 'libsql' as const;
+  private readonly client: Client;
+  private readonly table: string;
+  private initPromise: Promise<void> | null = null;
+
+  constructor(options: LibSQLTaskPlanStorageOptions) {
+    const tablePrefix = options.tablePrefix ?? 'task_plan';
+    if (!/^\w+$/.test(tablePrefix)) {
+      throw new Error(`Invalid table prefix for LibSQLTaskPlanStorage: ${tablePrefix}`);
+    }
+
+    this.client = createClient({ url: options.url, authToken: options.authToken });
+    this.table = `${tablePrefix}_plans`;
+  }
+
+  initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.createSchema().catch((err) => {
+        this.initPromise = null;
+        throw err;
+      });
+    }
+    return this.initPromise;
+  }
+
+  async save(plan: TaskPlan): Promise<void> {
+    await this.initialize();
+    await this.client.execute({
+      sql: `INSERT OR REPLACE INTO ${this.table}
+              (id, goal, status, session_id, created_at, updated_at, plan)
+            VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      args: [plan.id, plan.goal, plan.status, plan.sessionId ?? null, plan.createdAt, plan.updatedAt, JSON.stringify(plan)],
+    });
+  }
+
+  async get(id: string): Promise<TaskPlan | undefined> {
+    await this.initialize();
+    const result = await this.client.execute({
+      sql: `SELECT plan FROM ${this.table} WHERE id = ?`,
+      args: [id],
+    });
+    return result.rows[0] ? this.rowToPlan(result.rows[0]) : undefined;
+  }
+
+  async list(filter: TaskPlanQuery = {}): Promise<TaskPlan[]> {
+    await this.initialize();
+    const clauses: string[] = [];
+    const args: InValue[] = [];
+
+    if (filter.status) { clauses.push('status = ?'); args.push(filter.status); }
+    if (filter.sessionId) { clauses.push('session_id = ?'); args.push(filter.sessionId); }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const limit = filter.limit !== undefined ? 'LIMIT ?' : '';
+    if (filter.limit !== undefined) args.push(filter.limit);
+
+    const result = await this.client.execute({
+      sql: `SELECT plan FROM ${this.table} ${where} ORDER BY updated_at DESC ${limit}`,
+      args,
+    });
+    return result.rows.map(row => this.rowToPlan(row));
+  }
+
+  async close(): Promise<void> {
+    this.client.close();
+  }
+
+  /**
+   * Create the plans table and its filter indexes
+   * @private
+   */
+  private async createSchema(): Promise<void> {
+    await this.client.batch([
+      `CREATE TABLE IF NOT EXISTS ${this.table} (
+        id TEXT PRIMARY KEY,
+        goal TEXT NOT NULL,
+        status TEXT NOT NULL,
+        session_id TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        plan TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS ${this.table}_status_idx ON ${this.table} (status)`,
+      `CREATE INDEX IF NOT EXISTS ${this.table}_session_id_idx ON ${this.table} (session_id)`,
+      `CREATE INDEX IF NOT EXISTS ${this.table}_updated_at_idx ON ${this.table} (updated_at)`,
+    ], 'write');
+
+    logger.debug("LibSQL task plan storage initialized", { table: this.table });
+  }
+
+  /**
+   * Convert a database row back into a TaskPlan
+   * @private
+   */
+  private rowToPlan(row: Row): TaskPlan {
+    return JSON.parse(String(row.plan)) as TaskPlan;
+  }
+}
+
+/**
+ * Storage backend selection for task plans
+ */
+export type TaskPlanStorageConfig =
+  | { backend: 'memory' }
+  | ({ backend: 'libsql' } & LibSQLTaskPlanStorageOptions);
+
+/**
+ * Create a task plan storage backend from configuration
+ * @param config - Backend selection and options
+ * @returns Configured storage backend
+ */
+export const createTaskPlanStorage = (config: TaskPlanStorageConfig): TaskPlanStorageBackend => {
+  switch (config.backend) {
+    case 'libsql':
+      return new LibSQLTaskPlanStorage(config);
+    case 'memory':
+    default:
+      return new InMemoryTaskPlanStorage();
+  }
+};
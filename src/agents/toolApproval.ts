@@ -0,0 +1,418 @@
+/**
+ * @fileoverview Tool Approval Gate
+ *
+ * Tags tools by risk level and holds calls at or above `TOOL_APPROVAL_RISK_LEVEL` until a human
+ * approves them. A pending request carries the tool name, its arguments and the requesting
+ * agent, with secrets in the arguments masked; it is decided through the `/approvals` endpoints by
+ * an approver holding a `TOOL_APPROVAL_TOKENS` token or, with `TOOL_APPROVAL_CHANNEL=cli`, at a
+ * terminal prompt. Requests nobody answers within `TOOL_APPROVAL_TIMEOUT_MS`, and requests
+ * whose operation is cancelled, are denied. Every decision is logged and kept in the decision history.
+ *
+ * @module ToolApproval
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { createInterface } from 'node:readline/promises';
+import { createTool, type CustomEndpointDefinition, type Tool, type ToolExecuteOptions } from '@voltagent/core';
+import { generateId } from 'ai';
+import { z } from 'zod';
+import { env } from '../config/environment.js';
+import { createModuleLogger } from '../config/logger.js';
+import { secretRedactor } from '../config/redaction.js';
+import { noteToolDenial } from './auditLog.js';
+
+const logger = createModuleLogger('toolApproval');
+
+export type ToolRiskLevel = 'low' | 'medium' | 'high';
+
+const RISK_ORDER: Record<ToolRiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
+/**
+ * Risk level per tool name; tools not listed are low risk.
+ * High: destroys data or acts outside the machine in ways that are hard to undo.
+ * Medium: changes local state that can be restored.
+ */
+export const TOOL_RISK_LEVELS: Record<string, ToolRiskLevel> = {
+  github_delete_repository: 'high',
+  github_merge_pull_request: 'high',
+  delete_file: 'high',
+  git_reset: 'high',
+  git_push: 'high',
+  remove_container: 'high',
+  deploy_service: 'high',
+  write_file: 'medium',
+  replace_line_in_file: 'medium',
+  move: 'medium',
+  git_commit: 'medium',
+  git_merge: 'medium',
+  git_pull: 'medium',
+  stop_container: 'medium',
+  build_image: 'medium',
+  github_create_repository: 'medium',
+  github_create_pull_request: 'medium',
+  github_create_repository_hook: 'medium',
+  sandboxed_code_executor: 'medium',
+};
+
+/** Decisions kept in memory for the history endpoint */
+const MAX_DECISION_HISTORY = 1000;
+
+/**
+ * Parse `TOOL_RISK_OVERRIDES` (`tool=level,tool=level`)
+ * @throws Error naming the first malformed entry
+ */
+const parseRiskOverrides = (value?: string): Record<string, ToolRiskLevel> => {
+  const overrides: Record<string, ToolRiskLevel> = {};
+  for (const entry of (value ?? '').split(',').map(part => part.trim()).filter(Boolean)) {
+    const [tool, level] = entry.split('=').map(part => part.trim());
+    if (!tool || !(level in RISK_ORDER)) {
+      throw new Error(`Invalid TOOL_RISK_OVERRIDES entry "${entry}", expected tool=low|medium|high`);
+    }
+    overrides[tool] = level as ToolRiskLevel;
+  }
+  return overrides;
+};
+
+const riskOverrides = parseRiskOverrides(env.TOOL_RISK_OVERRIDES);
+
+/**
+ * Parse `TOOL_APPROVAL_TOKENS` (`approver=token,approver=token`)
+ * @throws Error giving the position of the first malformed entry
+ */
+const parseApprovalTokens = (value?: string): Map<string, string> => {
+  const tokens = new Map<string, string>();
+  const entries = (value ?? '').split(',').map(part => part.trim()).filter(Boolean);
+  for (const [index, entry] of entries.entries()) {
+    const separator = entry.indexOf('=');
+    const approver = entry.slice(0, separator).trim();
+    const token = entry.slice(separator + 1).trim();
+    // The entry itself is not echoed, it holds a secret
+    if (separator < 0 || !approver || !token) {
+      throw new Error(`Invalid TOOL_APPROVAL_TOKENS entry ${index + 1}, expected approver=token`);
+    }
+    tokens.set(approver, token);
+  }
+  return tokens;
+};
+
+const approvalTokens = parseApprovalTokens(env.TOOL_APPROVAL_TOKENS);
+
+const tokenDigest = (token: string): Buffer => createHash('sha256').update(token).digest();
+
+/**
+ * Approver whose token is presented as `Authorization: Bearer <token>`
+ * @returns The approver name, or undefined when the token is missing or unknown
+ */
+const authenticateApprover = (authorization?: string): string | undefined => {
+  const presented = /^Bearer\s+(\S+)$/i.exec(authorization ?? '')?.[1];
+  if (!presented) return undefined;
+  // Digests have equal length, so every comparison takes the same time
+  const digest = tokenDigest(presented);
+  for (const [approver, token] of approvalTokens) {
+    if (timingSafeEqual(digest, tokenDigest(token))) return approver;
+  }
+  return undefined;
+};
+
+/**
+ * Risk level of a tool, with `TOOL_RISK_OVERRIDES` applied
+ */
+export const getToolRiskLevel = (toolName: string): ToolRiskLevel =>
+  riskOverrides[toolName] ?? TOOL_RISK_LEVELS[toolName] ?? 'low';
+
+/**
+ * Whether calls to a tool wait for approval under the configured threshold
+ */
+export const requiresApproval = (toolName: string): boolean =>
+  env.TOOL_APPROVAL_RISK_LEVEL !== 'off' && RISK_ORDER[getToolRiskLevel(toolName)] >= RISK_ORDER[env.TOOL_APPROVAL_RISK_LEVEL];
+
+/**
+ * A tool call waiting for a decision
+ * @interface ApprovalRequest
+ */
+export interface ApprovalRequest {
+  id: string;
+  tool: string;
+  /** Arguments with secrets masked; the call itself runs with the original arguments */
+  args: unknown;
+  /** Agent that called the tool */
+  agent: string;
+  risk: ToolRiskLevel;
+  operationId?: string;
+  conversationId?: string;
+  userId?: string;
+  requestedAt: number;
+  /** Denied automatically after this time */
+  expiresAt: number;
+}
+
+/**
+ * A decided request
+ * @interface ApprovalRecord
+ */
+export interface ApprovalRecord extends ApprovalRequest {
+  decision: 'approved' | 'denied';
+  /** `cli`, `timeout` or `cancelled`, or the approver whose token decided the HTTP request */
+  decidedBy: string;
+  reason?: string;
+  decidedAt: number;
+}
+
+interface PendingApproval {
+  request: ApprovalRequest;
+  resolve: (record: ApprovalRecord) => void;
+  timer: NodeJS.Timeout;
+  cancelPrompt?: () => void;
+}
+
+/**
+ * Holds high-risk tool calls until they are approved, denied or time out.
+ *
+ * @class ToolApprovalGate
+ */
+export class ToolApprovalGate {
+  private readonly pending = new Map<string, PendingApproval>();
+  private readonly history: ApprovalRecord[] = [];
+  private promptQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: { timeoutMs: number; channel: 'http' | 'cli' }) {}
+
+  /**
+   * Wait for a decision on a tool call
+   * @param call - Tool, arguments and caller
+   * @param signal - Operation's abort signal; aborting denies the request
+   * @returns The decision
+   */
+  request(call: Omit<ApprovalRequest, 'id' | 'requestedAt' | 'expiresAt'>, signal?: AbortSignal): Promise<ApprovalRecord> {
+    const now = Date.now();
+    const request: ApprovalRequest = {
+      ...call,
+      args: secretRedactor.redact(call.args),
+      id: `approval-${generateId()}`,
+      requestedAt: now,
+      expiresAt: now + this.options.timeoutMs,
+    };
+
+    return new Promise<ApprovalRecord>(resolve => {
+      const timer = setTimeout(() => this.decide(request.id, 'denied', 'timeout', 'No decision before the approval timeout'), this.options.timeoutMs);
+      this.pending.set(request.id, { request, resolve, timer });
+
+      if (signal?.aborted) {
+        this.decide(request.id, 'denied', 'cancelled', 'Operation cancelled');
+        return;
+      }
+      signal?.addEventListener('abort', () => this.decide(request.id, 'denied', 'cancelled', 'Operation cancelled'), { once: true });
+
+      logger.warn("[Approval] Tool call waiting for approval", {
+        approvalId: request.id,
+        tool: request.tool,
+        agent: request.agent,
+        risk: request.risk,
+        args: request.args,
+        channel: this.options.channel,
+        expiresAt: new Date(request.expiresAt).toISOString(),
+      });
+      if (this.options.channel === 'cli') {
+        this.prompt(request.id);
+      }
+    });
+  }
+
+  /**
+   * Decide a pending request
+   * @param id - Approval id
+   * @param decision - Approve or deny
+   * @param decidedBy - Channel or approver
+   * @param reason - Optional explanation, shown to the agent on denial
+   * @returns The record, or undefined when the request is not pending
+   */
+  decide(id: string, decision: ApprovalRecord['decision'], decidedBy: string, reason?: string): ApprovalRecord | undefined {
+    const pending = this.pending.get(id);
+    if (!pending) return undefined;
+
+    this.pending.delete(id);
+    clearTimeout(pending.timer);
+    pending.cancelPrompt?.();
+
+    const record: ApprovalRecord = { ...pending.request, decision, decidedBy, reason, decidedAt: Date.now() };
+    this.history.push(record);
+    if (this.history.length > MAX_DECISION_HISTORY) {
+      this.history.splice(0, this.history.length - MAX_DECISION_HISTORY);
+    }
+
+    logger.info(`[Approval] Tool call ${decision}`, {
+      approvalId: id,
+      tool: record.tool,
+      agent: record.agent,
+      risk: record.risk,
+      args: record.args,
+      decidedBy,
+      reason,
+      waitedMs: record.decidedAt - record.requestedAt,
+    });
+    pending.resolve(record);
+    return record;
+  }
+
+  /** Requests waiting for a decision, oldest first */
+  listPending(): ApprovalRequest[] {
+    return Array.from(this.pending.values(), ({ request }) => request);
+  }
+
+  /** Past decisions, most recent first */
+  listDecisions(filter: { decision?: ApprovalRecord['decision']; tool?: string; limit?: number } = {}): ApprovalRecord[] {
+    const matches = this.history
+      .filter(record => !filter.decision || record.decision === filter.decision)
+      .filter(record => !filter.tool || record.tool === filter.tool)
+      .reverse();
+    return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+  }
+
+  /**
+   * Ask at the terminal, one request at a time. Requests decided elsewhere while
+   * queued are skipped, and an open prompt is withdrawn when they are.
+   * @private
+   */
+  private prompt(id: string): void {
+    this.promptQueue = this.promptQueue.then(async () => {
+      const pending = this.pending.get(id);
+      if (!pending) return;
+      if (!process.stdin.isTTY) {
+        this.decide(id, 'denied', 'cli', 'No terminal available for approval');
+        return;
+      }
+
+      const { request } = pending;
+      const controller = new AbortController();
+      pending.cancelPrompt = () => controller.abort();
+      const rl = createInterface({ input: process.stdin, output: process.stdout });
+      try {
+        const answer = await rl.question(
+          `\n⚠️  ${request.agent} wants to run ${request.tool} (${request.risk} risk)\n${JSON.stringify(request.args, null, 2)}\nApprove? [y/N] `,
+          { signal: controller.signal }
+        );
+        const approved = /^y(es)?$/i.test(answer.trim());
+        this.decide(id, approved ? 'approved' : 'denied', 'cli', approved ? undefined : 'Denied at the terminal');
+      } catch {
+        // Decided through another channel or timed out while the prompt was open
+      } finally {
+        rl.close();
+      }
+    });
+  }
+}
+
+/** Gate shared by every worker's high-risk tools and the approval endpoints */
+export const toolApprovalGate = new ToolApprovalGate({
+  timeoutMs: env.TOOL_APPROVAL_TIMEOUT_MS,
+  channel: env.TOOL_APPROVAL_CHANNEL,
+});
+
+/**
+ * Wrap a tool so each call waits for approval first. A denied call is not executed;
+ * the agent receives the denial as the tool result.
+ * @param tool - Tool to guard
+ * @param agentName - Agent the tool is given to, shown in the request
+ * @param gate - Approval gate
+ */
+export const withApproval = (tool: Tool<any>, agentName: string, gate: ToolApprovalGate = toolApprovalGate): Tool<any> =>
+  createTool({
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+    execute: async (args: unknown, options?: ToolExecuteOptions) => {
+      const operationContext = options?.operationContext;
+      const record = await gate.request({
+        tool: tool.name,
+        args,
+        agent: agentName,
+        risk: getToolRiskLevel(tool.name),
+        operationId: operationContext?.operationId,
+        conversationId: operationContext?.historyEntry?.conversationId,
+        userId: operationContext?.historyEntry?.userId,
+      }, operationContext?.abortController?.signal);
+
+      if (record.decision === 'denied') {
+        noteToolDenial(options, 'approval', record.reason ?? 'Denied by approver');
+        return JSON.stringify({
+          success: false,
+          denied: true,
+          tool: tool.name,
+          approvalId: record.id,
+          reason: record.reason ?? 'Denied by approver',
+          message: 'A human denied this action. Do not retry it; report the denial instead.',
+        });
+      }
+      return tool.execute(args, options);
+    },
+  });
+
+/**
+ * Guard every tool that requires approval under the configured threshold
+ * @param tools - An agent's tools
+ * @param agentName - Agent the tools are given to
+ */
+export const applyApprovalGate = (tools: Tool<any>[], agentName: string): Tool<any>[] =>
+  tools.map(tool => (requiresApproval(tool.name) ? withApproval(tool, agentName) : tool));
+
+const decisionBodySchema = z.object({
+  reason: z.string().optional(),
+});
+
+const decisionQuerySchema = z.object({
+  decision: z.enum(['approved', 'denied']).optional(),
+  tool: z.string().optional(),
+  limit: z.coerce.number().int().positive().optional(),
+});
+
+const decideEndpoint = (decision: ApprovalRecord['decision']): CustomEndpointDefinition => ({
+  path: `/approvals/:id/${decision === 'approved' ? 'approve' : 'deny'}`,
+  method: 'post',
+  description: `${decision === 'approved' ? 'Approve' : 'Deny'} a pending tool call as the approver of the bearer token; optional JSON body { reason }`,
+  handler: async c => {
+    const approver = authenticateApprover(c.req.header('Authorization'));
+    if (!approver) {
+      logger.warn("[Approval] Rejected unauthenticated decision", { approvalId: c.req.param('id'), decision });
+      return approvalTokens.size > 0
+        ? c.json({ success: false, error: 'A valid approval token is required' }, 401)
+        : c.json({ success: false, error: 'HTTP approval is disabled; set TOOL_APPROVAL_TOKENS' }, 403);
+    }
+    const body = decisionBodySchema.safeParse(await c.req.json().catch(() => ({})));
+    if (!body.success) {
+      return c.json({ success: false, error: body.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`) }, 400);
+    }
+    const record = toolApprovalGate.decide(c.req.param('id') ?? '', decision, approver, body.data.reason);
+    return record
+      ? c.json({ success: true, data: record })
+      : c.json({ success: false, error: 'No pending approval with this id' }, 404);
+  },
+});
+
+/**
+ * Endpoints to review and decide pending tool calls
+ */
+export const approvalEndpoints: CustomEndpointDefinition[] = [
+  {
+    path: '/approvals',
+    method: 'get',
+    description: 'Tool calls waiting for approval',
+    handler: c => c.json({ success: true, data: toolApprovalGate.listPending() }),
+  },
+  {
+    path: '/approvals/history',
+    method: 'get',
+    description: 'Past approval decisions, optionally by decision or tool',
+    handler: c => {
+      const query = decisionQuerySchema.safeParse(c.req.query());
+      if (!query.success) {
+        return c.json({ success: false, error: query.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`) }, 400);
+      }
+      return c.json({ success: true, data: toolApprovalGate.listDecisions(query.data) });
+    },
+  },
+  decideEndpoint('approved'),
+  decideEndpoint('denied'),
+];
@@ -0,0 +1,416 @@
+/**
+ * @fileoverview Tool Permission Policies
+ *
+ * Allow/deny rules evaluated on every tool invocation, keyed by the agent making the call, the
+ * caller (the `userId` of the request) and the caller's roles. Rules can also match tool
+ * arguments and the labels of the Docker container a call targets. The first matching rule
+ * decides; when none matches, the policy's default applies. The policy file is YAML or JSON,
+ * validated on load and reloaded when it changes; an invalid edit keeps the previous policy.
+ * Denied calls do not run and return a structured `TOOL_POLICY_DENIED` error to the agent.
+ * The caller is client-supplied and not authenticated, so caller and role rules are advisory only.
+ *
+ * @module ToolPolicy
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { createTool, type CustomEndpointDefinition, type OperationContext, type Tool, type ToolExecuteOptions } from '@voltagent/core';
+import { createModuleLogger } from '../config/logger.js';
+import { getContainerLabels } from '../tools/cloudTools.js';
+import { noteToolDenial } from './auditLog.js';
+
+const logger = createModuleLogger('toolPolicy');
+
+/** Current policy file version */
+export const TOOL_POLICY_VERSION = 1;
+
+/** userContext key with the caller a supervisor session runs for, inherited by delegated workers */
+export const POLICY_CALLER_KEY = 'policyCaller';
+
+/** Caller used when a request carries no user id */
+export const ANONYMOUS_CALLER = 'anonymous';
+
+/** How often the policy file is checked for changes */
+const WATCH_INTERVAL_MS = 2000;
+
+const patternsSchema = z.array(z.string().min(1)).min(1);
+
+const conditionSchema = z.object({
+  /** Argument name to glob(s); array arguments match when any element does */
+  args: z.record(z.union([z.string(), patternsSchema])).optional(),
+  /** `key` or `key=value` label required on the container named by the `containerId` argument */
+  containerLabel: z.string().min(1).optional(),
+}).strict();
+
+const ruleSchema = z.object({
+  id: z.string().min(1),
+  effect: z.enum(['allow', 'deny']),
+  /** Explanation returned to the agent when the rule denies a call */
+  reason: z.string().optional(),
+  /** Agent name globs (default: every agent) */
+  agents: patternsSchema.optional(),
+  /** Caller globs (default: every caller) */
+  callers: patternsSchema.optional(),
+  /** Roles, any of which the caller must hold */
+  roles: patternsSchema.optional(),
+  /** Tool name globs or `@group` references (default: every tool) */
+  tools: patternsSchema.optional(),
+  /** The rule applies only when this condition holds */
+  when: conditionSchema.optional(),
+  /** The rule applies only when this condition does not hold */
+  unless: conditionSchema.optional(),
+}).strict();
+
+const toolPolicySchema = z.object({
+  version: z.literal(TOOL_POLICY_VERSION),
+  /** Effect when no rule matches */
+  defaultEffect: z.enum(['allow', 'deny']).default('allow'),
+  /** Role name to caller globs */
+  roles: z.record(patternsSchema).default({}),
+  /** Named tool lists, referenced from rules as `@name` */
+  toolGroups: z.record(patternsSchema).default({}),
+  rules: z.array(ruleSchema).default([]),
+});
+
+export type ToolPolicy = z.infer<typeof toolPolicySchema>;
+export type ToolPolicyRule = ToolPolicy['rules'][number];
+type ToolPolicyCondition = z.infer<typeof conditionSchema>;
+
+/**
+ * A tool invocation to evaluate
+ * @interface ToolPolicyRequest
+ */
+export interface ToolPolicyRequest {
+  tool: string;
+  agent: string;
+  caller?: string;
+  args?: unknown;
+}
+
+/**
+ * Outcome of evaluating a tool invocation
+ * @interface ToolPolicyDecision
+ */
+export interface ToolPolicyDecision {
+  effect: 'allow' | 'deny';
+  reason: string;
+  /** Rule that decided; absent when the default applied */
+  ruleId?: string;
+  tool: string;
+  agent: string;
+  caller: string;
+  roles: string[];
+}
+
+/**
+ * Lookups that conditions need at evaluation time
+ * @interface ToolPolicyResolvers
+ */
+export interface ToolPolicyResolvers {
+  getContainerLabels: (containerId: string) => Promise<Record<string, string>>;
+}
+
+const globToRegExp = (pattern: string): RegExp =>
+  new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+
+const matchesAny = (value: string, patterns: readonly string[]): boolean =>
+  patterns.some(pattern => globToRegExp(pattern).test(value));
+
+/**
+ * Parse and validate policy file contents. Rules must reference declared roles and tool groups.
+ * @param source - YAML or JSON text
+ * @param origin - File name used in error messages
+ * @throws Error describing every problem
+ */
+export const parseToolPolicy = (source: string, origin = 'tool policy'): ToolPolicy => {
+  let document: unknown;
+  try {
+    document = parseYaml(source);
+  } catch (error) {
+    throw new Error(`Failed to parse ${origin}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = toolPolicySchema.safeParse(document);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid ${origin}:\n${issues.join('\n')}`);
+  }
+
+  const policy = result.data;
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  for (const rule of policy.rules) {
+    if (seen.has(rule.id)) problems.push(`  - rules.${rule.id}: duplicate rule id`);
+    seen.add(rule.id);
+    for (const role of rule.roles ?? []) {
+      if (!policy.roles[role]) problems.push(`  - rules.${rule.id}: unknown role "${role}"`);
+    }
+    for (const tool of rule.tools ?? []) {
+      if (tool.startsWith('@') && !policy.toolGroups[tool.slice(1)]) problems.push(`  - rules.${rule.id}: unknown tool group "${tool}"`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${origin}:\n${problems.join('\n')}`);
+  }
+  return policy;
+};
+
+/**
+ * Evaluates tool invocations against the current policy and reloads it when the file changes.
+ *
+ * @class ToolPolicyEngine
+ */
+export class ToolPolicyEngine {
+  private policy: ToolPolicy = toolPolicySchema.parse({ version: TOOL_POLICY_VERSION });
+  private source: string | null = null;
+  private loadedAt: number | null = null;
+  private watchedPath: string | null = null;
+
+  constructor(private readonly resolvers: ToolPolicyResolvers) {}
+
+  /**
+   * Load the policy file. A missing file leaves the allow-all default in place.
+   * @param filePath - Path of a .yaml, .yml or .json file
+   * @throws Error if the file exists but cannot be read or is invalid
+   */
+  async load(filePath: string): Promise<void> {
+    let source: string;
+    try {
+      source = await fs.promises.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        logger.warn("No tool policy file, every tool call is allowed", { policyPath: filePath });
+        return;
+      }
+      throw new Error(`Cannot read tool policy file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    this.setPolicy(parseToolPolicy(source, `tool policy file ${filePath}`), filePath);
+  }
+
+  /**
+   * Replace the current policy
+   * @param policy - Validated policy
+   * @param source - Where it came from, shown by the policy endpoint
+   */
+  setPolicy(policy: ToolPolicy, source = 'inline'): void {
+    this.policy = policy;
+    this.source = source;
+    this.loadedAt = Date.now();
+    logger.info("Tool policy loaded", {
+      policyPath: source,
+      defaultEffect: policy.defaultEffect,
+      rules: policy.rules.length,
+      roles: Object.keys(policy.roles),
+    });
+  }
+
+  /**
+   * Reload the policy file whenever it changes. A reload that fails validation is
+   * logged and the previous policy stays in force.
+   * @param filePath - Policy file path
+   */
+  watch(filePath: string): void {
+    if (this.watchedPath) return;
+    this.watchedPath = filePath;
+    fs.watchFile(filePath, { interval: WATCH_INTERVAL_MS, persistent: false }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs) return;
+      this.load(filePath).catch(error => {
+        logger.error("Tool policy reload failed, keeping the previous policy", {
+          policyPath: filePath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    });
+  }
+
+  /** Stop watching the policy file */
+  close(): void {
+    if (this.watchedPath) {
+      fs.unwatchFile(this.watchedPath);
+      this.watchedPath = null;
+    }
+  }
+
+  /** Current policy and where it was loaded from */
+  describe(): { source: string | null; loadedAt: string | null; policy: ToolPolicy } {
+    return { source: this.source, loadedAt: this.loadedAt ? new Date(this.loadedAt).toISOString() : null, policy: this.policy };
+  }
+
+  /** Roles whose caller patterns match the caller */
+  rolesOf(caller: string): string[] {
+    return Object.entries(this.policy.roles)
+      .filter(([, callers]) => matchesAny(caller, callers))
+      .map(([role]) => role);
+  }
+
+  /**
+   * Decide a tool invocation. The first matching rule wins; errors while checking a
+   * condition deny the call.
+   * @param request - Tool, agent, caller and arguments
+   */
+  async evaluate(request: ToolPolicyRequest): Promise<ToolPolicyDecision> {
+    const policy = this.policy;
+    const caller = request.caller ?? ANONYMOUS_CALLER;
+    const roles = this.rolesOf(caller);
+    const base = { tool: request.tool, agent: request.agent, caller, roles };
+
+    for (const rule of policy.rules) {
+      try {
+        if (!(await this.matches(rule, { ...request, caller }, roles, policy))) continue;
+      } catch (error) {
+        return {
+          ...base,
+          effect: 'deny',
+          ruleId: rule.id,
+          reason: `Could not check rule "${rule.id}": ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+      return {
+        ...base,
+        effect: rule.effect,
+        ruleId: rule.id,
+        reason: rule.reason ?? `Rule "${rule.id}" ${rule.effect === 'allow' ? 'allows' : 'denies'} ${request.tool} for ${caller}`,
+      };
+    }
+
+    return { ...base, effect: policy.defaultEffect, reason: `No rule matched; the default is ${policy.defaultEffect}` };
+  }
+
+  /**
+   * Whether a rule applies to the invocation
+   * @private
+   */
+  private async matches(rule: ToolPolicyRule, request: ToolPolicyRequest & { caller: string }, roles: string[], policy: ToolPolicy): Promise<boolean> {
+    if (rule.agents && !matchesAny(request.agent, rule.agents)) return false;
+    if (rule.callers && !matchesAny(request.caller, rule.callers)) return false;
+    if (rule.roles && !rule.roles.some(role => roles.includes(role))) return false;
+    if (rule.tools) {
+      const patterns = rule.tools.flatMap(tool => (tool.startsWith('@') ? policy.toolGroups[tool.slice(1)] ?? [] : [tool]));
+      if (!matchesAny(request.tool, patterns)) return false;
+    }
+    if (rule.when && !(await this.holds(rule.when, request.args))) return false;
+    if (rule.unless && (await this.holds(rule.unless, request.args))) return false;
+    return true;
+  }
+
+  /**
+   * Whether every part of a condition holds for the call's arguments
+   * @private
+   */
+  private async holds(condition: ToolPolicyCondition, args: unknown): Promise<boolean> {
+    const values = (args && typeof args === 'object' ? args : {}) as Record<string, unknown>;
+
+    for (const [name, patterns] of Object.entries(condition.args ?? {})) {
+      const value = values[name];
+      const candidates = (Array.isArray(value) ? value : [value]).filter(item => item !== undefined && item !== null).map(String);
+      if (!candidates.some(candidate => matchesAny(candidate, Array.isArray(patterns) ? patterns : [patterns]))) return false;
+    }
+
+    if (condition.containerLabel) {
+      const containerId = values.containerId;
+      if (typeof containerId !== 'string' || containerId.length === 0) return false;
+      const [key, ...rest] = condition.containerLabel.split('=');
+      const labels = await this.resolvers.getContainerLabels(containerId);
+      if (!(key in labels)) return false;
+      if (rest.length > 0 && labels[key] !== rest.join('=')) return false;
+    }
+    return true;
+  }
+}
+
+/** Engine shared by every agent's tools and the policy endpoints */
+export const toolPolicyEngine = new ToolPolicyEngine({ getContainerLabels });
+
+/**
+ * Caller an operation runs for: the supervisor session's caller when delegated, otherwise the request's user id
+ */
+export const resolvePolicyCaller = (operationContext?: OperationContext): string =>
+  (operationContext?.userContext.get(POLICY_CALLER_KEY) as string | undefined)
+    ?? operationContext?.historyEntry?.userId
+    ?? ANONYMOUS_CALLER;
+
+/**
+ * Wrap a tool so each call is checked against the policy first. A denied call is not executed;
+ * the agent receives a `TOOL_POLICY_DENIED` error as the tool result.
+ * @param tool - Tool to guard
+ * @param agentName - Agent the tool is given to
+ * @param engine - Policy engine
+ */
+export const withToolPolicy = (tool: Tool<any>, agentName: string, engine: ToolPolicyEngine = toolPolicyEngine): Tool<any> =>
+  createTool({
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+    execute: async (args: unknown, options?: ToolExecuteOptions) => {
+      const decision = await engine.evaluate({
+        tool: tool.name,
+        agent: agentName,
+        caller: resolvePolicyCaller(options?.operationContext),
+        args,
+      });
+
+      if (decision.effect === 'deny') {
+        logger.warn("[Policy] Tool call denied", { ...decision, operationId: options?.operationContext?.operationId });
+        noteToolDenial(options, 'policy', decision.reason);
+        return JSON.stringify({
+          success: false,
+          error: {
+            code: 'TOOL_POLICY_DENIED',
+            tool: decision.tool,
+            agent: decision.agent,
+            caller: decision.caller,
+            rule: decision.ruleId,
+            reason: decision.reason,
+          },
+          message: `Policy does not permit ${decision.caller} to run ${decision.tool} through ${decision.agent}: ${decision.reason}. Do not retry this call; use a permitted tool or report that the action is not allowed.`,
+        });
+      }
+
+      logger.debug("[Policy] Tool call allowed", { ...decision, operationId: options?.operationContext?.operationId });
+      return tool.execute(args, options);
+    },
+  });
+
+/**
+ * Check every tool of an agent against the policy on each call
+ * @param tools - An agent's tools
+ * @param agentName - Agent the tools are given to
+ */
+export const applyToolPolicy = (tools: Tool<any>[], agentName: string): Tool<any>[] =>
+  tools.map(tool => withToolPolicy(tool, agentName));
+
+const evaluateBodySchema = z.object({
+  tool: z.string().min(1),
+  agent: z.string().min(1),
+  caller: z.string().min(1).optional(),
+  args: z.record(z.unknown()).optional(),
+});
+
+/**
+ * Endpoints to inspect the current policy and dry-run a decision
+ */
+export const policyEndpoints: CustomEndpointDefinition[] = [
+  {
+    path: '/policies',
+    method: 'get',
+    description: 'Current tool permission policy',
+    handler: c => c.json({ success: true, data: toolPolicyEngine.describe() }),
+  },
+  {
+    path: '/policies/evaluate',
+    method: 'post',
+    description: 'Decide a tool call against the current policy without running it; JSON body { tool, agent, caller?, args? }',
+    handler: async c => {
+      const body = evaluateBodySchema.safeParse(await c.req.json().catch(() => undefined));
+      if (!body.success) {
+        return c.json({ success: false, error: body.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`) }, 400);
+      }
+      return c.json({ success: true, data: await toolPolicyEngine.evaluate(body.data) });
+    },
+  },
+];
@@ -0,0 +1,203 @@
+/**
+ * @fileoverview OpenTelemetry Spans for Agent Operations
+ *
+ * Spans for supervisor and worker operations, their tool calls and supervisor context retrievals,
+ * created from the agent hooks so one trace covers a whole workflow. The supervisor's span is a
+ * child of VoltAgent's operation span; a delegated worker's span is a child of the supervisor tool
+ * call that started it (`delegate_task`, `fan_out_tasks` or a task plan step) and links to the
+ * worker's own VoltAgent operation span. Agent spans carry token and cost totals, tool spans the
+ * tool name and outcome, retrieval spans the number of contexts found. Spans are exported by the
+ * SDK started in `index.ts`, see `TRACE_EXPORTER`.
+ *
+ * @module Tracing
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import { context, trace, SpanKind, SpanStatusCode, type Attributes, type Span } from '@opentelemetry/api';
+import type { OnEndHookArgs, OperationContext } from '@voltagent/core';
+
+const tracer = trace.getTracer('ai-volt');
+
+/** userContext key holding the {@link TraceState} shared by the supervisor and its workers */
+export const TRACE_STATE_KEY = 'traceState';
+
+/**
+ * A tool call in progress
+ * @interface OpenToolSpan
+ */
+interface OpenToolSpan {
+  operationId: string;
+  toolName: string;
+  span: Span;
+}
+
+/**
+ * Open spans of one trace. Fanned-out tasks run with a copy of the supervisor's `userContext`
+ * and share this object with it.
+ * @interface TraceState
+ */
+interface TraceState {
+  /** Operation that started the trace; agents started while it runs were delegated by it */
+  rootOperationId: string;
+  /** Agent spans by operation id */
+  agentSpans: Map<string, Span>;
+  /** Tool calls in progress, oldest first */
+  toolSpans: OpenToolSpan[];
+}
+
+type UserContext = Map<string | symbol, unknown>;
+
+/** Token and cost totals of a budget scope */
+type ScopeUsage = { tokens: number; costUsd: number };
+
+const getTraceState = (userContext?: UserContext): TraceState | undefined =>
+  userContext?.get(TRACE_STATE_KEY) as TraceState | undefined;
+
+const latest = <T>(items: T[], predicate: (item: T) => boolean): T | undefined => {
+  for (let index = items.length - 1; index >= 0; index--) {
+    if (predicate(items[index])) return items[index];
+  }
+  return undefined;
+};
+
+const contextWithParent = (parent: Span | undefined) =>
+  parent ? trace.setSpan(context.active(), parent) : context.active();
+
+/**
+ * Set the outcome of a span and end it
+ * @param span - Span to end
+ * @param error - Error the operation failed with, if any
+ * @param attributes - Attributes known only at the end
+ */
+export const endSpan = (span: Span, error?: unknown, attributes: Attributes = {}): void => {
+  span.setAttributes(attributes);
+  if (error) {
+    const exception = error instanceof Error ? error : new Error(String(error));
+    span.recordException(exception);
+    span.setStatus({ code: SpanStatusCode.ERROR, message: exception.message });
+  } else {
+    span.setStatus({ code: SpanStatusCode.OK });
+  }
+  span.end();
+};
+
+/**
+ * Start the span of an agent operation. An agent started while another operation of the same
+ * `userContext` runs was delegated by it: its span becomes a child of that operation's most
+ * recent tool call still in progress. Otherwise it starts a new trace state under VoltAgent's
+ * operation span.
+ * @param agentName - Agent running the operation
+ * @param operationContext - Operation context from the `onStart` hook
+ * @param attributes - Session, workflow or task ids
+ */
+export const startAgentSpan = (agentName: string, operationContext: OperationContext, attributes: Attributes = {}): Span => {
+  const { operationId, userContext, otelSpan } = operationContext;
+  let state = getTraceState(userContext);
+  let parent: Span | undefined;
+
+  if (state && state.rootOperationId !== operationId && state.agentSpans.has(state.rootOperationId)) {
+    const rootOperationId = state.rootOperationId;
+    parent = latest(state.toolSpans, entry => entry.operationId === rootOperationId)?.span
+      ?? state.agentSpans.get(rootOperationId);
+  } else {
+    state = { rootOperationId: operationId, agentSpans: new Map(), toolSpans: [] };
+    userContext.set(TRACE_STATE_KEY, state);
+    parent = otelSpan;
+  }
+
+  const span = tracer.startSpan(`agent ${agentName}`, {
+    kind: SpanKind.INTERNAL,
+    attributes: { 'agent.name': agentName, 'ai_volt.operation_id': operationId, ...attributes },
+    links: otelSpan && otelSpan !== parent ? [{ context: otelSpan.spanContext() }] : [],
+  }, contextWithParent(parent));
+  state.agentSpans.set(operationId, span);
+  return span;
+};
+
+/**
+ * Token and cost attributes for an agent span
+ * @param output - Output of the operation, with the usage of its own model calls
+ * @param usage - Usage charged to the agent's budget scope: the session (workers included) for the
+ * supervisor, the delegation for a worker
+ */
+export const agentUsageAttributes = (output: OnEndHookArgs['output'], usage?: ScopeUsage): Attributes => ({
+  ...(output?.usage && {
+    'gen_ai.usage.input_tokens': output.usage.promptTokens,
+    'gen_ai.usage.output_tokens': output.usage.completionTokens,
+  }),
+  ...(usage && {
+    'ai_volt.budget.tokens': usage.tokens,
+    'ai_volt.budget.cost_usd': usage.costUsd,
+  }),
+});
+
+/**
+ * End the span of an agent operation, and the spans of any of its tool calls still open
+ * @param operationContext - Operation context from the `onEnd` hook
+ * @param error - Error the operation failed with, if any
+ * @param attributes - See {@link agentUsageAttributes}
+ */
+export const endAgentSpan = (operationContext: OperationContext, error?: unknown, attributes: Attributes = {}): void => {
+  const { operationId, userContext } = operationContext;
+  const state = getTraceState(userContext);
+  const span = state?.agentSpans.get(operationId);
+  if (!state || !span) return;
+
+  for (const entry of state.toolSpans.filter(open => open.operationId === operationId)) {
+    endSpan(entry.span, new Error('Tool call did not finish before its agent'));
+  }
+  state.toolSpans = state.toolSpans.filter(open => open.operationId !== operationId);
+  state.agentSpans.delete(operationId);
+  endSpan(span, error, attributes);
+};
+
+/**
+ * Start the span of a tool call, as a child of the calling agent's span
+ * @param agentName - Agent making the call
+ * @param toolName - Tool called
+ * @param operationContext - Operation context from the `onToolStart` hook
+ */
+export const startToolSpan = (agentName: string, toolName: string, operationContext: OperationContext): void => {
+  const { operationId, userContext } = operationContext;
+  const state = getTraceState(userContext);
+  const parent = state?.agentSpans.get(operationId);
+  if (!state || !parent) return;
+
+  const span = tracer.startSpan(`tool ${toolName}`, {
+    kind: SpanKind.INTERNAL,
+    attributes: { 'tool.name': toolName, 'agent.name': agentName, 'ai_volt.operation_id': operationId },
+  }, contextWithParent(parent));
+  state.toolSpans.push({ operationId, toolName, span });
+};
+
+/**
+ * End the span of a tool call. Concurrent calls of the same tool end in the order they started.
+ * @param toolName - Tool called
+ * @param operationContext - Operation context from the `onToolEnd` hook
+ * @param error - Error the call failed with, if any
+ */
+export const endToolSpan = (toolName: string, operationContext: OperationContext, error?: unknown): void => {
+  const { operationId, userContext } = operationContext;
+  const state = getTraceState(userContext);
+  const index = state?.toolSpans.findIndex(open => open.operationId === operationId && open.toolName === toolName) ?? -1;
+  if (!state || index < 0) return;
+
+  const [entry] = state.toolSpans.splice(index, 1);
+  endSpan(entry.span, error);
+};
+
+/**
+ * Start the span of a context retrieval. When the retriever runs as a tool, the span is a child
+ * of that tool call; end it with {@link endSpan}.
+ * @param retrieverName - Tool name of the retriever
+ * @param userContext - User context passed to the retriever, if any
+ */
+export const startRetrievalSpan = (retrieverName: string, userContext?: UserContext): Span => {
+  const parent = latest(getTraceState(userContext)?.toolSpans ?? [], entry => entry.toolName === retrieverName)?.span;
+  return tracer.startSpan(`retrieval ${retrieverName}`, {
+    kind: SpanKind.INTERNAL,
+    attributes: { 'retrieval.name': retrieverName },
+  }, contextWithParent(parent));
+};
@@ -0,0 +1,218 @@
+/**
+ * @fileoverview Workflow Checkpoint Storage Backends
+ *
+ * Persistence for supervisor workflow checkpoints. The LibSQL backend (default) writes each
+ * checkpoint to SQLite/Turso so workflows cut short by a crash or restart can be listed and
+ * resumed afterwards; the in-memory backend keeps them for the life of the process only.
+ *
+ * @module WorkflowCheckpointStorage
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import { createClient, type Client, type InValue, type Row } from '@libsql/client';
+import { createModuleLogger } from '../config/logger.js';
+import type { WorkflowCheckpoint } from './workflowCheckpoints.js';
+
+const logger = createModuleLogger('workflowCheckpointStorage');
+
+/**
+ * Structured filter for listing checkpoints
+ * @interface WorkflowCheckpointQuery
+ */
+export interface WorkflowCheckpointQuery {
+  /** Restrict to workflows in this status */
+  status?: WorkflowCheckpoint['status'];
+  /** Maximum number of checkpoints to return, most recently updated first */
+  limit?: number;
+}
+
+/**
+ * Contract implemented by every checkpoint storage backend
+ * @interface WorkflowCheckpointStorageBackend
+ */
+export interface WorkflowCheckpointStorageBackend {
+  /** Backend identifier used in logs */
+  readonly kind: 'memory' | 'libsql';
+  /** Insert or replace a checkpoint */
+  save(checkpoint: WorkflowCheckpoint): Promise<void>;
+  /** Fetch a checkpoint by workflow id */
+  get(workflowId: string): Promise<WorkflowCheckpoint | undefined>;
+  /** Return checkpoints matching the filter, most recently updated first */
+  list(filter?: WorkflowCheckpointQuery): Promise<WorkflowCheckpoint[]>;
+  /** Release resources held by the backend */
+  close(): Promise<void>;
+}
+
+/**
+ * In-memory backend. Checkpoints are lost on restart.
+ *
+ * @class InMemoryWorkflowCheckpointStorage
+ */
+export class InMemoryWorkflowCheckpointStorage implements WorkflowCheckpointStorageBackend {
+  readonly kind = 'memory' as const;
+  private readonly checkpoints = new Map<string, WorkflowCheckpoint>();
+
+  async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.workflowId, structuredClone(checkpoint));
+  }
+
+  async get(workflowId: string): Promise<WorkflowCheckpoint | undefined> {
+    const checkpoint = this.checkpoints.get(workflowId);
+    return checkpoint && structuredClone(checkpoint);
+  }
+
+  async list(filter: WorkflowCheckpointQuery = {}): Promise<WorkflowCheckpoint[]> {
+    const matches = Array.from(this.checkpoints.values())
+      .filter(checkpoint => !filter.status || checkpoint.status === filter.status)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(checkpoint => structuredClone(checkpoint));
+    return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+  }
+
+  async close(): Promise<void> {
+    this.checkpoints.clear();
+  }
+}
+
+/**
+ * Configuration for the LibSQL checkpoint backend
+ * @interface LibSQLWorkflowCheckpointStorageOptions
+ */
+export interface LibSQLWorkflowCheckpointStorageOptions {
+  /** LibSQL/Turso URL (e.g. `file:./.voltagent/workflow-checkpoints.db`) */
+  url: string;
+  /** Optional auth token for remote Turso databases */
+  authToken?: string;
+  /** Prefix for the checkpoints table (default: `workflow`) */
+  tablePrefix?: string;
+}
+
+/**
+ * LibSQL/SQLite backend. Persists checkpoints across restarts.
+ *
+ * @class LibSQLWorkflowCheckpointStorage
+ */
+export class LibSQLWorkflowCheckpointStorage implements WorkflowCheckpointStorageBackend {
+  readonly kind = 'libsql' as const;
+  private readonly client: Client;
+  private readonly table: string;
+  private initPromise: Promise<void> | null = null;
+
+  constructor(options: LibSQLWorkflowCheckpointStorageOptions) {
+    const tablePrefix = options.tablePrefix ?? 'workflow';
+    if (!/^\w+$/.test(tablePrefix)) {
+      throw new Error(`Invalid table prefix for LibSQLWorkflowCheckpointStorage: ${tablePrefix}`);
+    }
+
+    this.client = createClient({ url: options.url, authToken: options.authToken });
+    this.table = `${tablePrefix}_checkpoints`;
+  }
+
+  initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.createSchema().catch((err) => {
+        this.initPromise = null;
+        throw err;
+      });
+    }
+    return this.initPromise;
+  }
+
+  async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+    await this.initialize();
+    await this.client.execute({
+      sql: `INSERT OR REPLACE INTO ${this.table}
+              (workflow_id, status, agent, started_at, updated_at, checkpoint)
+            VALUES (?, ?, ?, ?, ?, ?)`,
+      args: [
+        checkpoint.workflowId,
+        checkpoint.status,
+        checkpoint.agent,
+        checkpoint.startedAt,
+        checkpoint.updatedAt,
+        JSON.stringify(checkpoint),
+      ],
+    });
+  }
+
+  async get(workflowId: string): Promise<WorkflowCheckpoint | undefined> {
+    await this.initialize();
+    const result = await this.client.execute({
+      sql: `SELECT checkpoint FROM ${this.table} WHERE workflow_id = ?`,
+      args: [workflowId],
+    });
+    return result.rows[0] ? this.rowToCheckpoint(result.rows[0]) : undefined;
+  }
+
+  async list(filter: WorkflowCheckpointQuery = {}): Promise<WorkflowCheckpoint[]> {
+    await this.initialize();
+    const args: InValue[] = [];
+    const where = filter.status ? 'WHERE status = ?' : '';
+    if (filter.status) args.push(filter.status);
+    const limit = filter.limit !== undefined ? 'LIMIT ?' : '';
+    if (filter.limit !== undefined) args.push(filter.limit);
+
+    const result = await this.client.execute({
+      sql: `SELECT checkpoint FROM ${this.table} ${where} ORDER BY updated_at DESC ${limit}`,
+      args,
+    });
+    return result.rows.map(row => this.rowToCheckpoint(row));
+  }
+
+  async close(): Promise<void> {
+    this.client.close();
+  }
+
+  /**
+   * Create the checkpoints table and its filter indexes
+   * @private
+   */
+  private async createSchema(): Promise<void> {
+    await this.client.batch([
+      `CREATE TABLE IF NOT EXISTS ${this.table} (
+        workflow_id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        agent TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        checkpoint TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS ${this.table}_status_idx ON ${this.table} (status)`,
+      `CREATE INDEX IF NOT EXISTS ${this.table}_updated_at_idx ON ${this.table} (updated_at)`,
+    ], 'write');
+
+    logger.debug("LibSQL workflow checkpoint storage initialized", { table: this.table });
+  }
+
+  /**
+   * Convert a database row back into a WorkflowCheckpoint
+   * @private
+   */
+  private rowToCheckpoint(row: Row): WorkflowCheckpoint {
+    return JSON.parse(String(row.checkpoint)) as WorkflowCheckpoint;
+  }
+}
+
+/**
+ * Storage backend selection for workflow checkpoints
+ */
+export type WorkflowCheckpointStorageConfig =
+  | { backend: 'memory' }
+  | ({ backend: 'libsql' } & LibSQLWorkflowCheckpointStorageOptions);
+
+/**
+ * Create a checkpoint storage backend from configuration
+ * @param config - Backend selection and options
+ * @returns Configured storage backend
+ */
+export const createWorkflowCheckpointStorage = (config: WorkflowCheckpointStorageConfig): WorkflowCheckpointStorageBackend => {
+  switch (config.backend) {
+    case 'libsql':
+      return new LibSQLWorkflowCheckpointStorage(config);
+    case 'memory':
+    default:
+      return new InMemoryWorkflowCheckpointStorage();
+  }
+};
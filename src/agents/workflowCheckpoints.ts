@@ -0,0 +1,519 @@
+/**
+ * @fileoverview Durable Supervisor Workflows
+ *
+ * Checkpoints every supervisor workflow after each delegation and tool call: the workflow id,
+ * original request, completed steps with their outputs and the steps still in flight. Workflows
+ * still marked running when the process starts were cut short by a crash or restart; they are
+ * marked `interrupted` and can be resumed (the supervisor is re-prompted with what already
+ * finished) or cancelled through the `/workflows` endpoints. On shutdown, `drain` stops new
+ * workflows, waits for in-flight ones and checkpoints whatever is left as interrupted.
+ *
+ * @module WorkflowCheckpoints
+ * @version 1.0.0
+ * @author AI-Volt Multi-Agent System
+ * @since 2025-06-12
+ */
+
+import type { CustomEndpointDefinition, OperationContext } from '@voltagent/core';
+import { z } from 'zod';
+import { env } from '../config/environment.js';
+import { createModuleLogger } from '../config/logger.js';
+import {
+  createWorkflowCheckpointStorage,
+  type WorkflowCheckpointQuery,
+  type WorkflowCheckpointStorageBackend,
+  type WorkflowCheckpointStorageConfig,
+} from './workflowCheckpointStorage.js';
+
+const logger = createModuleLogger('workflowCheckpoints');
+
+/** userContext key holding the id of the workflow an operation belongs to */
+export const WORKFLOW_CHECKPOINT_KEY = 'workflowCheckpointId';
+
+/** userContext key set by the resume endpoint with the workflow being resumed */
+export const RESUMED_FROM_KEY = 'resumedFromWorkflowId';
+
+/** Characters of each step output and of the final output kept in a checkpoint */
+const MAX_OUTPUT_LENGTH = 2000;
+
+/**
+ * One tool call or delegation within a workflow
+ * @interface WorkflowStep
+ */
+export interface WorkflowStep {
+  /** `<workflowId>/step-<n>` */
+  id: string;
+  /** Agent that called the tool */
+  agent: string;
+  tool: string;
+  status: 'running' | 'completed' | 'failed';
+  /** Tool output, truncated */
+  output?: string;
+  error?: string;
+  startedAt: number;
+  completedAt?: number;
+}
+
+/**
+ * Persisted state of one supervisor workflow
+ * @interface WorkflowCheckpoint
+ */
+export interface WorkflowCheckpoint {
+  workflowId: string;
+  sessionId?: string;
+  /** Agent that owns the workflow */
+  agent: string;
+  conversationId?: string;
+  userId?: string;
+  /** Original request */
+  input: string;
+  status: 'running' | 'completed' | 'failed' | 'interrupted' | 'resumed' | 'cancelled';
+  /** Finished steps (completed or failed), in completion order */
+  completedSteps: WorkflowStep[];
+  /** Steps started but not finished */
+  pendingSteps: WorkflowStep[];
+  /** Final answer, truncated */
+  output?: string;
+  error?: string;
+  /** Workflow this one resumes */
+  resumedFrom?: string;
+  /** Workflow that resumed this one */
+  resumedBy?: string;
+  startedAt: number;
+  updatedAt: number;
+}
+
+interface ActiveWorkflow {
+  checkpoint: WorkflowCheckpoint;
+  abortController?: AbortController;
+}
+
+const truncate = (value: string, length = MAX_OUTPUT_LENGTH): string =>
+  value.length > length ? `${value.slice(0, length)}...` : value;
+
+const stringifyOutput = (value: unknown): string =>
+  truncate(typeof value === 'string' ? value : JSON.stringify(value) ?? '');
+
+/**
+ * Build the checkpoint storage configuration from the environment
+ */
+const createWorkflowCheckpointStorageConfig = (): WorkflowCheckpointStorageConfig =>
+  env.WORKFLOW_CHECKPOINT_STORAGE === 'libsql'
+    ? {
+        backend: 'libsql',
+        url: env.DATABASE_URL ?? 'file:./.voltagent/workflow-checkpoints.db',
+        authToken: env.DATABASE_AUTH_TOKEN,
+      }
+    : { backend: 'memory' };
+
+/**
+ * Tracks in-flight workflows and writes their checkpoints.
+ * Saves run one at a time in call order, so the stored state never goes backwards;
+ * a failed save is logged and does not fail the workflow.
+ *
+ * @class WorkflowCheckpointer
+ */
+export class WorkflowCheckpointer {
+  private storage: WorkflowCheckpointStorageBackend | null = null;
+  private readonly active = new Map<string, ActiveWorkflow>();
+  private readonly idleWaiters: Array<() => void> = [];
+  private saveChain: Promise<void> = Promise.resolve();
+  private draining = false;
+
+  constructor(private readonly createStorage: () => WorkflowCheckpointStorageBackend) {}
+
+  /** Whether `drain` has been called; new workflows are refused */
+  get isDraining(): boolean {
+    return this.draining;
+  }
+
+  /**
+   * Start checkpointing a workflow and tag the operation's userContext with it.
+   * Throws while draining so no new work starts during shutdown.
+   * @param workflowId - Workflow id
+   * @param agent - Agent that owns the workflow
+   * @param context - Operation context of the agent's run
+   * @param sessionId - Supervisor session id
+   */
+  begin(workflowId: string, agent: string, context: OperationContext, sessionId?: string): WorkflowCheckpoint {
+    if (this.draining) {
+      throw new Error('Shutting down: not accepting new workflows');
+    }
+
+    const { input, userId, conversationId } = context.historyEntry;
+    const resumedFrom = context.userContext.get(RESUMED_FROM_KEY) as string | undefined;
+    const now = Date.now();
+    const checkpoint: WorkflowCheckpoint = {
+      workflowId,
+      sessionId,
+      agent,
+      conversationId,
+      userId,
+      input: typeof input === 'string' ? input : JSON.stringify(input),
+      status: 'running',
+      completedSteps: [],
+      pendingSteps: [],
+      resumedFrom,
+      startedAt: now,
+      updatedAt: now,
+    };
+
+    this.active.set(workflowId, { checkpoint, abortController: context.abortController });
+    context.userContext.set(WORKFLOW_CHECKPOINT_KEY, workflowId);
+    this.persist(checkpoint);
+
+    if (resumedFrom) {
+      this.update(resumedFrom, previous => ({ ...previous, resumedBy: workflowId })).catch(error => {
+        logger.warn("Could not link resumed workflow to its checkpoint", {
+          workflowId,
+          resumedFrom,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+    return checkpoint;
+  }
+
+  /**
+   * Record a tool call or delegation as pending
+   * @param userContext - userContext of the calling agent's operation
+   * @param agent - Calling agent name
+   * @param tool - Tool name
+   */
+  stepStarted(userContext: Map<string | symbol, unknown>, agent: string, tool: string): void {
+    const workflow = this.lookup(userContext);
+    if (!workflow) return;
+
+    const { workflowId, pendingSteps, completedSteps } = workflow.checkpoint;
+    pendingSteps.push({
+      id: `${workflowId}/step-${pendingSteps.length + completedSteps.length + 1}`,
+      agent,
+      tool,
+      status: 'running',
+      startedAt: Date.now(),
+    });
+    this.persist(workflow.checkpoint);
+  }
+
+  /**
+   * Move the most recent pending step of this agent and tool to the completed steps.
+   * Hooks carry no call id, so concurrent calls of the same tool by the same agent
+   * are matched last-in, first-out.
+   * @param userContext - userContext of the calling agent's operation
+   * @param agent - Calling agent name
+   * @param tool - Tool name
+   * @param output - Tool output
+   * @param error - Tool error, if it failed
+   */
+  stepFinished(userContext: Map<string | symbol, unknown>, agent: string, tool: string, output?: unknown, error?: unknown): void {
+    const workflow = this.lookup(userContext);
+    if (!workflow) return;
+
+    const { pendingSteps, completedSteps } = workflow.checkpoint;
+    let index = pendingSteps.length - 1;
+    while (index >= 0 && (pendingSteps[index].agent !== agent || pendingSteps[index].tool !== tool)) index--;
+    if (index === -1) return;
+
+    const [step] = pendingSteps.splice(index, 1);
+    completedSteps.push({
+      ...step,
+      status: error ? 'failed' : 'completed',
+      output: error || output === undefined ? undefined : stringifyOutput(output),
+      error: error ? (error instanceof Error ? error.message : String(error)) : undefined,
+      completedAt: Date.now(),
+    });
+    this.persist(workflow.checkpoint);
+  }
+
+  /**
+   * Write the final checkpoint of a workflow. Workflows already cancelled or
+   * interrupted by a drain keep that status.
+   * @param userContext - userContext of the owning agent's operation
+   * @param output - Final answer
+   * @param error - Error the workflow ended with
+   */
+  end(userContext: Map<string | symbol, unknown>, output?: unknown, error?: unknown): WorkflowCheckpoint | undefined {
+    const workflow = this.lookup(userContext);
+    if (!workflow) return undefined;
+
+    const { checkpoint } = workflow;
+    this.active.delete(checkpoint.workflowId);
+    if (checkpoint.status === 'running') {
+      checkpoint.status = error ? 'failed' : 'completed';
+      checkpoint.output = output === undefined ? undefined : stringifyOutput(output);
+      checkpoint.error = error ? (error instanceof Error ? error.message : String(error)) : undefined;
+    }
+    this.persist(checkpoint);
+    this.notifyIfIdle();
+    return checkpoint;
+  }
+
+  /**
+   * Mark workflows left running by a previous process as interrupted. Call once at startup,
+   * before any workflow begins; assumes a single process writes to the checkpoint store.
+   * @returns The interrupted workflows
+   */
+  async recoverInterrupted(): Promise<WorkflowCheckpoint[]> {
+    const stale = (await this.getStorage().list({ status: 'running' }))
+      .filter(checkpoint => !this.active.has(checkpoint.workflowId));
+
+    for (const checkpoint of stale) {
+      checkpoint.status = 'interrupted';
+      checkpoint.error = 'Process stopped before the workflow finished';
+      this.persist(checkpoint);
+    }
+    await this.flush();
+    return this.getStorage().list({ status: 'interrupted' });
+  }
+
+  /**
+   * List checkpoints, most recently updated first
+   */
+  async list(filter?: WorkflowCheckpointQuery): Promise<WorkflowCheckpoint[]> {
+    await this.flush();
+    return this.getStorage().list(filter);
+  }
+
+  /**
+   * Fetch one checkpoint
+   */
+  async get(workflowId: string): Promise<WorkflowCheckpoint | undefined> {
+    await this.flush();
+    return this.getStorage().get(workflowId);
+  }
+
+  /**
+   * Mark an interrupted or failed workflow as resumed so it is not resumed twice
+   * @throws Error when the workflow does not exist or cannot be resumed
+   */
+  async markResumed(workflowId: string): Promise<WorkflowCheckpoint> {
+    const checkpoint = await this.get(workflowId);
+    if (!checkpoint) {
+      throw new Error(`Workflow not found: ${workflowId}`);
+    }
+    if (checkpoint.status !== 'interrupted' && checkpoint.status !== 'failed') {
+      throw new Error(`Workflow ${workflowId} is ${checkpoint.status}; only interrupted or failed workflows can be resumed`);
+    }
+    return this.update(workflowId, previous => ({ ...previous, status: 'resumed' }));
+  }
+
+  /**
+   * Cancel a workflow. A running workflow in this process is aborted; an interrupted one
+   * is closed so it is no longer offered for resumption.
+   * @throws Error when the workflow does not exist or already finished
+   */
+  async cancel(workflowId: string): Promise<WorkflowCheckpoint> {
+    const workflow = this.active.get(workflowId);
+    if (workflow) {
+      workflow.checkpoint.status = 'cancelled';
+      workflow.checkpoint.error = 'Cancelled';
+      workflow.abortController?.abort('Workflow cancelled');
+      this.persist(workflow.checkpoint);
+      await this.flush();
+      return structuredClone(workflow.checkpoint);
+    }
+
+    const checkpoint = await this.get(workflowId);
+    if (!checkpoint) {
+      throw new Error(`Workflow not found: ${workflowId}`);
+    }
+    if (checkpoint.status !== 'interrupted' && checkpoint.status !== 'failed' && checkpoint.status !== 'running') {
+      throw new Error(`Workflow ${workflowId} is ${checkpoint.status} and cannot be cancelled`);
+    }
+    return this.update(workflowId, previous => ({ ...previous, status: 'cancelled', error: 'Cancelled' }));
+  }
+
+  /**
+   * Refuse new workflows, wait up to `timeoutMs` for in-flight ones to finish, then abort
+   * the rest and checkpoint them as interrupted so they can be resumed after restart.
+   * @param timeoutMs - How long to wait for in-flight workflows
+   * @returns Ids of workflows that were interrupted
+   */
+  async drain(timeoutMs: number): Promise<string[]> {
+    this.draining = true;
+    logger.info("Draining in-flight workflows", { active: this.active.size, timeoutMs });
+
+    if (this.active.size > 0) {
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        new Promise<void>(resolve => this.idleWaiters.push(resolve)),
+        new Promise<void>(resolve => { timer = setTimeout(resolve, timeoutMs); }),
+      ]);
+      clearTimeout(timer);
+    }
+
+    const interrupted = Array.from(this.active.values());
+    this.active.clear();
+    for (const { checkpoint, abortController } of interrupted) {
+      checkpoint.status = 'interrupted';
+      checkpoint.error = 'Shutdown before the workflow finished';
+      this.persist(checkpoint);
+      abortController?.abort('Shutting down');
+    }
+
+    await this.flush();
+    await this.storage?.close();
+    this.storage = null;
+
+    if (interrupted.length > 0) {
+      logger.warn("Interrupted workflows checkpointed for resumption", {
+        workflowIds: interrupted.map(({ checkpoint }) => checkpoint.workflowId),
+      });
+    }
+    return interrupted.map(({ checkpoint }) => checkpoint.workflowId);
+  }
+
+  /** Wait for every queued checkpoint write */
+  flush(): Promise<void> {
+    return this.saveChain;
+  }
+
+  private lookup(userContext: Map<string | symbol, unknown>): ActiveWorkflow | undefined {
+    const workflowId = userContext.get(WORKFLOW_CHECKPOINT_KEY) as string | undefined;
+    return workflowId ? this.active.get(workflowId) : undefined;
+  }
+
+  private getStorage(): WorkflowCheckpointStorageBackend {
+    this.storage ??= this.createStorage();
+    return this.storage;
+  }
+
+  private async update(workflowId: string, change: (checkpoint: WorkflowCheckpoint) => WorkflowCheckpoint): Promise<WorkflowCheckpoint> {
+    await this.flush();
+    const previous = await this.getStorage().get(workflowId);
+    if (!previous) {
+      throw new Error(`Workflow not found: ${workflowId}`);
+    }
+    const checkpoint = change(previous);
+    this.persist(checkpoint);
+    await this.flush();
+    return checkpoint;
+  }
+
+  private persist(checkpoint: WorkflowCheckpoint): void {
+    checkpoint.updatedAt = Date.now();
+    const snapshot = structuredClone(checkpoint);
+    this.saveChain = this.saveChain
+      .then(() => this.getStorage().save(snapshot))
+      .catch(error => {
+        logger.error("Failed to save workflow checkpoint", {
+          workflowId: snapshot.workflowId,
+          status: snapshot.status,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+  }
+
+  private notifyIfIdle(): void {
+    if (this.active.size > 0) return;
+    this.idleWaiters.splice(0).forEach(resolve => resolve());
+  }
+}
+
+/** Checkpointer shared by the supervisor hooks, the endpoints and the shutdown handler */
+export const workflowCheckpointer = new WorkflowCheckpointer(() =>
+  createWorkflowCheckpointStorage(createWorkflowCheckpointStorageConfig())
+);
+
+/**
+ * Prompt that resumes a workflow from its checkpoint: the original request, the steps that
+ * finished with their outputs, and the steps that were still running
+ * @param checkpoint - Interrupted or failed workflow
+ */
+export const buildResumePrompt = (checkpoint: WorkflowCheckpoint): string => {
+  const formatStep = (step: WorkflowStep) =>
+    `- ${step.agent} -> ${step.tool} (${step.status})${step.output ? `: ${step.output}` : ''}${step.error ? `: ${step.error}` : ''}`;
+
+  const sections = [
+    `Resume workflow ${checkpoint.workflowId}, which stopped before it finished (${checkpoint.error ?? checkpoint.status}).`,
+    `Original request:\n${checkpoint.input}`,
+  ];
+  if (checkpoint.completedSteps.length > 0) {
+    sections.push(`Steps already finished; reuse their results instead of repeating them:\n${checkpoint.completedSteps.map(formatStep).join('\n')}`);
+  }
+  if (checkpoint.pendingSteps.length > 0) {
+    sections.push(`Steps that were still running and have no result; redo them if they are still needed:\n${checkpoint.pendingSteps.map(formatStep).join('\n')}`);
+  }
+  sections.push('Continue from where the workflow stopped and answer the original request.');
+  return sections.join('\n\n');
+};
+
+const workflowListQuerySchema = z.object({
+  status: z.enum(['running', 'completed', 'failed', 'interrupted', 'resumed', 'cancelled']).optional(),
+  limit: z.coerce.number().int().positive().optional(),
+});
+
+/**
+ * Endpoints to list, inspect, resume and cancel workflows
+ * @param resume - Starts a new run of the supervisor for a workflow marked as resumed
+ */
+export const createWorkflowEndpoints = (resume: (checkpoint: WorkflowCheckpoint) => Promise<unknown>): CustomEndpointDefinition[] => [
+  {
+    path: '/workflows',
+    method: 'get',
+    description: 'List supervisor workflow checkpoints, optionally by status',
+    handler: async c => {
+      const query = workflowListQuerySchema.safeParse(c.req.query());
+      if (!query.success) {
+        return c.json({ success: false, error: query.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`) }, 400);
+      }
+      return c.json({ success: true, data: await workflowCheckpointer.list(query.data) });
+    },
+  },
+  {
+    path: '/workflows/:id',
+    method: 'get',
+    description: 'Checkpoint of one supervisor workflow',
+    handler: async c => {
+      const checkpoint = await workflowCheckpointer.get(c.req.param('id') ?? '');
+      return checkpoint
+        ? c.json({ success: true, data: checkpoint })
+        : c.json({ success: false, error: 'Workflow not found' }, 404);
+    },
+  },
+  {
+    path: '/workflows/:id/resume',
+    method: 'post',
+    description: 'Resume an interrupted or failed workflow from its checkpoint',
+    handler: async c => {
+      const workflowId = c.req.param('id') ?? '';
+      if (workflowCheckpointer.isDraining) {
+        return c.json({ success: false, error: 'Shutting down' }, 503);
+      }
+
+      let checkpoint: WorkflowCheckpoint;
+      try {
+        checkpoint = await workflowCheckpointer.markResumed(workflowId);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return c.json({ success: false, error: message }, message.startsWith('Workflow not found') ? 404 : 409);
+      }
+
+      logger.info("Resuming workflow from checkpoint", {
+        workflowId,
+        completedSteps: checkpoint.completedSteps.length,
+        pendingSteps: checkpoint.pendingSteps.length,
+      });
+      resume(checkpoint).catch(error => {
+        logger.error("Resumed workflow failed", {
+          workflowId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+      return c.json({ success: true, data: { resumedFrom: workflowId } }, 202);
+    },
+  },
+  {
+    path: '/workflows/:id/cancel',
+    method: 'post',
+    description: 'Cancel a running or interrupted workflow',
+    handler: async c => {
+      try {
+        return c.json({ success: true, data: await workflowCheckpointer.cancel(c.req.param('id') ?? '') });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return c.json({ success: false, error: message }, message.startsWith('Workflow not found') ? 404 : 409);
+      }
+    },
+  },
+];
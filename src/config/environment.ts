@@ -7,15 +7,93 @@ import { z } from "zod";
 
 // Define environment schema
 const envSchema = z.object({
-  GOOGLE_GENERATIVE_AI_API_KEY: z.string().min(1, "Google AI API key is required"),
+  // Provider credentials; each is only required when an agent resolves a model from that provider
+  GOOGLE_GENERATIVE_AI_API_KEY: z.string().min(1).optional(),
+  OPENAI_API_KEY: z.string().min(1).optional(),
+  // OpenAI-compatible server (e.g. vLLM, LM Studio) used for openai: models
+  OPENAI_BASE_URL: z.string().url().optional(),
+  ANTHROPIC_API_KEY: z.string().min(1).optional(),
+  OLLAMA_BASE_URL: z.string().url().default("http://localhost:11434/v1"),
+  // Model for agents without a configured model, e.g. "openai:gpt-4o-mini"; AGENT_MODEL_<AGENT_ID> overrides a single agent
+  DEFAULT_MODEL: z.string().optional(),
+  // Comma-separated models tried in order when an agent's model keeps failing; AGENT_FALLBACK_MODELS_<AGENT_ID> overrides a single agent
+  DEFAULT_FALLBACK_MODELS: z.string().optional(),
+  // Retry policy for model calls: attempts per model, exponential backoff with jitter, per-attempt timeout
+  MODEL_MAX_RETRIES: z.coerce.number().int().min(0).default(2),
+  MODEL_RETRY_BASE_DELAY_MS: z.coerce.number().int().positive().default(500),
+  MODEL_RETRY_MAX_DELAY_MS: z.coerce.number().int().positive().default(20000),
+  MODEL_TIMEOUT_MS: z.coerce.number().int().positive().default(120000),
+  // Consecutive failures that open a provider's circuit, and how long it is skipped afterwards
+  MODEL_CIRCUIT_FAILURE_THRESHOLD: z.coerce.number().int().positive().default(5),
+  MODEL_CIRCUIT_COOLDOWN_MS: z.coerce.number().int().positive().default(60000),
+  // Budgets per supervisor session and per delegated task; unset limits are unlimited
+  SESSION_MAX_TOKENS: z.coerce.number().int().positive().optional(),
+  SESSION_MAX_COST_USD: z.coerce.number().positive().optional(),
+  SESSION_MAX_DURATION_MS: z.coerce.number().int().positive().optional(),
+  SESSION_MAX_DELEGATIONS: z.coerce.number().int().min(0).optional(),
+  DELEGATION_MAX_TOKENS: z.coerce.number().int().positive().optional(),
+  DELEGATION_MAX_COST_USD: z.coerce.number().positive().optional(),
+  DELEGATION_MAX_DURATION_MS: z.coerce.number().int().positive().optional(),
+  // Subtasks the supervisor's fan_out_tasks tool runs at the same time
+  FAN_OUT_MAX_CONCURRENCY: z.coerce.number().int().positive().default(3),
+  // Task plan nodes run at the same time, and where plans are kept ("libsql" persists to DATABASE_URL or local SQLite)
+  TASK_PLAN_MAX_CONCURRENCY: z.coerce.number().int().positive().default(3),
+  TASK_PLAN_STORAGE: z.enum(["memory", "libsql"]).default("memory"),
+  // Supervisor workflow checkpoints ("libsql" persists to DATABASE_URL or local SQLite so interrupted workflows survive a restart)
+  WORKFLOW_CHECKPOINT_STORAGE: z.enum(["memory", "libsql"]).default("libsql"),
+  // How long shutdown waits for in-flight workflows before checkpointing them as interrupted
+  SHUTDOWN_DRAIN_TIMEOUT_MS: z.coerce.number().int().min(0).default(30000),
+  // Tool calls at or above this risk level wait for a human decision over HTTP or at the terminal; unanswered requests are denied
+  TOOL_APPROVAL_RISK_LEVEL: z.enum(["low", "medium", "high", "off"]).default("high"),
+  TOOL_APPROVAL_CHANNEL: z.enum(["http", "cli"]).default("http"),
+  TOOL_APPROVAL_TIMEOUT_MS: z.coerce.number().int().positive().default(300000),
+  // Comma-separated approver=token entries; HTTP decisions need one of the tokens and are recorded under its approver
+  TOOL_APPROVAL_TOKENS: z.string().optional(),
+  // Comma-separated tool=low|medium|high entries that replace a tool's built-in risk level
+  TOOL_RISK_OVERRIDES: z.string().optional(),
+  // Tool permission policy (YAML or JSON), reloaded when it changes; without the file every call is allowed
+  TOOL_POLICY_PATH: z.string().default("./tool-policies.yaml"),
+  // Tool invocation audit log: rotating JSONL files in AUDIT_LOG_DIR, or "libsql" to use DATABASE_URL or local SQLite
+  AUDIT_LOG_STORAGE: z.enum(["jsonl", "libsql"]).default("jsonl"),
+  AUDIT_LOG_DIR: z.string().default("./.voltagent/audit"),
+  AUDIT_LOG_MAX_FILE_BYTES: z.coerce.number().int().positive().default(10485760),
+  // Secret redaction in logs, tool output previews and agent memory: a JSON array of extra regular expressions,
+  // and comma-separated environment variables whose values are secret even though their names do not say so
+  REDACTION_PATTERNS: z.string().optional(),
+  REDACTION_SECRET_ENV_VARS: z.string().optional(),
   NODE_ENV: z.enum(["development", "production", "test"]).default("development"),
   LOG_LEVEL: z.enum(["debug", "info", "warn", "error"]).default("info"),
+  // Per-module overrides of LOG_LEVEL, e.g. "supervisorRetriever=debug,toolPolicy=warn"
+  LOG_LEVELS: z.string().optional(),
+  // Comma-separated log sinks: console, file (rotating JSON lines) and otel (OpenTelemetry logs exporter)
+  LOG_SINKS: z.string().default("console"),
+  // Console output as JSON lines or as human-readable lines
+  LOG_FORMAT: z.enum(["json", "pretty"]).default("json"),
+  LOG_FILE_PATH: z.string().default("./.voltagent/logs/ai-volt.log"),
+  LOG_FILE_MAX_BYTES: z.coerce.number().int().positive().default(10485760),
+  LOG_FILE_MAX_FILES: z.coerce.number().int().positive().default(5),
+  // Span exporter: console output, OTLP over HTTP (endpoint and headers from the standard OTEL_EXPORTER_OTLP_* variables) or none
+  TRACE_EXPORTER: z.enum(["console", "otlp", "none"]).default("console"),
+  OTEL_SERVICE_NAME: z.string().default("ai-volt"),
   PORT: z.coerce.number().default(3141),
   PK: z.string().min(1, "Public key is required"),
   SK: z.string().min(1, "Secret key is required"),
   // Database configuration for LibSQL/Turso (optional - defaults to local SQLite)
   DATABASE_URL: z.string().optional(),
   DATABASE_AUTH_TOKEN: z.string().optional(),
+  // Supervisor retriever context storage ("memory" keeps the in-process LRU, "libsql" persists to DATABASE_URL or local SQLite)
+  SUPERVISOR_CONTEXT_STORAGE: z.enum(["memory", "libsql"]).default("memory"),
+  // Knowledge base embeddings ("transformers" runs a local model with a hashing fallback, "hashing" never loads a model)
+  KNOWLEDGE_BASE_EMBEDDINGS: z.enum(["transformers", "hashing"]).default("transformers"),
+  KNOWLEDGE_BASE_EMBEDDING_MODEL: z.string().default("Xenova/all-MiniLM-L6-v2"),
+  // Directory with pre-downloaded models; setting it disables model downloads for air-gapped machines
+  KNOWLEDGE_BASE_MODEL_PATH: z.string().optional(),
+  // Weight of semantic similarity in hybrid knowledge base search (0 = keyword only, 1 = semantic only)
+  KNOWLEDGE_BASE_HYBRID_ALPHA: z.coerce.number().min(0).max(1).default(0.5),
+  // Snapshot (.jsonl, .tar or .tar.gz) imported at startup when the knowledge base is empty
+  KNOWLEDGE_BASE_SNAPSHOT_PATH: z.string().optional(),
+  // Declarative worker topology (YAML or JSON) resolved against the allTools registry
+  AGENT_TOPOLOGY_PATH: z.string().default("./agents.yaml"),
   GITHUB_TOKEN: z.string().min(1, "GitHub API key is required"),
 
 });
@@ -1,9 +1,16 @@
 /**
  * Logging utilities for AI-Volt
- * Provides structured logging with different levels
+ * Structured logging with JSON-lines output, child loggers with bound fields, per-module levels
+ * and pluggable sinks (console, rotating file, OpenTelemetry logs). Records logged inside an
+ * OpenTelemetry span carry its trace and span ids.
  */
 
+import * as fs from "fs";
+import * as path from "path";
+import { context, trace } from "@opentelemetry/api";
+import { logs, SeverityNumber, type AnyValue } from "@opentelemetry/api-logs";
 import { env } from "./environment.js";
+import { secretRedactor } from "./redaction.js";
 
 export enum LogLevel {
   DEBUG = 0,
@@ -12,6 +19,8 @@ export enum LogLevel {
   ERROR = 3,
 }
 
+export type LogLevelName = "debug" | "info" | "warn" | "error";
+
 const logLevelMap: Record<string, LogLevel> = {
   debug: LogLevel.DEBUG,
   info: LogLevel.INFO,
@@ -19,49 +28,311 @@ const logLevelMap: Record<string, LogLevel> = {
   error: LogLevel.ERROR,
 };
 
-class Logger {
-  private currentLevel: LogLevel;
+/** Fields attached to a log record */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * A log entry as handed to the sinks, with secrets already masked
+ * @interface LogRecord
+ */
+export interface LogRecord {
+  /** ISO 8601 */
+  timestamp: string;
+  level: LogLevelName;
+  message: string;
+  /** Module that logged it, see {@link Logger.forModule} */
+  module?: string;
+  /** Active OpenTelemetry trace and span, when logged inside one */
+  traceId?: string;
+  spanId?: string;
+  /** Bound fields merged with the call's metadata */
+  fields: LogFields;
+}
+
+/**
+ * Destination for log records
+ * @interface LogSink
+ */
+export interface LogSink {
+  readonly name: string;
+  /** Write one record; must not throw for ordinary I/O failures */
+  write(record: LogRecord): void;
+  /** Flush and release resources */
+  close?(): Promise<void> | void;
+}
+
+export type LogFormat = "json" | "pretty";
+
+/**
+ * Render a record as one JSON line or as the human-readable `[time] LEVEL: message {fields}` form
+ */
+export const formatLogRecord = (record: LogRecord, format: LogFormat): string => {
+  if (format === "pretty") {
+    const module = record.module ? `[${record.module}] ` : "";
+    const fields = Object.keys(record.fields).length > 0 ? ` ${JSON.stringify(record.fields)}` : "";
+    return `[${record.timestamp}] ${record.level.toUpperCase()}: ${module}${record.message}${fields}`;
+  }
+  const { fields, ...core } = record;
+  // Record keys come first and win over same-named fields
+  return JSON.stringify({ ...core, ...fields, ...core });
+};
+
+/**
+ * Writes records to `console.debug/info/warn/error`
+ *
+ * @class ConsoleLogSink
+ */
+export class ConsoleLogSink implements LogSink {
+  readonly name = "console";
+
+  constructor(private readonly format: LogFormat) {}
+
+  write(record: LogRecord): void {
+    console[record.level](formatLogRecord(record, this.format));
+  }
+}
+
+/**
+ * Configuration for the rotating file sink
+ * @interface RotatingFileLogSinkOptions
+ */
+export interface RotatingFileLogSinkOptions {
+  /** Log file; rotated files are `<path>.1` (newest) to `<path>.<maxFiles>` */
+  path: string;
+  /** Size at which the file is rotated */
+  maxBytes: number;
+  /** Rotated files kept */
+  maxFiles: number;
+}
 
-  constructor() {
-    this.currentLevel = logLevelMap[env.LOG_LEVEL] ?? LogLevel.INFO;
+/**
+ * Appends JSON lines to a file and rotates it by size. Writes are synchronous so records
+ * logged right before the process exits are not lost.
+ *
+ * @class RotatingFileLogSink
+ */
+export class RotatingFileLogSink implements LogSink {
+  readonly name = "file";
+  private fd: number | null = null;
+  private size = 0;
+
+  constructor(private readonly options: RotatingFileLogSinkOptions) {}
+
+  write(record: LogRecord): void {
+    const line = `${formatLogRecord(record, "json")}\n`;
+    const bytes = Buffer.byteLength(line);
+    try {
+      if (this.fd === null) this.open();
+      if (this.size > 0 && this.size + bytes > this.options.maxBytes) this.rotate();
+      fs.writeSync(this.fd!, line);
+      this.size += bytes;
+    } catch (error) {
+      console.error(`Failed to write log file ${this.options.path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
-  private shouldLog(level: LogLevel): boolean {
-    return level >= this.currentLevel;
+  close(): void {
+    if (this.fd !== null) fs.closeSync(this.fd);
+    this.fd = null;
   }
 
-  private formatMessage(level: string, message: string, meta?: any): string {
-    const timestamp = new Date().toISOString();
-    const metaStr = meta ? ` ${JSON.stringify(meta)}` : "";
-    return `[${timestamp}] ${level.toUpperCase()}: ${message}${metaStr}`;
+  private open(): void {
+    fs.mkdirSync(path.dirname(this.options.path), { recursive: true });
+    this.fd = fs.openSync(this.options.path, "a", 0o600);
+    this.size = fs.fstatSync(this.fd).size;
   }
 
-  debug(message: string, meta?: any): void {
-    if (this.shouldLog(LogLevel.DEBUG)) {
-      console.debug(this.formatMessage("debug", message, meta));
+  private rotate(): void {
+    this.close();
+    const rotated = (index: number) => `${this.options.path}.${index}`;
+    fs.rmSync(rotated(this.options.maxFiles), { force: true });
+    for (let index = this.options.maxFiles - 1; index >= 1; index--) {
+      if (fs.existsSync(rotated(index))) fs.renameSync(rotated(index), rotated(index + 1));
     }
+    fs.renameSync(this.options.path, rotated(1));
+    this.open();
   }
+}
 
-  info(message: string, meta?: any): void {
-    if (this.shouldLog(LogLevel.INFO)) {
-      console.info(this.formatMessage("info", message, meta));
+const OTEL_SEVERITY: Record<LogLevelName, SeverityNumber> = {
+  debug: SeverityNumber.DEBUG,
+  info: SeverityNumber.INFO,
+  warn: SeverityNumber.WARN,
+  error: SeverityNumber.ERROR,
+};
+
+/**
+ * Emits records through the OpenTelemetry logs API. They are exported by the logger provider the
+ * OpenTelemetry SDK registers (configured with the standard `OTEL_LOGS_EXPORTER` and
+ * `OTEL_EXPORTER_OTLP_*` variables) and are linked to the span active when they were logged.
+ *
+ * @class OtelLogSink
+ */
+export class OtelLogSink implements LogSink {
+  readonly name = "otel";
+  private readonly otelLogger = logs.getLogger("ai-volt");
+
+  write(record: LogRecord): void {
+    const attributes: Record<string, AnyValue> = {};
+    for (const [key, value] of Object.entries(record.fields)) {
+      attributes[key] = value !== null && typeof value === "object" ? JSON.stringify(value) : value as AnyValue;
     }
+    if (record.module) attributes.module = record.module;
+
+    this.otelLogger.emit({
+      timestamp: new Date(record.timestamp),
+      severityNumber: OTEL_SEVERITY[record.level],
+      severityText: record.level.toUpperCase(),
+      body: record.message,
+      attributes,
+      context: context.active(),
+    });
   }
+}
 
-  warn(message: string, meta?: any): void {
-    if (this.shouldLog(LogLevel.WARN)) {
-      console.warn(this.formatMessage("warn", message, meta));
+/**
+ * Parse `LOG_LEVELS` (`module=level,module=level`)
+ * @throws Error naming the first malformed entry
+ */
+const parseModuleLevels = (value?: string): Map<string, LogLevel> => {
+  const levels = new Map<string, LogLevel>();
+  for (const entry of (value ?? "").split(",").map(part => part.trim()).filter(Boolean)) {
+    const [module, level] = entry.split("=").map(part => part.trim());
+    if (!module || !(level in logLevelMap)) {
+      throw new Error(`Invalid LOG_LEVELS entry "${entry}", expected module=debug|info|warn|error`);
     }
+    levels.set(module, logLevelMap[level]);
+  }
+  return levels;
+};
+
+/**
+ * Create the sinks named in `LOG_SINKS`
+ * @throws Error naming an unknown sink
+ */
+const createLogSinks = (names: string): LogSink[] =>
+  names.split(",").map(name => name.trim()).filter(Boolean).map(name => {
+    switch (name) {
+      case "console":
+        return new ConsoleLogSink(env.LOG_FORMAT);
+      case "file":
+        return new RotatingFileLogSink({ path: env.LOG_FILE_PATH, maxBytes: env.LOG_FILE_MAX_BYTES, maxFiles: env.LOG_FILE_MAX_FILES });
+      case "otel":
+        return new OtelLogSink();
+      default:
+        throw new Error(`Invalid LOG_SINKS entry "${name}", expected console, file or otel`);
+    }
+  });
+
+const rootLevel = logLevelMap[env.LOG_LEVEL] ?? LogLevel.INFO;
+const moduleLevels = parseModuleLevels(env.LOG_LEVELS);
+const sinks: LogSink[] = createLogSinks(env.LOG_SINKS);
+
+/**
+ * Metadata as plain, redacted fields. Errors become `{ name, message, stack }`; anything that is
+ * not an object is kept under `meta`.
+ */
+const toLogFields = (meta: unknown): LogFields => {
+  if (meta === undefined || meta === null) return {};
+  const fields = meta instanceof Error ? { error: meta }
+    : typeof meta === "object" && !Array.isArray(meta) ? meta
+    : { meta };
+  try {
+    return JSON.parse(secretRedactor.stringify(fields, (_key, value) =>
+      value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value
+    ) || "{}");
+  } catch (error) {
+    return { logFieldsError: `Unserializable log fields: ${error instanceof Error ? error.message : String(error)}` };
+  }
+};
+
+/**
+ * Structured logger. Child loggers share the sinks and carry extra bound fields;
+ * module loggers follow the module's `LOG_LEVELS` override.
+ *
+ * @class Logger
+ */
+export class Logger {
+  constructor(private readonly bindings: LogFields = {}, private readonly module?: string) {}
+
+  /**
+   * Logger that adds these fields (e.g. `agentName`, `sessionId`, `operationId`) to every record
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings }, this.module);
+  }
+
+  /**
+   * Logger for one module, named in records and in `LOG_LEVELS`
+   */
+  forModule(module: string): Logger {
+    return new Logger(this.bindings, module);
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    const threshold = this.module === undefined ? undefined : moduleLevels.get(this.module);
+    return level >= (threshold ?? rootLevel);
+  }
+
+  debug(message: string, meta?: any): void {
+    this.log("debug", LogLevel.DEBUG, message, meta);
+  }
+
+  info(message: string, meta?: any): void {
+    this.log("info", LogLevel.INFO, message, meta);
+  }
+
+  warn(message: string, meta?: any): void {
+    this.log("warn", LogLevel.WARN, message, meta);
   }
 
   error(message: string, error?: Error | any): void {
-    if (this.shouldLog(LogLevel.ERROR)) {
-      const errorMeta = error instanceof Error 
-        ? { message: error.message, stack: error.stack }
-        : error;
-      console.error(this.formatMessage("error", message, errorMeta));
+    this.log("error", LogLevel.ERROR, message, error);
+  }
+
+  private log(levelName: LogLevelName, level: LogLevel, message: string, meta: unknown): void {
+    if (!this.isLevelEnabled(level)) return;
+
+    const spanContext = trace.getSpan(context.active())?.spanContext();
+    const traced = spanContext && trace.isSpanContextValid(spanContext);
+    const record: LogRecord = {
+      timestamp: new Date().toISOString(),
+      level: levelName,
+      // Secrets are masked before any sink sees the record
+      message: secretRedactor.redactText(message),
+      ...(this.module && { module: this.module }),
+      ...(traced && { traceId: spanContext.traceId, spanId: spanContext.spanId }),
+      fields: { ...toLogFields(this.bindings), ...toLogFields(meta) },
+    };
+
+    for (const sink of sinks) {
+      try {
+        sink.write(record);
+      } catch (error) {
+        console.error(`Log sink ${sink.name} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
     }
   }
 }
 
 export const logger = new Logger();
+
+/**
+ * Logger for a module, so `LOG_LEVELS` can raise or lower its level on its own
+ * @param module - Module name, e.g. `supervisorRetriever`
+ */
+export const createModuleLogger = (module: string): Logger => logger.forModule(module);
+
+/**
+ * Send records to an additional sink
+ */
+export const addLogSink = (sink: LogSink): void => {
+  sinks.push(sink);
+};
+
+/**
+ * Flush and close every sink, e.g. on shutdown
+ */
+export const closeLogSinks = async (): Promise<void> => {
+  await Promise.all(sinks.map(sink => sink.close?.()));
+};
@@ -0,0 +1,174 @@
+/**
+ * Secret redaction for AI-Volt
+ * Masks secret environment values, common token formats and configured patterns
+ * before text reaches logs, tool output previews or agent memory
+ */
+
+import { env } from "./environment.js";
+
+/** Replacement for values of fields whose name marks them as secret */
+export const REDACTED = "[REDACTED]";
+
+/** Field and environment variable names whose values are treated as secrets */
+const SECRET_NAME_PATTERN = /password|passphrase|passwd|secret|token|api[-_]?key|credential|private[-_]?key|authorization|^auth$|^(pk|sk)$/i;
+
+/** Environment values shorter than this are too likely to occur by chance to be masked */
+const MIN_SECRET_VALUE_LENGTH = 8;
+
+/**
+ * Regex detector for one token format
+ * @interface SecretDetector
+ */
+export interface SecretDetector {
+  /** Shown in the replacement, e.g. `[REDACTED:github-token]` */
+  name: string;
+  /** Global pattern matching only the secret part */
+  pattern: RegExp;
+}
+
+/** Detectors for common credential formats */
+export const SECRET_DETECTORS: SecretDetector[] = [
+  { name: "private-key", pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { name: "github-token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: "anthropic-key", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: "openai-key", pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "google-api-key", pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { name: "aws-access-key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "slack-token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { name: "bearer-token", pattern: /(?<=\bBearer\s+)[A-Za-z0-9._~+/=-]{16,}/gi },
+  { name: "url-credentials", pattern: /(?<=\/\/[^\s:/@]+:)[^\s@/]+(?=@)/g },
+];
+
+/**
+ * Whether a field or environment variable name marks its value as secret
+ */
+export const isSecretName = (name: string): boolean => SECRET_NAME_PATTERN.test(name);
+
+/**
+ * Masks secrets in strings and in the string fields of plain objects and arrays.
+ * Known secret values are replaced with `[REDACTED:<ENV_VAR>]`, detector matches with
+ * `[REDACTED:<detector>]`, and string fields with secret-looking names with `[REDACTED]`.
+ *
+ * @class SecretRedactor
+ */
+export class SecretRedactor {
+  private readonly secrets: Array<[string, string]>;
+
+  /**
+   * @param secrets - Secret values by the name shown in their replacement
+   * @param detectors - Token format detectors
+   */
+  constructor(secrets: Record<string, string | undefined>, private readonly detectors: SecretDetector[] = SECRET_DETECTORS) {
+    this.secrets = Object.entries(secrets)
+      .filter((entry): entry is [string, string] => typeof entry[1] === "string" && entry[1].length >= MIN_SECRET_VALUE_LENGTH)
+      // Longer values first, so a secret containing another is masked whole
+      .sort((a, b) => b[1].length - a[1].length);
+  }
+
+  /**
+   * Mask secrets in a string
+   */
+  redactText(text: string): string {
+    let result = text;
+    for (const [name, value] of this.secrets) {
+      if (result.includes(value)) result = result.split(value).join(`[REDACTED:${name}]`);
+    }
+    for (const { name, pattern } of this.detectors) {
+      result = result.replace(pattern, `[REDACTED:${name}]`);
+    }
+    return result;
+  }
+
+  /**
+   * Copy of a value with secrets masked in every string of its plain objects and arrays.
+   * Other objects (dates, class instances) are kept as they are.
+   */
+  redact<T>(value: T): T {
+    return this.redactValue(value, undefined, new WeakMap()) as T;
+  }
+
+  /**
+   * JSON serialization with secrets masked, for log lines and previews
+   * @param replacer - Applied to each field before masking, as in `JSON.stringify`
+   */
+  stringify(value: unknown, replacer?: (key: string, field: unknown) => unknown): string {
+    const json = JSON.stringify(value, (key, raw) => {
+      const field = replacer ? replacer(key, raw) : raw;
+      return key && typeof field === "string" && isSecretName(key) ? REDACTED : field;
+    });
+    return json === undefined ? "" : this.redactText(json);
+  }
+
+  private redactValue(value: unknown, key: string | undefined, seen: WeakMap<object, unknown>): unknown {
+    if (typeof value === "string") {
+      return key && isSecretName(key) ? REDACTED : this.redactText(value);
+    }
+    if (!value || typeof value !== "object") return value;
+    if (seen.has(value)) return seen.get(value);
+
+    if (Array.isArray(value)) {
+      // Numeric arrays (embeddings) cannot hold a secret
+      if (value.every(item => typeof item === "number")) return value;
+      const copy: unknown[] = [];
+      seen.set(value, copy);
+      for (const item of value) copy.push(this.redactValue(item, undefined, seen));
+      return copy;
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) return value;
+
+    const copy: Record<string, unknown> = {};
+    seen.set(value, copy);
+    for (const [name, field] of Object.entries(value)) {
+      copy[name] = this.redactValue(field, name, seen);
+    }
+    return copy;
+  }
+}
+
+/**
+ * Parse `REDACTION_PATTERNS` (a JSON array of regular expression sources)
+ * @throws Error naming the first invalid pattern
+ */
+const parseRedactionPatterns = (value?: string): SecretDetector[] => {
+  if (!value) return [];
+  let sources: unknown;
+  try {
+    sources = JSON.parse(value);
+  } catch {
+    throw new Error("Invalid REDACTION_PATTERNS, expected a JSON array of regular expressions");
+  }
+  if (!Array.isArray(sources) || !sources.every(source => typeof source === "string")) {
+    throw new Error("Invalid REDACTION_PATTERNS, expected a JSON array of regular expressions");
+  }
+  return sources.map((source: string, index) => {
+    try {
+      return { name: `pattern-${index + 1}`, pattern: new RegExp(source, "g") };
+    } catch (error) {
+      throw new Error(`Invalid REDACTION_PATTERNS entry "${source}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+};
+
+/**
+ * Values of environment variables with secret-looking names and of those listed in `REDACTION_SECRET_ENV_VARS`
+ */
+const collectSecretEnvValues = (): Record<string, string | undefined> => {
+  const listed = new Set((env.REDACTION_SECRET_ENV_VARS ?? "").split(",").map(name => name.trim()).filter(Boolean));
+  return Object.fromEntries(
+    Object.entries(process.env).filter(([name]) => listed.has(name) || isSecretName(name))
+  );
+};
+
+/** Redactor used by the logger, hook previews and agent memory */
+export const secretRedactor = new SecretRedactor(collectSecretEnvValues(), [
+  ...SECRET_DETECTORS,
+  ...parseRedactionPatterns(env.REDACTION_PATTERNS),
+]);
+
+/**
+ * Copy of a value with secrets masked, see {@link SecretRedactor.redact}
+ */
+export const redactSecrets = <T>(value: T): T => secretRedactor.redact(value);
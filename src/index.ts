@@ -9,9 +9,35 @@ import { VoltAgent, VoltAgentExporter } from "@voltagent/core";
 import { NodeSDK } from "@opentelemetry/sdk-node";
 import { getNodeAutoInstrumentations } from "@opentelemetry/auto-instrumentations-node";
 import { createAIVoltAgent, createSupervisorAgent, createWorkerAgents } from "./agents/index.js";
-import { logger } from "./config/logger.js";
+import { costEndpoints } from "./agents/costLedger.js";
+import { metricsEndpoints } from "./agents/metrics.js";
+import { approvalEndpoints } from "./agents/toolApproval.js";
+import { auditEndpoints, auditLog } from "./agents/auditLog.js";
+import { policyEndpoints, toolPolicyEngine } from "./agents/toolPolicy.js";
+import { RESUMED_FROM_KEY, buildResumePrompt, createWorkflowEndpoints, workflowCheckpointer } from "./agents/workflowCheckpoints.js";
+import { closeLogSinks, logger } from "./config/logger.js";
 import { env } from "./config/environment.js";
-import { ConsoleSpanExporter } from "@opentelemetry/sdk-trace-base";
+import { BatchSpanProcessor, ConsoleSpanExporter, type SpanProcessor } from "@opentelemetry/sdk-trace-base";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-proto";
+
+/** OpenTelemetry SDK, shut down on exit so buffered spans and log records are exported */
+let telemetrySdk: NodeSDK | undefined;
+
+/**
+ * Span processors for TRACE_EXPORTER. The OTLP exporter reads its endpoint and headers from the
+ * standard OTEL_EXPORTER_OTLP_* variables.
+ */
+const createSpanProcessors = (): SpanProcessor[] => {
+  switch (env.TRACE_EXPORTER) {
+    case "otlp":
+      return [new BatchSpanProcessor(new OTLPTraceExporter())];
+    case "none":
+      return [];
+    case "console":
+    default:
+      return [new BatchSpanProcessor(new ConsoleSpanExporter())];
+  }
+};
 
 /**
  * Initialize and start the AI-Volt application with supervisor/worker pattern
@@ -23,6 +49,10 @@ async function startAIVolt(): Promise<void> {
       port: env.PORT,
       logLevel: env.LOG_LEVEL
     });
+    // Tool permission policy, reloaded whenever the file changes
+    await toolPolicyEngine.load(env.TOOL_POLICY_PATH);
+    toolPolicyEngine.watch(env.TOOL_POLICY_PATH);
+
     // Create the main AI-Volt agent (monolithic)
     const aiVoltAgent = createAIVoltAgent();
 
@@ -32,6 +62,17 @@ async function startAIVolt(): Promise<void> {
     // Create specialized worker agents (now async)
     const workerAgents = await createWorkerAgents();
 
+    // Workflows still marked running were cut short by the previous process
+    const interruptedWorkflows = await workflowCheckpointer.recoverInterrupted();
+    if (interruptedWorkflows.length > 0) {
+      logger.warn("⏸️ Interrupted workflows can be resumed or cancelled", {
+        count: interruptedWorkflows.length,
+        workflowIds: interruptedWorkflows.map(checkpoint => checkpoint.workflowId),
+        resume: "POST /workflows/:id/resume",
+        cancel: "POST /workflows/:id/cancel"
+      });
+    }
+
     // Initialize VoltAgent with multi-agent configuration
     const voltAgent = new VoltAgent({
       agents: {
@@ -39,17 +80,30 @@ async function startAIVolt(): Promise<void> {
         "ai-volt": aiVoltAgent,
         // Supervisor for coordinating tasks
         "supervisor": supervisorAgent,
-        // Specialized worker agents
-        "system-info": workerAgents.systemInfo,
-        "file-ops": workerAgents.fileOps,
-        "git-ops": workerAgents.git,
-        "browser-ops": workerAgents.browser,
-        "coding-ops": workerAgents.coding,
-        "debug": workerAgents.debug,
-        "research": workerAgents.research,
-        "knowledge-base": workerAgents.knowledgeBase, 
-        "data": workerAgents.data,
-        "cloud": workerAgents.cloud,
+        // Specialized worker agents, keyed by their id in the topology file
+        ...workerAgents,
+      },
+      server: {
+        customEndpoints: [
+          // Model spend per agent, session, workflow and delegation
+          ...costEndpoints,
+          // Prometheus scrape target for agent, tool, model and retriever health
+          ...metricsEndpoints,
+          // Pending high-risk tool calls and their decisions
+          ...approvalEndpoints,
+          // Current tool permission policy and dry-run decisions
+          ...policyEndpoints,
+          // Tool invocation audit records
+          ...auditEndpoints,
+          // Supervisor workflow checkpoints; a resumed workflow continues in the same conversation
+          ...createWorkflowEndpoints(checkpoint =>
+            supervisorAgent.generateText(buildResumePrompt(checkpoint), {
+              conversationId: checkpoint.conversationId,
+              userId: checkpoint.userId,
+              userContext: new Map([[RESUMED_FROM_KEY, checkpoint.workflowId]]),
+            })
+          ),
+        ],
       },
       telemetryExporter: new VoltAgentExporter({
         publicKey: env.PK,
@@ -58,13 +112,14 @@ async function startAIVolt(): Promise<void> {
       }),
     });
     
-    // Initialize OpenTelemetry SDK
-    const sdk = new NodeSDK({
-      traceExporter: new ConsoleSpanExporter(),
+    // Initialize OpenTelemetry SDK; it also registers the logger provider the "otel" log sink emits to
+    telemetrySdk = new NodeSDK({
+      serviceName: env.OTEL_SERVICE_NAME,
+      spanProcessors: createSpanProcessors(),
       instrumentations: [getNodeAutoInstrumentations()],
     });
     
-    sdk.start();
+    telemetrySdk.start();
     const workerAgentKeysForLog = Object.keys(workerAgents);
     // Instead of Object.keys(voltAgent.agents), use the keys we passed in
     const registeredAgentCount = 2 + workerAgentKeysForLog.length; // ai-volt + supervisor + workers
@@ -89,18 +144,9 @@ async function startAIVolt(): Promise<void> {
         name: supervisorAgent.name,
         role: "Task coordination and delegation"
       },
-      workerAgents: {
-        systemInfo: "System monitoring",
-        fileOps: "File operations",
-        git: "Git version control",
-        browser: "Web browsing and scraping",
-        knowledgeBase: "Knowledge management",
-        data: "Data processing and analysis",
-        research: "Research and information retrieval",
-        debug: "Debugging and troubleshooting",
-        coding: "Code execution and analysis",
-        cloud: "Cloud operations"
-      },
+      workerAgents: Object.fromEntries(
+        Object.entries(workerAgents).map(([id, agent]) => [id, agent.purpose])
+      ),
       voltAgent: {
         id: voltAgent,
         role: "Multi-agent coordination and management"
@@ -125,17 +171,44 @@ async function startAIVolt(): Promise<void> {
   }
 }
 /**
- * Handle graceful shutdown
+ * Handle graceful shutdown: stop accepting workflows, let in-flight ones finish within
+ * SHUTDOWN_DRAIN_TIMEOUT_MS, checkpoint the rest as interrupted, then flush the audit log, telemetry
+ * and log sinks. A second signal exits at once.
  */
-process.on('SIGINT', () => {
-  logger.info("🛑 Received SIGINT, shutting down gracefully...");
-  process.exit(0);
-});
+let shuttingDown = false;
+const shutdown = async (signal: NodeJS.Signals): Promise<void> => {
+  if (shuttingDown) {
+    logger.warn(`🛑 Received ${signal} again, exiting without waiting for workflows`);
+    process.exit(1);
+  }
+  shuttingDown = true;
+  logger.info(`🛑 Received ${signal}, shutting down gracefully...`);
 
-process.on('SIGTERM', () => {
-  logger.info("🛑 Received SIGTERM, shutting down gracefully...");
+  try {
+    await workflowCheckpointer.drain(env.SHUTDOWN_DRAIN_TIMEOUT_MS);
+  } catch (error) {
+    logger.error("Failed to drain workflows during shutdown", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  try {
+    await auditLog.close();
+  } catch (error) {
+    logger.error("Failed to flush the audit log during shutdown", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  try {
+    await telemetrySdk?.shutdown();
+    await closeLogSinks();
+  } catch (error) {
+    console.error(`Failed to flush telemetry during shutdown: ${error instanceof Error ? error.message : String(error)}`);
+  }
   process.exit(0);
-});
+};
+
+process.on('SIGINT', () => void shutdown('SIGINT'));
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
 
 // Start the application
 startAIVolt().catch((error) => {
@@ -59,7 +59,7 @@ WORKFLOW:
 1. Validate user request security
 2. Analyze context, use RAG if needed
 3. Decompose into agent-suitable subtasks  
-4. Delegate via \`subAgents\` (not delegate_task tool)
+4. Delegate via \`subAgents\` (not delegate_task tool); send independent subtasks for several workers together with \`fan_out_tasks\`; run steps that build on each other as a graph with \`run_task_plan\`
 5. Monitor progress, handle errors
 6. Synthesize and validate responses
 7. Learn from outcomes
@@ -96,7 +96,9 @@ ENHANCED WORKFLOW:
 3. Augment responses with knowledge insights
 4. Update knowledge base if applicable
 
-DECISIONS: {{ragDecisionGuidelines}}` as const;
+DECISIONS: {{ragDecisionGuidelines}}
+
+CITATIONS: {{citationGuidelines}}` as const;
 
 const supervisorRAGPromptVariables: TemplateVariables<typeof supervisorRAGPromptTemplate> = {
   baseInstructions: supervisorPromptTemplate, // Uses the full supervisor template as base
@@ -104,6 +106,7 @@ const supervisorRAGPromptVariables: TemplateVariables<typeof supervisorRAGPrompt
   ragMode: "Selective - retrieve when specialized knowledge, historical context, or complex decision support is needed.",
   retrievalStrategy: "Semantic search on task description and user query to find relevant documents and past interactions.",
   ragDecisionGuidelines: "Leverage retrieved context to: 1. Refine task decomposition. 2. Select the most appropriate agent(s). 3. Provide agents with pertinent background information. 4. Augment final responses with factual data from the knowledge base. 5. Identify knowledge gaps for future learning.",
+  citationGuidelines: "Back every fact taken from the knowledge base with its citation id in square brackets, e.g. [kb:doc-123#120-480], exactly as returned by query_knowledge_base. Use expand_citation when a passage needs surrounding context. Never invent citation ids.",
 };
 
 const supervisorRAGPromptConfig: PromptTemplate<typeof supervisorRAGPromptTemplate> = {
@@ -356,7 +359,9 @@ SPECIALIZATION: Knowledge base management - vector stores, document repositories
 TASKS: Add documents/data, semantic/keyword search, retrieve by ID/metadata, summarize/synthesize, organize/tag, manage embeddings.
 
 TOOLS: Vector DB APIs (Pinecone, pgvector), document tools, text processing, various formats.
-HANDLING: Data integrity, access controls, optimized queries.` as const;
+HANDLING: Data integrity, access controls, optimized queries.
+SUMMARIES: Use summarize_document with summaryType "abstractive" and a documentId for stored documents; heuristic types work without the model.
+CITATIONS: Report the citationId of every passage you rely on so the Supervisor can cite it.` as const;
 
 const knowledgeBaseAgentPromptVariables: TemplateVariables<typeof knowledgeBaseAgentPromptTemplate> = {
   baseWorkerInstructions: `You are KnowledgeBaseAgent, specialized worker in AI-Volt reporting to Supervisor.
@@ -0,0 +1,34 @@
+/**
+ * Audit log tool
+ * Looks up tool invocation audit records by session, workflow, delegation, agent, tool, status, caller or time
+ */
+
+import { createTool } from "@voltagent/core";
+import { createModuleLogger } from "../config/logger.js";
+import { auditLog, auditQuerySchema, type AuditQuery } from "../agents/auditLog.js";
+
+const logger = createModuleLogger("auditTools");
+
+/**
+ * Audit log query tool implementation
+ */
+export const auditLogTool = createTool({
+  name: "query_audit_log",
+  description: "Look up tool invocations recorded in the audit log, newest first. Each record shows the session, workflow and delegation chain, the agent and tool, redacted arguments, whether the call succeeded, failed or was denied, its duration and an output hash. Filter by session, workflow, delegation, agent, tool, status, caller or time range.",
+  parameters: auditQuerySchema,
+  execute: async (query: AuditQuery) => {
+    try {
+      logger.debug("Querying audit log", { ...query });
+      const records = await auditLog.query(query);
+
+      logger.info("Audit log queried", { records: records.length });
+
+      return JSON.stringify({ success: true, count: records.length, records }, null, 2);
+    } catch (error) {
+      logger.error("Audit log query failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error(`Failed to query audit log: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+});
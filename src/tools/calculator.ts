@@ -6,7 +6,9 @@
 
 import { createTool } from "@voltagent/core";
 import { z } from "zod";
-import { logger } from "../config/logger.js";
+import { createModuleLogger } from "../config/logger.js";
+
+const logger = createModuleLogger("calculator");
 
 /**
  * Schema for mathematical operations and algorithms
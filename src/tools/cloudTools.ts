@@ -5,11 +5,13 @@
  */
 import { createTool, createToolkit } from '@voltagent/core';
 import { z } from 'zod';
-import { logger } from '../config/logger.js';
+import { createModuleLogger } from '../config/logger.js';
 import fetch from 'isomorphic-fetch';
 import { Readable } from 'stream';
 import tar from 'tar-fs';
 
+const logger = createModuleLogger('cloudTools');
+
 // Helper to communicate with the Docker Engine API
 const dockerApiRequest = async (
   method: 'GET' | 'POST' | 'DELETE',
@@ -220,6 +222,15 @@ export const inspectContainerTool = createTool({
   },
 });
 
+/**
+ * Labels of a container, used by tool policies that restrict which containers an agent may touch
+ * @param containerId - Container id or name
+ */
+export const getContainerLabels = async (containerId: string): Promise<Record<string, string>> => {
+  const data = await dockerApiRequest('GET', `/containers/${encodeURIComponent(containerId)}/json`);
+  return data?.Config?.Labels ?? {};
+};
+
 /**
  * List Images Tool
  * Lists all Docker images.
@@ -5,12 +5,14 @@
  */
 import { createTool, createToolkit } from '@voltagent/core';
 import { z } from 'zod';
-import { logger } from '../config/logger.js';
+import { createModuleLogger } from '../config/logger.js';
 import ivm from 'isolated-vm';
 import * as path from 'path';
 import * as shell from 'shelljs';
 import { Stats } from 'fs';
 
+const logger = createModuleLogger('codingTools');
+
 // Helper to ensure file paths are safe
 const resolveSecurePath = (filePath: string): string => {
   const authorizedPath = path.resolve(process.cwd());
@@ -5,13 +5,15 @@
  */
 import { createTool, createToolkit } from '@voltagent/core';
 import { z } from 'zod';
-import { logger } from '../config/logger.js';
+import { createModuleLogger } from '../config/logger.js';
 import { gitCloneTool } from './enhancedGitTool.js';
 import { lintCodeTool } from './debugTools.js';
 import { listDirectoryTool, readFileTool } from './codingTools.js';
 import path from 'path';
 import * as fs from 'fs/promises';
 
+const logger = createModuleLogger('compositeTools');
+
 /**
  * Clones a Git repository and performs a comprehensive analysis of its contents.
  */
@@ -0,0 +1,38 @@
+/**
+ * Cost reporting tool
+ * Reports model spend from the cost ledger, broken down by agent, model, session, workflow or delegation
+ */
+
+import { createTool } from "@voltagent/core";
+import { createModuleLogger } from "../config/logger.js";
+import { costLedger, costQuerySchema, type CostQuery } from "../agents/costLedger.js";
+
+const logger = createModuleLogger("costTools");
+
+/**
+ * Cost report tool implementation
+ */
+export const costReportTool = createTool({
+  name: "get_cost_report",
+  description: "Report model token usage and USD cost recorded in the cost ledger. Filter by session, workflow, delegation, agent, model or start time, and break the total down by agent (supervisor versus each worker), model, session, workflow or delegation.",
+  parameters: costQuerySchema,
+  execute: async (query: CostQuery) => {
+    try {
+      logger.debug("Generating cost report", { ...query });
+      const report = costLedger.query(query);
+
+      logger.info("Cost report generated", {
+        groupBy: report.groupBy,
+        calls: report.total.calls,
+        cost: report.total.cost,
+      });
+
+      return JSON.stringify({ success: true, currency: "USD", ...report }, null, 2);
+    } catch (error) {
+      logger.error("Cost report failed", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error(`Failed to generate cost report: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+});
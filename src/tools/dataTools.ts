@@ -5,11 +5,15 @@
 
 import { createTool } from "@voltagent/core";
 import { z } from "zod";
-import { logger } from "../config/logger.js";
+import { createModuleLogger } from "../config/logger.js";
 import * as shell from 'shelljs';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
 import * as ivm from 'isolated-vm';
 import Papa from 'papaparse';
 
+const logger = createModuleLogger("dataTools");
+
 /**
  * Read Data From File Tool
  * Reads the entire content of a specified file.
@@ -133,9 +137,23 @@ export const writeDataToFileTool = createTool({
   },
 });
 
+/**
+ * Calculate the MD5 checksum of a file by streaming its contents
+ * @param filePath - Path to the file
+ * @returns Hex-encoded MD5 digest
+ */
+export const calculateFileChecksum = (filePath: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const hash = createHash('md5');
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+
 /**
  * Checksum File Tool
- * Calculates the MD5 checksum of a specified file using shell commands.
+ * Calculates the MD5 checksum of a specified file.
  */
 export const checksumFileTool = createTool({
   name: "checksum_file",
@@ -148,20 +166,8 @@ export const checksumFileTool = createTool({
       if (!shell.test('-f', args.filePath)) {
         throw new Error(`File not found: ${args.filePath}`);
       }
-      // Using 'md5sum' for Linux/macOS, 'CertUtil -hashfile MD5' for Windows
-      let command = '';
-      if (process.platform === 'win32') {
-        command = `CertUtil -hashfile "${args.filePath}" MD5`;
-      } else {
-        command = `md5sum "${args.filePath}" | awk '{print $1}'`;
-      }
-
-      const result = shell.exec(command, { silent: true });
-      if (result.code !== 0) {
-        throw new Error(`Failed to calculate checksum: ${result.stderr}`);
-      }
 
-      const checksum = result.stdout.split('\n')[1] ? result.stdout.split('\n')[1].trim() : result.stdout.trim().split(' ')[0];
+      const checksum = await calculateFileChecksum(args.filePath);
       logger.info(`Checksum for ${args.filePath}: ${checksum}`);
       return `MD5 Checksum for ${args.filePath}: ${checksum}`;    } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -5,11 +5,13 @@
 
 import { createTool } from "@voltagent/core";
 import { z } from "zod";
-import { logger } from "../config/logger.js";
+import { createModuleLogger } from "../config/logger.js";
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc.js';
 import timezone from 'dayjs/plugin/timezone.js';
 
+const logger = createModuleLogger("datetime");
+
 dayjs.extend(utc);
 dayjs.extend(timezone);
 
@@ -5,7 +5,7 @@
  */
 import { createTool, createToolkit } from '@voltagent/core';
 import { z } from 'zod';
-import { logger } from '../config/logger.js';
+import { createModuleLogger } from '../config/logger.js';
 import ivm from 'isolated-vm';
 import { ESLint } from 'eslint';
 import { Complexity } from 'eslintcc';
@@ -13,6 +13,8 @@ import * as path from 'path';
 import * as shell from 'shelljs';
 import { Inspector } from 'jsinspect-plus';
 
+const logger = createModuleLogger('debugTools');
+
 /**
  * Executes a JavaScript code snippet in a secure, isolated sandbox.
  * Supports performance monitoring and custom mock context for advanced testing.
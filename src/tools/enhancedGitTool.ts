@@ -8,7 +8,7 @@
  */
 import { createTool, createToolkit, type Toolkit } from '@voltagent/core';
 import { z } from 'zod';
-import { logger } from '../config/logger.js';
+import { createModuleLogger } from '../config/logger.js';
 import ivm from 'isolated-vm';
 import * as shell from 'shelljs';
 import git from 'isomorphic-git';
@@ -16,6 +16,7 @@ import http from 'isomorphic-git/http/node';
 import fs from 'fs';
 import path from 'path';
 
+const logger = createModuleLogger('enhancedGitTool');
 
 // Initialize shell with secure defaults
 shell.config.silent = true; // Suppress output to console
@@ -5,13 +5,15 @@
  */
 import { createTool, createToolkit, type Toolkit } from '@voltagent/core';
 import { z } from 'zod';
-import { logger } from '../config/logger.js';
+import { createModuleLogger } from '../config/logger.js';
 import ivm from 'isolated-vm';
 import * as shell from 'shelljs';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
 import * as path from 'path';
 
+const logger = createModuleLogger('enhancedWebBrowser');
+
 // Configure shell for secure operations
 shell.config.silent = true;
 shell.config.fatal = false;
@@ -6,9 +6,11 @@
  */
 import { createTool } from '@voltagent/core';
 import { z } from 'zod';
-import { logger } from '../config/logger.js';
+import { createModuleLogger } from '../config/logger.js';
 import { simpleGit, SimpleGit } from 'simple-git';
 
+const logger = createModuleLogger('gitTool');
+
 const git: SimpleGit = simpleGit(); // Initialize simple-git client
 
 // --- Git Status Tool ---
@@ -9,8 +9,10 @@
 export { calculatorTool, statisticsAnalysisTool } from "./calculator.js";
 export { dateTimeTool } from "./datetime.js";
 export { systemInfoTool, codeExecutionEnvironmentAnalysisTool } from "./systemInfo.js";
-export { ingestDocumentTool, queryKnowledgeBaseTool, summarizeDocumentTool, listKnowledgeBaseDocumentsTool } from "./knowledgeBaseTools.js";
+export { ingestDocumentTool, ingestDirectoryTool, queryKnowledgeBaseTool, summarizeDocumentTool, listKnowledgeBaseDocumentsTool, getKnowledgeBaseDocumentTool, deleteKnowledgeBaseDocumentTool, expandCitationTool, exportKnowledgeBaseTool, importKnowledgeBaseTool } from "./knowledgeBaseTools.js";
 export { readDataFromFileTool, analyzeCsvDataTool, writeDataToFileTool, checksumFileTool, compressFileTool, decompressFileTool, findInFileTool } from "./dataTools.js";
+export { costReportTool } from "./costTools.js";
+export { auditLogTool } from "./auditTools.js";
 export * from "./promptManagementTools.js";
 
 // ## Debugging Tools
@@ -140,7 +142,7 @@ export { default as promptManagerToolkit } from "./promptManagerToolkit.js";
 import { calculatorTool, statisticsAnalysisTool } from "./calculator.js";
 import { dateTimeTool } from "./datetime.js";
 import { systemInfoTool, codeExecutionEnvironmentAnalysisTool } from "./systemInfo.js";
-import { ingestDocumentTool, queryKnowledgeBaseTool, summarizeDocumentTool, listKnowledgeBaseDocumentsTool } from "./knowledgeBaseTools.js";
+import { ingestDocumentTool, ingestDirectoryTool, queryKnowledgeBaseTool, summarizeDocumentTool, listKnowledgeBaseDocumentsTool, getKnowledgeBaseDocumentTool, deleteKnowledgeBaseDocumentTool, expandCitationTool, exportKnowledgeBaseTool, importKnowledgeBaseTool } from "./knowledgeBaseTools.js";
 import {
   navigationTool,
   screenshotTool,
@@ -224,6 +226,8 @@ import {
   findCodeDuplicatesTool,
 } from "./debugTools.js";
 import { readDataFromFileTool, analyzeCsvDataTool, writeDataToFileTool, checksumFileTool, compressFileTool, decompressFileTool, findInFileTool } from "./dataTools.js";
+import { costReportTool } from "./costTools.js";
+import { auditLogTool } from "./auditTools.js";
 import { 
   deployServiceTool, 
   listContainersTool, 
@@ -255,9 +259,21 @@ export const allTools = [
   
   // Knowledge Base
   ingestDocumentTool,
+  ingestDirectoryTool,
   queryKnowledgeBaseTool,
   summarizeDocumentTool,
   listKnowledgeBaseDocumentsTool,
+  getKnowledgeBaseDocumentTool,
+  deleteKnowledgeBaseDocumentTool,
+  expandCitationTool,
+  exportKnowledgeBaseTool,
+  importKnowledgeBaseTool,
+  
+  // Cost Accounting
+  costReportTool,
+  
+  // Audit
+  auditLogTool,
   
   // Data Tools
   readDataFromFileTool,
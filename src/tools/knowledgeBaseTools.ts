@@ -5,12 +5,21 @@
  * Generated on 2025-06-10
  */
 import * as fs from 'fs/promises';
+import * as path from 'path';
+import fg from 'fast-glob';
+import ignore, { type Ignore } from 'ignore';
 import { createTool } from '@voltagent/core';
 import { z } from 'zod';
 import { generateId } from 'ai';
-import { logger } from '../config/logger.js';
+import { createModuleLogger } from '../config/logger.js';
 import { secureWebProcessorTool } from "./enhancedWebBrowser.js";
-import { SupervisorRetriever } from '../agents/supervisorRetriever.js';
+import { SupervisorRetriever, formatCitationId } from '../agents/supervisorRetriever.js';
+import { extractDocument, type ExtractedDocument } from '../agents/documentExtractors.js';
+import { summarizeAbstractive, type SummarizerModel } from '../agents/documentSummarizer.js';
+import { readKnowledgeBaseSnapshot, writeKnowledgeBaseSnapshot } from '../agents/knowledgeBaseSnapshot.js';
+import { calculateFileChecksum } from './dataTools.js';
+
+const logger = createModuleLogger('knowledgeBaseTools');
 
 /**
  * Global knowledge base retriever instance
@@ -18,13 +27,22 @@ import { SupervisorRetriever } from '../agents/supervisorRetriever.js';
  */
 let globalKnowledgeRetriever: SupervisorRetriever | null = null;
 
+/**
+ * Model used for abstractive summaries; without one, summaries fall back to the heuristic modes
+ */
+let globalSummarizer: SummarizerModel | null = null;
+
 /**
  * Initialize the knowledge base with a SupervisorRetriever instance
  * @param retriever - The SupervisorRetriever instance to use for knowledge storage
+ * @param options.summarizer - Provider and model used for abstractive summaries
  */
-export const initializeKnowledgeBase = (retriever: SupervisorRetriever): void => {
+export const initializeKnowledgeBase = (retriever: SupervisorRetriever, options: { summarizer?: SummarizerModel } = {}): void => {
   globalKnowledgeRetriever = retriever;
-  logger.info('[KnowledgeBase] Initialized with SupervisorRetriever integration');
+  globalSummarizer = options.summarizer ?? null;
+  logger.info('[KnowledgeBase] Initialized with SupervisorRetriever integration', {
+    abstractiveSummaries: globalSummarizer !== null,
+  });
 };
 
 /**
@@ -39,37 +57,75 @@ const getKnowledgeRetriever = (): SupervisorRetriever => {
   return globalKnowledgeRetriever;
 };
 
+/** File types the bulk ingest picks up when no include globs are given */
+const DEFAULT_INCLUDE_GLOBS = ['**/*.{md,markdown,mdx,txt,html,htm,pdf,docx}'];
+
+/** Paths never ingested from a directory */
+const ALWAYS_EXCLUDED_GLOBS = ['**/.git/**', '**/node_modules/**'];
+
+/**
+ * Find files under a directory matching include globs, minus exclude globs and .gitignore rules
+ * @param root - Absolute directory path
+ * @param include - Glob patterns relative to root
+ * @param exclude - Glob patterns relative to root
+ * @param respectGitignore - Apply every .gitignore found under root to its own subtree
+ * @returns Absolute file paths, sorted
+ */
+const findDirectoryFiles = async (root: string, include: string[], exclude: string[], respectGitignore: boolean): Promise<string[]> => {
+  const ignoredByGlob = [...ALWAYS_EXCLUDED_GLOBS, ...exclude];
+  const files = await fg(include, { cwd: root, absolute: true, onlyFiles: true, dot: true, ignore: ignoredByGlob });
+  if (!respectGitignore) return files.sort();
+
+  const gitignoreFiles = await fg('**/.gitignore', { cwd: root, absolute: true, dot: true, ignore: ALWAYS_EXCLUDED_GLOBS });
+  const rules: { dir: string; matcher: Ignore }[] = await Promise.all(
+    gitignoreFiles.map(async file => ({
+      dir: path.dirname(file),
+      matcher: ignore().add(await fs.readFile(file, 'utf8')),
+    }))
+  );
+
+  return files
+    .filter(file => !rules.some(({ dir, matcher }) => {
+      const relative = path.relative(dir, file);
+      return !relative.startsWith('..') && matcher.ignores(relative.split(path.sep).join('/'));
+    }))
+    .sort();
+};
+
 /**
  * Enhanced Ingest Document Tool
  * Reads content from a specified source and adds it to the sophisticated knowledge base with embeddings
  */
 export const ingestDocumentTool = createTool({
   name: "ingest_document",
-  description: "Reads content from a specified source (file path, URL, or raw text) and adds it to the knowledge base with embeddings for semantic search.",
+  description: "Reads content from a specified source (file path, URL, or raw text) and adds it to the knowledge base with embeddings for semantic search. PDF, DOCX, Markdown, HTML and plain text are detected and extracted automatically.",
   parameters: z.object({
     sourceType: z.enum(["filepath", "url", "raw_text"]).describe("The type of source to ingest from."),
     source: z.string().describe("The actual source content (file path, URL, or the raw text itself)."),
+    format: z.enum(["auto", "pdf", "docx", "markdown", "html", "text"]).optional().default("auto").describe("Document format. 'auto' detects it from the file signature, extension or content."),
     documentId: z.string().optional().describe("Optional: A unique ID for the document. If not provided, one will be generated."),
     metadata: z.record(z.any()).optional().describe("Optional: Additional metadata to associate with the document (e.g., author, date, tags)."),
-    chunkSize: z.number().optional().default(300).describe("Size of chunks for embedding (default: 300 characters)."),
+    chunkSize: z.number().optional().default(300).describe("Target size of each chunk in characters (default: 300)."),
+    chunkOverlap: z.number().optional().describe("Optional: Characters of overlap between consecutive chunks (default: 15% of chunkSize)."),
     tags: z.array(z.string()).optional().describe("Optional tags for categorization and filtering."),
   }),
-  execute: async ({ sourceType, source, documentId, metadata = {}, chunkSize, tags = [] }) => {
+  execute: async ({ sourceType, source, format, documentId, metadata = {}, chunkSize, chunkOverlap, tags = [] }) => {
     const retriever = getKnowledgeRetriever();
     const docId = documentId || `doc-${generateId()}`;
     
     logger.info(`[ingestDocumentTool] Ingesting document from ${sourceType}: ${source}`);
     
     try {
-      let content: string;
+      const formatOverride = format === "auto" ? undefined : format;
+      let extracted: ExtractedDocument;
 
       switch (sourceType) {
         case "filepath":
           try {
             // Validate and read file with path.resolve for security
-            const path = await import('path');
             const resolvedPath = path.resolve(source);
-            content = await fs.readFile(resolvedPath, { encoding: 'utf8' });
+            const data = await fs.readFile(resolvedPath);
+            extracted = await extractDocument(data, { fileName: resolvedPath, format: formatOverride });
           } catch (fileError) {
             throw new Error(`Failed to read file ${source}: ${(fileError as Error).message}`);
           }
@@ -82,45 +138,46 @@ export const ingestDocumentTool = createTool({
               processingScript: `return htmlContent;`,
               timeout: 30000,
             });
-            content = webResult.processedResult as string;
+            extracted = await extractDocument(webResult.processedResult as string, { format: formatOverride ?? "html" });
           } catch (webError) {
             throw new Error(`Failed to fetch content from URL ${source}: ${(webError as Error).message}`);
           }
           break;
           
         case "raw_text":
-          content = source;
+          extracted = await extractDocument(source, { format: formatOverride });
           break;
           
         default:
           throw new Error(`Unsupported source type: ${sourceType}`);
       }
 
+      const content = extracted.content;
       if (!content || content.trim().length === 0) {
         throw new Error(`No content found from source: ${source}`);
-      }      // Use the SupervisorRetriever's ingestChatContext method for document ingestion
-      await retriever.ingestChatContext(
-        docId,
+      }
+
+      const document = await retriever.ingestDocument({
+        documentId: docId,
         content,
         source,
-        {
-          ...metadata,
-          documentId: docId,
-          sourceType,
-          tags,
-          timestamp: Date.now(),
-          contentLength: content.length,
-          type: 'document',
-        },
-        chunkSize
-      );
+        sourceType,
+        title: extracted.title,
+        headings: extracted.headings,
+        tags,
+        metadata: { ...extracted.metadata, format: extracted.format, ...metadata },
+        chunkSize,
+        chunkOverlap,
+      });
 
       logger.info(`[ingestDocumentTool] Document ingested successfully`, {
         documentId: docId,
         source,
         sourceType,
+        format: extracted.format,
         contentLength: content.length,
         chunkSize,
+        chunkCount: document.chunkCount,
         tags
       });
 
@@ -129,9 +186,12 @@ export const ingestDocumentTool = createTool({
         documentId: docId,
         source,
         sourceType,
+        format: extracted.format,
+        title: extracted.title,
+        headingCount: extracted.headings.length,
         contentLength: content.length,
-        chunksCreated: Math.ceil(content.length / chunkSize),
-        message: `Document '${docId}' from '${source}' ingested with embeddings.`
+        chunksCreated: document.chunkCount,
+        message: `Document '${docId}' from '${source}' ingested as ${document.chunkCount} chunks.`
       });
       
     } catch (error) {
@@ -145,6 +205,155 @@ export const ingestDocumentTool = createTool({
   },
 });
 
+/**
+ * Ingest Directory Tool
+ * Keeps the knowledge base in sync with a folder: new and changed files are (re)ingested,
+ * unchanged files are skipped by checksum unless some of their chunks are missing, and files
+ * that disappeared are removed.
+ */
+export const ingestDirectoryTool = createTool({
+  name: "ingest_directory",
+  description: "Ingests every matching file in a directory into the knowledge base, respecting .gitignore. Re-running only re-indexes files whose checksum changed or whose stored document is incomplete, and removes documents for deleted files.",
+  parameters: z.object({
+    directory: z.string().describe("The directory to ingest."),
+    include: z.array(z.string()).optional().describe("Glob patterns of files to include, relative to the directory (default: Markdown, text, HTML, PDF and DOCX files)."),
+    exclude: z.array(z.string()).optional().default([]).describe("Glob patterns of files to exclude, relative to the directory."),
+    respectGitignore: z.boolean().optional().default(true).describe("Skip files ignored by .gitignore files inside the directory."),
+    removeDeleted: z.boolean().optional().default(true).describe("Remove documents previously ingested from this directory whose files no longer match."),
+    maxFileSizeBytes: z.number().optional().default(10 * 1024 * 1024).describe("Skip files larger than this many bytes (default: 10 MB)."),
+    chunkSize: z.number().optional().default(300).describe("Target size of each chunk in characters (default: 300)."),
+    chunkOverlap: z.number().optional().describe("Optional: Characters of overlap between consecutive chunks (default: 15% of chunkSize)."),
+    tags: z.array(z.string()).optional().describe("Optional tags applied to every ingested document."),
+  }),
+  execute: async ({ directory, include, exclude, respectGitignore, removeDeleted, maxFileSizeBytes, chunkSize, chunkOverlap, tags = [] }) => {
+    const retriever = getKnowledgeRetriever();
+    const root = path.resolve(directory);
+    const startTime = Date.now();
+
+    logger.info(`[ingestDirectoryTool] Syncing directory ${root}`, { include, exclude, respectGitignore });
+
+    try {
+      const stat = await fs.stat(root);
+      if (!stat.isDirectory()) {
+        throw new Error(`Not a directory: ${directory}`);
+      }
+
+      const files = await findDirectoryFiles(root, include?.length ? include : DEFAULT_INCLUDE_GLOBS, exclude, respectGitignore);
+
+      // Documents from earlier runs over this directory, keyed by absolute file path
+      const existing = new Map(
+        (await retriever.listDocuments())
+          .filter(doc => doc.metadata.collection === root && typeof doc.metadata.filePath === 'string')
+          .map(doc => [doc.metadata.filePath as string, doc])
+      );
+
+      const added: string[] = [];
+      const updated: string[] = [];
+      const repaired: string[] = [];
+      const skipped: { file: string; reason: string }[] = [];
+      const failed: { file: string; error: string }[] = [];
+      let unchanged = 0;
+
+      for (const file of files) {
+        const relativePath = path.relative(root, file).split(path.sep).join('/');
+        try {
+          const fileStat = await fs.stat(file);
+          if (fileStat.size > maxFileSizeBytes) {
+            skipped.push({ file: relativePath, reason: `larger than ${maxFileSizeBytes} bytes` });
+            continue;
+          }
+
+          const checksum = await calculateFileChecksum(file);
+          const previous = existing.get(file);
+          // Files whose stored document lost chunks are re-ingested even when unchanged
+          if (previous?.metadata.checksum === checksum && previous.missingChunks === 0) {
+            unchanged++;
+            continue;
+          }
+
+          const extracted = await extractDocument(await fs.readFile(file), { fileName: file });
+          if (extracted.content.trim().length === 0) {
+            skipped.push({ file: relativePath, reason: 'no extractable content' });
+            continue;
+          }
+
+          await retriever.ingestDocument({
+            documentId: previous?.documentId ?? `file:${file}`,
+            content: extracted.content,
+            source: file,
+            sourceType: 'filepath',
+            title: extracted.title,
+            headings: extracted.headings,
+            tags,
+            metadata: {
+              ...extracted.metadata,
+              format: extracted.format,
+              collection: root,
+              filePath: file,
+              relativePath,
+              checksum,
+              fileSize: fileStat.size,
+              modifiedAt: fileStat.mtime.toISOString(),
+            },
+            chunkSize,
+            chunkOverlap,
+          });
+          if (!previous) {
+            added.push(relativePath);
+          } else {
+            (previous.metadata.checksum === checksum ? repaired : updated).push(relativePath);
+          }
+        } catch (fileError) {
+          failed.push({ file: relativePath, error: fileError instanceof Error ? fileError.message : String(fileError) });
+        }
+      }
+
+      const removed: string[] = [];
+      if (removeDeleted) {
+        const current = new Set(files);
+        for (const [filePath, doc] of existing) {
+          if (current.has(filePath)) continue;
+          await retriever.deleteDocument(doc.documentId);
+          removed.push(path.relative(root, filePath).split(path.sep).join('/'));
+        }
+      }
+
+      const summary = {
+        directory: root,
+        matchedFiles: files.length,
+        added: added.length,
+        updated: updated.length,
+        repaired: repaired.length,
+        unchanged,
+        removed: removed.length,
+        skipped: skipped.length,
+        failed: failed.length,
+        duration: Date.now() - startTime,
+      };
+      logger.info(`[ingestDirectoryTool] Directory sync completed`, summary);
+
+      return JSON.stringify({
+        success: failed.length === 0,
+        ...summary,
+        addedFiles: added,
+        updatedFiles: updated,
+        repairedFiles: repaired,
+        removedFiles: removed,
+        skippedFiles: skipped,
+        failedFiles: failed,
+        message: `Synced ${files.length} files from '${root}': ${added.length} added, ${updated.length} updated, ${repaired.length} repaired, ${unchanged} unchanged, ${removed.length} removed, ${failed.length} failed.`
+      });
+
+    } catch (error) {
+      logger.error(`[ingestDirectoryTool] Failed to ingest directory`, {
+        directory,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new Error(`Directory ingestion failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+});
+
 /**
  * Enhanced Query Knowledge Base Tool
  * Performs semantic search using embeddings and sophisticated retrieval
@@ -155,17 +364,19 @@ export const queryKnowledgeBaseTool = createTool({
   parameters: z.object({
     query: z.string().describe("The natural language query to search the knowledge base."),
     limit: z.number().optional().default(5).describe("The maximum number of relevant documents to return."),
-    minRelevanceScore: z.number().optional().default(0.3).describe("Minimum relevance score to include results."),
+    minRelevanceScore: z.number().optional().default(0.3).describe("Minimum relevance score to include results, from 0 to 1. Keyword scores are relative to the best keyword match, which scores 1."),
     searchType: z.enum(["semantic", "keyword", "hybrid"]).optional().default("hybrid").describe("Type of search to perform."),
+    semanticWeight: z.number().min(0).max(1).optional().describe("Optional: Weight of semantic similarity in hybrid search, from 0 (keyword only) to 1 (semantic only)."),
     tags: z.array(z.string()).optional().describe("Filter results by specific tags."),
     sourceType: z.enum(["filepath", "url", "raw_text"]).optional().describe("Filter by source type."),
   // eslint-disable-next-line sonarjs/cognitive-complexity
-  }),  execute: async ({ query, limit, minRelevanceScore, searchType, tags, sourceType }) => {
+  }),  execute: async ({ query, limit, minRelevanceScore, searchType, semanticWeight, tags, sourceType }) => {
     const retriever = getKnowledgeRetriever();
     
     logger.info(`[queryKnowledgeBaseTool] Querying knowledge base`, {
       query: query.substring(0, 100),
       searchType,
+      semanticWeight,
       limit,
       minRelevanceScore,
       tags,
@@ -173,53 +384,37 @@ export const queryKnowledgeBaseTool = createTool({
     });
     
     try {
-      // retrieve() might return a JSON string or an array directly.
-      // The TypeScript error suggests it's typed as returning a string.
-      const retrievedData = await retriever.retrieve(query, {
+      const searchResult = await retriever.searchDocuments(query, {
         limit,
-        contextType: 'document'
+        minScore: minRelevanceScore,
+        tags,
+        sourceType,
+        mode: searchType,
+        alpha: semanticWeight,
       });
 
-      let searchResult: any[]; // This will hold the array we need for .map()
-
-      if (typeof retrievedData === 'string') {
-        // If it's a string, assume it's JSON and parse it.
-        try {
-          searchResult = JSON.parse(retrievedData);
-          if (!Array.isArray(searchResult)) {
-            logger.error('[queryKnowledgeBaseTool] Parsed data from retriever is not an array.', { parsedData: searchResult, originalData: retrievedData });
-            throw new Error('Retrieved search data, after parsing, was not in the expected array format.');
-          }
-        } catch (parseError) {
-          logger.error('[queryKnowledgeBaseTool] Failed to parse JSON string from retriever.retrieve()', { rawData: retrievedData, error: parseError });
-          throw new Error(`Failed to parse search result: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
-        }
-      } else if (Array.isArray(retrievedData)) {
-        // If it's already an array (e.g., if types were 'any' or retriever was updated)
-        searchResult = retrievedData;
-      } else {
-        // If it's neither a string nor an array, it's an unexpected format.
-        logger.error('[queryKnowledgeBaseTool] Unexpected data type from retriever.retrieve(). Expected string or array.', { type: typeof retrievedData, data: retrievedData });
-        throw new Error('Unexpected data type for search results from retriever.');
-      }
-
-      // Process results using the now-guaranteed-to-be-array searchResult
-      const processedResults = searchResult.map((entry: any) => ({
-        documentId: entry.metadata?.documentId || entry.id,
+      const filteredResults = searchResult.map(({ entry, score, keywordScore, semanticScore }) => ({
+        citationId: formatCitationId(entry.metadata.documentId, entry.metadata.charStart, entry.metadata.charEnd),
+        documentId: entry.metadata.documentId,
+        chunkIndex: entry.metadata.chunkIndex,
+        charStart: entry.metadata.charStart,
+        charEnd: entry.metadata.charEnd,
+        lineStart: entry.metadata.lineStart,
+        lineEnd: entry.metadata.lineEnd,
         source: entry.source,
-        sourceType: entry.metadata?.sourceType || "unknown",
+        sourceType: entry.metadata.sourceType || "unknown",
+        title: entry.metadata.title,
+        headingPath: entry.metadata.headingPath || [],
+        format: entry.metadata.format,
         content: entry.content,
-        relevanceScore: entry.metadata?.relevanceScore || 0.5,
-        tags: entry.metadata?.tags || [],
-        timestamp: entry.metadata?.timestamp || Date.now(),
+        relevanceScore: Number(score.toFixed(4)),
+        keywordScore: keywordScore === undefined ? undefined : Number(keywordScore.toFixed(4)),
+        semanticScore: semanticScore === undefined ? undefined : Number(semanticScore.toFixed(4)),
+        tags: entry.metadata.tags || [],
+        timestamp: entry.metadata.timestamp || Date.now(),
         searchType: searchType || 'keyword'
       }));
 
-      // Filter by sourceType if provided
-      const filteredResults = sourceType 
-        ? processedResults.filter((r: any) => r.sourceType === sourceType)
-        : processedResults;
-
       if (filteredResults.length > 0) {
         logger.info(`[queryKnowledgeBaseTool] Found ${filteredResults.length} relevant documents`);
         
@@ -228,17 +423,26 @@ export const queryKnowledgeBaseTool = createTool({
           query,
           searchType,
           totalResults: filteredResults.length,
-          results: filteredResults.slice(0, limit).map((result: any) => ({
+          results: filteredResults.map((result) => ({
+            citationId: result.citationId,
             documentId: result.documentId,
+            chunkIndex: result.chunkIndex,
+            charRange: [result.charStart, result.charEnd],
+            lineRange: result.lineStart ? [result.lineStart, result.lineEnd] : undefined,
             source: result.source,
             sourceType: result.sourceType,
+            title: result.title,
+            headingPath: result.headingPath,
+            format: result.format,
             contentPreview: result.content.substring(0, 300) + (result.content.length > 300 ? "..." : ""),
             relevanceScore: result.relevanceScore,
+            keywordScore: result.keywordScore,
+            semanticScore: result.semanticScore,
             tags: result.tags,
             searchType: result.searchType,
             timestamp: new Date(result.timestamp).toISOString()
           })),
-          message: `Found ${filteredResults.length} relevant documents using ${searchType} search.`
+          message: `Found ${filteredResults.length} relevant documents using ${searchType} search. Cite passages by citationId; use expand_citation for surrounding context.`
         });
       } else {
         logger.info(`[queryKnowledgeBaseTool] No relevant documents found`, { query, searchType });
@@ -263,107 +467,185 @@ export const queryKnowledgeBaseTool = createTool({
   },
 });
 
+type HeuristicSummaryType = "extractive" | "key_points" | "structured";
+
+/**
+ * Summarize by selecting sentences, without calling a model
+ * @param content - Text to summarize
+ * @param sentenceCount - Number of sentences to select
+ * @param summaryType - Selection strategy
+ * @returns Summary, extraction method and the number of sentences in the source
+ * @throws Error if the content has no usable sentences
+ */
+const summarizeHeuristically = (content: string, sentenceCount: number, summaryType: HeuristicSummaryType) => {
+  // Enhanced sentence tokenization with better handling
+  const sentences = content
+    .split(/(?<=[.!?])\s+/)
+    .filter((s: string) => s.trim().length > 10) // Filter out very short sentences
+    .map((s: string) => s.trim());
+
+  if (sentences.length === 0) {
+    throw new Error("No valid sentences found in document content");
+  }
+
+  let summary: string;
+  let extractionMethod: string;
+
+  switch (summaryType) {
+    case "extractive":
+      // Extract key sentences based on position and length heuristics
+      { const keyIndices = [
+        0, // First sentence
+        Math.floor(sentences.length / 2), // Middle sentence
+        sentences.length - 1 // Last sentence
+      ].filter((idx, i, arr) => arr.indexOf(idx) === i) // Remove duplicates
+       .slice(0, sentenceCount);
+      
+      summary = keyIndices.map(idx => sentences[idx]).join(' ');
+      extractionMethod = "positional_heuristic";
+      break; }
+
+    case "key_points":
+      // Extract sentences with key indicators
+      { const keywordPatterns = /\b(important|key|significant|essential|critical|main|primary|conclusion|result|finding)\b/i;
+      const keywordSentences = sentences
+        .filter((s: string) => keywordPatterns.test(s))
+        .slice(0, sentenceCount);
+      
+      summary = keywordSentences.length > 0 
+        ? keywordSentences.join(' ')
+        : sentences.slice(0, sentenceCount).join(' ');
+      extractionMethod = "keyword_based";
+      break; }
+
+    case "structured":
+      // Create a structured summary with sections
+      { const firstSentence = sentences[0];
+      const lastSentence = sentences[sentences.length - 1];
+      const middleSentences = sentences.slice(1, -1).slice(0, sentenceCount - 2);
+      
+      summary = [
+        `Overview: ${firstSentence}`,
+        middleSentences.length > 0 ? `Key Points: ${middleSentences.join(' ')}` : '',
+        `Conclusion: ${lastSentence}`
+      ].filter(Boolean).join('\n\n');
+      extractionMethod = "structured";
+      break; }
+
+    default:
+      summary = sentences.slice(0, sentenceCount).join(' ');
+      extractionMethod = "simple";
+  }
+
+  return { summary, extractionMethod, originalSentenceCount: sentences.length };
+};
+
 /**
  * Enhanced Summarize Document Tool with AI-powered summarization capabilities
  */
 export const summarizeDocumentTool = createTool({
   name: "summarize_document",
-  description: "Generates a concise summary of provided document content using intelligent sentence extraction and key point identification.",
+  description: "Generates a concise summary of provided document content or of a document already in the knowledge base. The 'abstractive' type writes a new summary with the language model (map-reduce over long documents); the other types select key sentences without a model.",
   parameters: z.object({
-    documentContent: z.string().describe("The full content of the document to summarize."),
-    sentenceCount: z.number().optional().default(3).describe("The number of key sentences to extract for the summary."),
-    summaryType: z.enum(["extractive", "key_points", "structured"]).optional().default("extractive").describe("Type of summary to generate."),
+    documentContent: z.string().optional().describe("The full content of the document to summarize. Provide this or documentId."),
+    documentId: z.string().optional().describe("ID of a knowledge base document to summarize. Provide this or documentContent."),
+    sentenceCount: z.number().optional().default(3).describe("The number of key sentences to extract for the heuristic summary types."),
+    summaryType: z.enum(["abstractive", "extractive", "key_points", "structured"]).optional().default("extractive").describe("Type of summary to generate."),
+    targetLength: z.number().int().min(20).max(2000).optional().default(200).describe("Approximate length of an abstractive summary in words (default: 200)."),
+    fallbackType: z.enum(["extractive", "key_points", "structured"]).optional().default("structured").describe("Heuristic type used when an abstractive summary cannot be generated."),
   }),
-  execute: async ({ documentContent, sentenceCount, summaryType }) => {
+  execute: async ({ documentContent, documentId, sentenceCount, summaryType, targetLength, fallbackType }, options) => {
+    if ((documentContent === undefined) === (documentId === undefined)) {
+      throw new Error("Provide exactly one of documentContent or documentId");
+    }
+
     logger.info(`[summarizeDocumentTool] Summarizing document`, {
-      contentLength: documentContent.length,
+      documentId,
+      contentLength: documentContent?.length,
       sentenceCount,
-      summaryType
+      summaryType,
+      targetLength
     });
     
     try {
-      // Enhanced sentence tokenization with better handling
-      const sentences = documentContent
-        .split(/(?<=[.!?])\s+/)
-        .filter((s: string) => s.trim().length > 10) // Filter out very short sentences
-        .map((s: string) => s.trim());
-
-      if (sentences.length === 0) {
-        throw new Error("No valid sentences found in document content");
+      let content = documentContent ?? '';
+      let title: string | undefined;
+      if (documentId) {
+        const document = await getKnowledgeRetriever().getDocument(documentId);
+        if (!document) {
+          throw new Error(`Document ${documentId} not found in knowledge base`);
+        }
+        content = document.content;
+        title = document.title;
       }
 
-      let summary: string;
-      const metadata: Record<string, any> = {};
-
-      switch (summaryType) {
-        case "extractive":
-          // Extract key sentences based on position and length heuristics
-          { const keyIndices = [
-            0, // First sentence
-            Math.floor(sentences.length / 2), // Middle sentence
-            sentences.length - 1 // Last sentence
-          ].filter((idx, i, arr) => arr.indexOf(idx) === i) // Remove duplicates
-           .slice(0, sentenceCount);
-          
-          summary = keyIndices.map(idx => sentences[idx]).join(' ');
-          metadata.extractionMethod = "positional_heuristic";
-          break; }
-
-        case "key_points":
-          // Extract sentences with key indicators
-          { const keywordPatterns = /\b(important|key|significant|essential|critical|main|primary|conclusion|result|finding)\b/i;
-          const keywordSentences = sentences
-            .filter((s: string) => keywordPatterns.test(s))
-            .slice(0, sentenceCount);
-          
-          summary = keywordSentences.length > 0 
-            ? keywordSentences.join(' ')
-            : sentences.slice(0, sentenceCount).join(' ');
-          metadata.extractionMethod = "keyword_based";
-          break; }
-
-        case "structured":
-          // Create a structured summary with sections
-          { const firstSentence = sentences[0];
-          const lastSentence = sentences[sentences.length - 1];
-          const middleSentences = sentences.slice(1, -1).slice(0, sentenceCount - 2);
-          
-          summary = [
-            `Overview: ${firstSentence}`,
-            middleSentences.length > 0 ? `Key Points: ${middleSentences.join(' ')}` : '',
-            `Conclusion: ${lastSentence}`
-          ].filter(Boolean).join('\n\n');
-          metadata.extractionMethod = "structured";
-          break; }
+      let result: Record<string, any> | undefined;
 
-        default:
-          summary = sentences.slice(0, sentenceCount).join(' ');
-          metadata.extractionMethod = "simple";
+      if (summaryType === "abstractive") {
+        if (!globalSummarizer) {
+          logger.warn(`[summarizeDocumentTool] No summarization model configured, using ${fallbackType} summary`);
+        } else {
+          try {
+            const abstractive = await summarizeAbstractive(content, globalSummarizer, {
+              targetLength,
+              title,
+              signal: options?.signal,
+            });
+            result = {
+              summaryType,
+              extractionMethod: abstractive.windowCount > 1 ? "map_reduce" : "single_pass",
+              summary: abstractive.summary,
+              metadata: {
+                targetLength,
+                windowCount: abstractive.windowCount,
+                reducePasses: abstractive.reducePasses,
+                modelCalls: abstractive.modelCalls,
+              },
+            };
+          } catch (error) {
+            logger.warn(`[summarizeDocumentTool] Abstractive summary failed, using ${fallbackType} summary`, {
+              documentId,
+              error: error instanceof Error ? error.message : String(error)
+            });
+          }
+        }
       }
 
-      const result = {
-        success: true,
-        originalLength: documentContent.length,
-        originalSentenceCount: sentences.length,
-        summaryLength: summary.length,
-        summaryType,
-        extractionMethod: metadata.extractionMethod,
-        summary,
-        metadata
-      };
+      if (!result) {
+        const heuristicType = summaryType === "abstractive" ? fallbackType : summaryType;
+        const heuristic = summarizeHeuristically(content, sentenceCount, heuristicType);
+        result = {
+          summaryType: heuristicType,
+          extractionMethod: heuristic.extractionMethod,
+          originalSentenceCount: heuristic.originalSentenceCount,
+          summary: heuristic.summary,
+          metadata: {
+            extractionMethod: heuristic.extractionMethod,
+            ...(summaryType === "abstractive" && { fallback: true, requestedSummaryType: summaryType }),
+          },
+        };
+      }
 
       logger.info(`[summarizeDocumentTool] Document summarized successfully`, {
-        originalLength: documentContent.length,
-        summaryLength: summary.length,
-        summaryType,
-        extractionMethod: metadata.extractionMethod
+        documentId,
+        originalLength: content.length,
+        summaryLength: result.summary.length,
+        summaryType: result.summaryType,
+        extractionMethod: result.extractionMethod
       });
 
-      return JSON.stringify(result);
+      return JSON.stringify({
+        success: true,
+        ...(documentId && { documentId, title }),
+        originalLength: content.length,
+        summaryLength: result.summary.length,
+        ...result,
+      });
       
     } catch (error) {
       logger.error(`[summarizeDocumentTool] Summarization failed`, {
-        contentLength: documentContent.length,
+        documentId,
+        contentLength: documentContent?.length,
         error: error instanceof Error ? error.message : String(error)
       });
       throw new Error(`Document summarization failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -396,45 +678,13 @@ export const listKnowledgeBaseDocumentsTool = createTool({
     });
     
     try {
-      // Get statistics from the retriever
-      const stats = retriever.getStats();
-      
-      // Search for document contexts with filters
-      const allDocuments = retriever.search("", {
-        type: 'document',
-        limit: limit * 2, // Get more to allow for filtering
-        minRelevanceScore: 0, // Include all documents
-      });
+      const allDocuments = await retriever.listDocuments();
+      const stats = await retriever.getStats();
 
-      // Apply filters
-      let filteredDocuments = allDocuments;
-      
-      if (sourceType) {
-        filteredDocuments = filteredDocuments.filter((doc: any) => 
-          doc.metadata?.sourceType === sourceType
-        );
-      }
+      // Apply filters and sort
+      let documents = await retriever.listDocuments({ sourceType, tags });
       
-      if (tags && tags.length > 0) {
-        filteredDocuments = filteredDocuments.filter((doc: any) => 
-          doc.metadata?.tags && 
-          tags.some(tag => doc.metadata.tags.includes(tag))
-        );
-      }
-
-      // Group by documentId to avoid duplicates from chunking
-      const documentMap = new Map();
-      filteredDocuments.forEach((doc: any) => {
-        const docId = doc.metadata?.documentId || doc.id;
-        if (!documentMap.has(docId) || doc.metadata?.chunkIndex === 0) {
-          documentMap.set(docId, doc);
-        }
-      });
-
-      // Convert to array and sort
-      let documents = Array.from(documentMap.values());
-      
-      documents.sort((a: any, b: any) => {
+      documents.sort((a, b) => {
         let aValue, bValue;
         
         switch (sortBy) {
@@ -443,13 +693,13 @@ export const listKnowledgeBaseDocumentsTool = createTool({
             bValue = b.source || "";
             break;
           case "contentLength":
-            aValue = a.metadata?.contentLength || a.content.length;
-            bValue = b.metadata?.contentLength || b.content.length;
+            aValue = a.contentLength;
+            bValue = b.contentLength;
             break;
           case "timestamp":
           default: // Moved default here
-            aValue = a.metadata?.timestamp || 0;
-            bValue = b.metadata?.timestamp || 0;
+            aValue = a.timestamp;
+            bValue = b.timestamp;
             break;
         }
         
@@ -462,29 +712,29 @@ export const listKnowledgeBaseDocumentsTool = createTool({
           if (aValue < bValue) return 1;
           return 0;
         }
-      });      // Apply final limit
+      });
+
+      // Apply final limit
       documents = documents.slice(0, limit);
 
       const result = {
         success: true,
-        totalDocumentsInBase: stats.totalContexts,
+        totalDocumentsInBase: allDocuments.length,
         filteredCount: documents.length,
         filters: { sourceType, tags, sortBy, sortOrder },
         statistics: stats,
-        documents: documents.map((doc: any) => ({
-          documentId: doc.metadata?.documentId || doc.id,
+        documents: documents.map((doc) => ({
+          documentId: doc.documentId,
           source: doc.source,
-          sourceType: doc.metadata?.sourceType || "unknown",
-          contentPreview: doc.content.substring(0, 150) + (doc.content.length > 150 ? "..." : ""),
-          contentLength: doc.metadata?.contentLength || doc.content.length,
-          tags: doc.metadata?.tags || [],
-          timestamp: new Date(doc.metadata?.timestamp || 0).toISOString(),
-          metadata: {
-            ...doc.metadata,
-            // Remove internal fields for cleaner output
-            chunkIndex: undefined,
-            embedding: undefined,
-          }
+          sourceType: doc.sourceType,
+          title: doc.title,
+          contentPreview: doc.preview.substring(0, 150) + (doc.preview.length > 150 ? "..." : ""),
+          contentLength: doc.contentLength,
+          chunkCount: doc.chunkCount,
+          missingChunks: doc.missingChunks,
+          tags: doc.tags,
+          timestamp: new Date(doc.timestamp).toISOString(),
+          metadata: doc.metadata,
         }))
       };
 
@@ -498,4 +748,220 @@ export const listKnowledgeBaseDocumentsTool = createTool({
       throw new Error(`Failed to list knowledge base documents: ${error instanceof Error ? error.message : String(error)}`);
     }
   },
-});
\ No newline at end of file
+});
+
+/**
+ * Get Knowledge Base Document Tool
+ * Fetches a whole document from the knowledge base, reassembled from its chunks
+ */
+export const getKnowledgeBaseDocumentTool = createTool({
+  name: "get_knowledge_base_document",
+  description: "Fetches a full document from the knowledge base by its document ID, including its metadata and chunk count. A non-zero missingChunks means part of the document is not stored and the content has gaps.",
+  parameters: z.object({
+    documentId: z.string().describe("The ID of the document to fetch."),
+    maxLength: z.number().optional().default(20000).describe("Maximum number of content characters to return."),
+  }),
+  execute: async ({ documentId, maxLength }) => {
+    const retriever = getKnowledgeRetriever();
+    
+    logger.info(`[getKnowledgeBaseDocumentTool] Fetching document`, { documentId });
+    
+    try {
+      const document = await retriever.getDocument(documentId);
+      if (!document) {
+        throw new Error(`Document '${documentId}' not found in the knowledge base`);
+      }
+
+      return JSON.stringify({
+        success: true,
+        documentId: document.documentId,
+        source: document.source,
+        sourceType: document.sourceType,
+        title: document.title,
+        tags: document.tags,
+        chunkCount: document.chunkCount,
+        missingChunks: document.missingChunks,
+        contentLength: document.contentLength,
+        timestamp: new Date(document.timestamp).toISOString(),
+        metadata: document.metadata,
+        truncated: document.content.length > maxLength,
+        content: document.content.substring(0, maxLength),
+      });
+      
+    } catch (error) {
+      logger.error(`[getKnowledgeBaseDocumentTool] Failed to fetch document`, {
+        documentId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new Error(`Failed to fetch knowledge base document: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+});
+
+/**
+ * Delete Knowledge Base Document Tool
+ * Removes every chunk of a document from the knowledge base
+ */
+export const deleteKnowledgeBaseDocumentTool = createTool({
+  name: "delete_knowledge_base_document",
+  description: "Deletes a document and all of its chunks from the knowledge base by its document ID.",
+  parameters: z.object({
+    documentId: z.string().describe("The ID of the document to delete."),
+  }),
+  execute: async ({ documentId }) => {
+    const retriever = getKnowledgeRetriever();
+    
+    logger.info(`[deleteKnowledgeBaseDocumentTool] Deleting document`, { documentId });
+    
+    try {
+      const removedChunks = await retriever.deleteDocument(documentId);
+      if (removedChunks === 0) {
+        throw new Error(`Document '${documentId}' not found in the knowledge base`);
+      }
+
+      return JSON.stringify({
+        success: true,
+        documentId,
+        removedChunks,
+        message: `Document '${documentId}' removed from the knowledge base.`
+      });
+      
+    } catch (error) {
+      logger.error(`[deleteKnowledgeBaseDocumentTool] Failed to delete document`, {
+        documentId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new Error(`Failed to delete knowledge base document: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+});
+
+/**
+ * Expand Citation Tool
+ * Resolves a citation id from query results into the cited passage and its surrounding text
+ */
+export const expandCitationTool = createTool({
+  name: "expand_citation",
+  description: "Expands a knowledge base citation id (e.g. 'kb:doc-123#120-480') into the cited passage plus the text before and after it.",
+  parameters: z.object({
+    citationId: z.string().describe("The citation id returned by query_knowledge_base."),
+    contextChars: z.number().optional().default(500).describe("Characters of surrounding context to include on each side of the passage."),
+  }),
+  execute: async ({ citationId, contextChars }) => {
+    const retriever = getKnowledgeRetriever();
+    
+    logger.info(`[expandCitationTool] Expanding citation`, { citationId, contextChars });
+    
+    try {
+      const expansion = await retriever.expandCitation(citationId, contextChars);
+      if (!expansion) {
+        throw new Error(`The document cited by '${citationId}' is no longer in the knowledge base`);
+      }
+
+      return JSON.stringify({
+        success: true,
+        ...expansion,
+        message: expansion.stale
+          ? `The document changed since '${citationId}' was issued; the passage shows the current text at that range.`
+          : `Expanded citation '${citationId}' (lines ${expansion.lineStart}-${expansion.lineEnd}).`
+      });
+      
+    } catch (error) {
+      logger.error(`[expandCitationTool] Failed to expand citation`, {
+        citationId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new Error(`Failed to expand citation: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+});
+
+/**
+ * Export Knowledge Base Tool
+ * Writes the full knowledge base to a versioned snapshot file for backups and deployments
+ */
+export const exportKnowledgeBaseTool = createTool({
+  name: "export_knowledge_base",
+  description: "Exports every knowledge base document, chunk, tag, metadata field and embedding to a versioned snapshot file (.jsonl, .tar or .tar.gz).",
+  parameters: z.object({
+    filePath: z.string().describe("Destination path. '.tar', '.tar.gz' and '.tgz' produce a tar archive; any other extension produces JSONL."),
+    format: z.enum(["auto", "jsonl", "tar"]).optional().default("auto").describe("Snapshot layout. 'auto' derives it from the file extension."),
+  }),
+  execute: async ({ filePath, format }) => {
+    const retriever = getKnowledgeRetriever();
+    const resolvedPath = path.resolve(filePath);
+    
+    logger.info(`[exportKnowledgeBaseTool] Exporting knowledge base`, { filePath: resolvedPath, format });
+    
+    try {
+      const entries = await retriever.exportEntries();
+      const manifest = await writeKnowledgeBaseSnapshot(resolvedPath, entries, {
+        format: format === "auto" ? undefined : format,
+      });
+      const { size } = await fs.stat(resolvedPath);
+
+      return JSON.stringify({
+        success: true,
+        filePath: resolvedPath,
+        fileSize: size,
+        ...manifest,
+        message: `Exported ${manifest.documentCount} documents (${manifest.entryCount} entries) to ${resolvedPath}.`
+      });
+      
+    } catch (error) {
+      logger.error(`[exportKnowledgeBaseTool] Export failed`, {
+        filePath: resolvedPath,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new Error(`Knowledge base export failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+});
+
+/**
+ * Import Knowledge Base Tool
+ * Validates a snapshot file and loads it into the knowledge base
+ */
+export const importKnowledgeBaseTool = createTool({
+  name: "import_knowledge_base",
+  description: "Imports a knowledge base snapshot created by export_knowledge_base. The snapshot is validated, and checked against the knowledge base capacity, before anything is changed. 'merge' replaces only the documents contained in the snapshot; 'replace' wipes the knowledge base first. If the import fails partway, the previous contents are restored.",
+  parameters: z.object({
+    filePath: z.string().describe("Path of the snapshot file (.jsonl, .tar or .tar.gz)."),
+    mode: z.enum(["merge", "replace"]).optional().default("merge").describe("How to combine the snapshot with the current knowledge base."),
+    format: z.enum(["auto", "jsonl", "tar"]).optional().default("auto").describe("Snapshot layout. 'auto' derives it from the file extension."),
+  }),
+  execute: async ({ filePath, mode, format }) => {
+    const retriever = getKnowledgeRetriever();
+    const resolvedPath = path.resolve(filePath);
+    
+    logger.info(`[importKnowledgeBaseTool] Importing knowledge base snapshot`, { filePath: resolvedPath, mode, format });
+    
+    try {
+      const { manifest, entries } = await readKnowledgeBaseSnapshot(resolvedPath, {
+        format: format === "auto" ? undefined : format,
+      });
+      const { imported, removed } = await retriever.importEntries(entries, mode);
+
+      return JSON.stringify({
+        success: true,
+        filePath: resolvedPath,
+        mode,
+        snapshotVersion: manifest.version,
+        exportedAt: manifest.exportedAt,
+        documentCount: manifest.documentCount,
+        importedEntries: imported,
+        removedEntries: removed,
+        embeddingModels: manifest.embeddingModels,
+        message: `Imported ${manifest.documentCount} documents (${imported} entries) from ${resolvedPath} in ${mode} mode.`
+      });
+      
+    } catch (error) {
+      logger.error(`[importKnowledgeBaseTool] Import failed`, {
+        filePath: resolvedPath,
+        mode,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new Error(`Knowledge base import failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  },
+});
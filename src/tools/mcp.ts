@@ -4,9 +4,11 @@
  */
 
 import { MCPConfiguration, type Tool, type ToolsetWithTools } from "@voltagent/core";
-import { logger } from "../config/logger.js";
+import { createModuleLogger } from "../config/logger.js";
 import { z } from "zod";
 
+const logger = createModuleLogger("mcp");
+
 // Define Zod schema for server names based on your configuration
 const ServerNameSchema = z.enum([
   "filesystem",
@@ -7,7 +7,9 @@
 import { createToolkit } from "@voltagent/core";
 import { z } from "zod";
 import { generateId } from "ai";
-import { logger } from "../config/logger.js";
+import { createModuleLogger } from "../config/logger.js";
+
+const logger = createModuleLogger("promptManagementTools");
 // ================================================================================================
 // SCHEMAS
 // ================================================================================================
@@ -7,12 +7,14 @@
 
 import { createTool } from "@voltagent/core";
 import { z } from "zod";
-import { logger } from "../config/logger.js";
+import { createModuleLogger } from "../config/logger.js";
 import { env } from "../config/environment.js";
 import * as os from "os";
 import * as process from "process";
 import * as child_process from "child_process";
 
+const logger = createModuleLogger("systemInfo");
+
 /**
  * Helper function to safely format bytes to human readable format
  */
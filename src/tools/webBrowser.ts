@@ -6,10 +6,12 @@
  */
 import { createTool } from "@voltagent/core";
 import { z } from "zod";
-import { logger } from "../config/logger.js";
+import { createModuleLogger } from "../config/logger.js";
 import * as cheerio from "cheerio";
 import axios from "axios"; // Use axios for HTTP requests
 
+const logger = createModuleLogger("webBrowser");
+
 // --- Search Tool ---
 const searchSchema = z.object({
   query: z.string().describe("The search query for DuckDuckGo."),
@@ -0,0 +1,14 @@
+// pdf-parse ships no type declarations; its package entry runs a debug harness when imported
+// as an ES module, so the library file is imported directly.
+declare module "pdf-parse/lib/pdf-parse.js" {
+  interface PdfParseResult {
+    numpages: number;
+    numrender: number;
+    info: Record<string, any> | null;
+    metadata: any;
+    text: string;
+    version: string;
+  }
+  function pdfParse(dataBuffer: Buffer, options?: { max?: number; version?: string }): Promise<PdfParseResult>;
+  export default pdfParse;
+}